@@ -0,0 +1,206 @@
+import { Pool } from 'pg';
+import { BatchService, BatchItemRecord } from '../../services/batch-service';
+import { OperationType } from '../../operations/base-operation';
+import { processMint, MintRequest } from './mint';
+import { processTransfer, TransferRequest } from './transfer';
+import { processBurn, BurnRequest } from './burn';
+import { processRetire, RetireRequest } from './retire';
+
+const MAX_BATCH_ITEMS = 500;
+
+/**
+ * Batch item: the operation type plus the fields of its single-operation request
+ * (including its own idempotencyKey)
+ */
+export type BatchItemRequest =
+  | ({ type: OperationType.MINT } & MintRequest)
+  | ({ type: OperationType.TRANSFER } & TransferRequest)
+  | ({ type: OperationType.BURN } & BurnRequest)
+  | ({ type: OperationType.RETIRE } & RetireRequest);
+
+// Body of a single-operation response, as far as the batch reads it
+interface ItemResult {
+  operationId?: string;
+  status?: string;
+}
+
+export interface BatchRequest {
+  items: BatchItemRequest[];
+}
+
+/**
+ * POST /api/operations/batch handler
+ * Creates a batch of mint, transfer, burn and retire operations; items are validated
+ * and created independently, so a rejected item does not block the others
+ */
+export async function handleCreateBatch(req: Request, pool: Pool): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as BatchRequest;
+
+    // 2. Validation
+    if (!Array.isArray(body.items) || body.items.length === 0 || body.items.length > MAX_BATCH_ITEMS) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid items',
+          details: `items must be an array of 1-${MAX_BATCH_ITEMS} operations`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Create batch (its item count is the total reported, so items left unrecorded
+    //    by an interrupted request read as pending rather than the batch as complete)
+    const batchService = new BatchService(pool);
+    const batchId = await batchService.createBatch(body.items.length);
+
+    // 4. Process items in order, recording each outcome
+    const items: (BatchItemRecord & { status: string | null })[] = [];
+
+    for (const [index, item] of body.items.entries()) {
+      const { record, status } = await processItem(index + 1, item, pool);
+      await batchService.recordItem(batchId, record);
+      items.push({ ...record, status });
+    }
+
+    // 5. Return response
+    const accepted = items.filter(item => item.operationId).length;
+
+    return new Response(
+      JSON.stringify({
+        batchId,
+        itemCount: items.length,
+        accepted,
+        rejected: items.length - accepted,
+        message: 'Batch created; accepted operations are queued for execution',
+        items
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Batch handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/operations/batch/:batchId handler
+ * Reports per-item progress and overall completion counts of a batch
+ */
+export async function handleGetBatch(batchId: string, pool: Pool): Promise<Response> {
+  try {
+    const batch = await new BatchService(pool).getBatch(batchId);
+
+    if (!batch) {
+      return new Response(
+        JSON.stringify({ error: 'Batch not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(batch),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get batch error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Run one item through its single-operation processor
+ * @returns Item record and the operation status (null when rejected)
+ */
+async function processItem(
+  itemNo: number,
+  item: BatchItemRequest,
+  pool: Pool
+): Promise<{ record: BatchItemRecord; status: string | null }> {
+  const isObject = typeof item === 'object' && item !== null;
+  const idempotencyKey = isObject && typeof item.idempotencyKey === 'string' ? item.idempotencyKey : null;
+
+  if (!isObject || !Object.values(OperationType).includes(item.type)) {
+    return {
+      record: {
+        itemNo,
+        type: null,
+        idempotencyKey,
+        operationId: null,
+        httpStatus: 400,
+        error: {
+          error: 'Invalid item type',
+          details: `type must be one of: ${Object.values(OperationType).join(', ')}`
+        }
+      },
+      status: null
+    };
+  }
+
+  // A processor that throws rejects its item only; the remaining items are still processed
+  let response: Response;
+  let result: ItemResult;
+  try {
+    response = await processRequest(item, pool);
+    result = await response.json() as ItemResult;
+  } catch (error: any) {
+    console.error(`Batch item ${itemNo} error:`, error);
+    return {
+      record: {
+        itemNo,
+        type: item.type,
+        idempotencyKey,
+        operationId: null,
+        httpStatus: 500,
+        error: { error: 'Internal server error', details: error.message }
+      },
+      status: null
+    };
+  }
+
+  const operationId = response.ok ? result.operationId ?? null : null;
+
+  return {
+    record: {
+      itemNo,
+      type: item.type,
+      idempotencyKey,
+      operationId,
+      httpStatus: response.status,
+      error: operationId ? null : result
+    },
+    status: operationId ? result.status ?? null : null
+  };
+}
+
+/**
+ * Hand an item to its single-operation processor, so it is handled exactly like its own request
+ */
+function processRequest(item: BatchItemRequest, pool: Pool): Promise<Response> {
+  switch (item.type) {
+    case OperationType.MINT: {
+      const { type, ...request } = item;
+      return processMint(request, pool);
+    }
+    case OperationType.TRANSFER: {
+      const { type, ...request } = item;
+      return processTransfer(request, pool);
+    }
+    case OperationType.BURN: {
+      const { type, ...request } = item;
+      return processBurn(request, pool);
+    }
+    case OperationType.RETIRE: {
+      const { type, ...request } = item;
+      return processRetire(request, pool);
+    }
+  }
+}
@@ -1,28 +1,54 @@
 import { Pool } from 'pg';
-import { v4 as uuidv4 } from 'uuid';
 import { IdempotencyValidator } from '../../services/idempotency-validator';
-import { WalletSecretManager } from '../../services/wallet-secret-manager';
-import { BurnOperation } from '../../operations/burn-operation';
-import { OperationType, OperationStatus, StepStatus } from '../../operations/base-operation';
-import { masterKeyFromHex } from '../../crypto/encryption';
+import {
+  OperationService,
+  DuplicateOperationError,
+  validateAmount,
+  validateExecuteAt
+} from '../../services/operation-service';
+import { PreflightValidator } from '../../services/preflight-validator';
 
 export interface BurnRequest {
   idempotencyKey: string;
   holderWalletId: string;
   issuanceId: string;
   amount: string;
+  reason?: string;  // Recorded on the operation (e.g. 'expired')
+  executeAt?: string;  // ISO 8601; schedules the burn instead of executing it immediately
 }
 
 /**
  * POST /api/operations/burn handler
- * Creates and executes a burn operation
+ * Creates and executes a burn operation (or schedules it when executeAt is given)
+ * With ?dryRun=true, returns the would-be transaction instead (nothing is persisted)
  */
 export async function handleBurn(req: Request, pool: Pool): Promise<Response> {
   try {
-    // 1. Parse request body
-    const body: BurnRequest = await req.json();
+    const body = await req.json() as BurnRequest;
+    const dryRun = new URL(req.url).searchParams.get('dryRun') === 'true';
+    return await processBurn(body, pool, { dryRun });
+  } catch (error: any) {
+    console.error('Burn handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Validate and create a burn operation from a parsed request
+ * (used by POST /api/operations/burn and by batch items)
+ */
+export async function processBurn(
+  body: BurnRequest,
+  pool: Pool,
+  options: { dryRun?: boolean } = {}
+): Promise<Response> {
+  const dryRun = options.dryRun ?? false;
 
-    // 2. Validation
+  try {
+    // 1. Validation
     if (!body.idempotencyKey || !body.holderWalletId || !body.issuanceId || !body.amount) {
       return new Response(
         JSON.stringify({
@@ -33,9 +59,35 @@ export async function handleBurn(req: Request, pool: Pool): Promise<Response> {
       );
     }
 
-    // 3. Check idempotency key
+    if (body.reason !== undefined && (typeof body.reason !== 'string' || body.reason.trim() === '')) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid reason', details: 'reason must be a non-empty string' }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const amountErrors = validateAmount(body.amount);
+    if (amountErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid amount', fieldErrors: amountErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const executeAtErrors = validateExecuteAt(body.executeAt);
+    if (executeAtErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid executeAt', fieldErrors: executeAtErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const executeAt = body.executeAt ? new Date(body.executeAt) : undefined;
+
+    // 2. Check idempotency key (not for dry runs)
     const idempotencyValidator = new IdempotencyValidator(pool);
-    const existingOperation = await idempotencyValidator.getOperationByKey(body.idempotencyKey);
+    const existingOperation = dryRun
+      ? null
+      : await idempotencyValidator.getOperationByKey(body.idempotencyKey);
 
     if (existingOperation) {
       return new Response(
@@ -48,75 +100,70 @@ export async function handleBurn(req: Request, pool: Pool): Promise<Response> {
       );
     }
 
-    // 4. Create operation
-    const operationId = uuidv4();
-
-    await pool.query(
-      `INSERT INTO operations
-       (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount, status, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
-      [
-        operationId,
-        OperationType.BURN,
-        body.idempotencyKey,
-        body.issuanceId,
-        null, // Issuer is determined from environment variable
-        body.holderWalletId,
-        body.amount,
-        OperationStatus.PENDING
-      ]
-    );
+    // 3. Pre-flight checks against the ledger (scheduled burns are checked by the scheduler
+    //    when due, since the ledger may change until then)
+    if (!executeAt || dryRun) {
+      const violations = await new PreflightValidator(pool).validateBurn({
+        holderWalletId: body.holderWalletId,
+        issuanceId: body.issuanceId,
+        amount: body.amount
+      });
+      if (violations.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Pre-flight validation failed', violations }),
+          { status: 422, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
 
-    // 5. Create step
-    const step = {
-      id: uuidv4(),
-      operationId,
-      stepNo: 1,
-      kind: 'issuer_clawback',
-      txType: 'Clawback'
+    const operationService = new OperationService(pool);
+    const burnParams = {
+      idempotencyKey: body.idempotencyKey,
+      holderWalletId: body.holderWalletId,
+      issuanceId: body.issuanceId,
+      amount: body.amount,
+      reason: body.reason,
+      executeAt
     };
 
-    await pool.query(
-      `INSERT INTO operation_steps
-       (id, operation_id, step_no, kind, wallet_id, tx_type, status, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
-      [
-        step.id,
-        step.operationId,
-        step.stepNo,
-        step.kind,
-        null, // Issuer is determined from environment variable
-        step.txType,
-        StepStatus.PENDING
-      ]
-    );
-
-    // 6. Execute operation (async background execution)
-    const masterKey = masterKeyFromHex(process.env.ENCRYPTION_MASTER_KEY!);
-    const secretManager = new WalletSecretManager(pool, masterKey);
-    const burnOperation = new BurnOperation(
-      pool,
-      {
-        operationId,
-        issuanceId: body.issuanceId,
-        holderWalletId: body.holderWalletId,
-        amount: body.amount
-      },
-      secretManager
-    );
+    // 4. Dry run: return the would-be transaction
+    if (dryRun) {
+      const result = await operationService.dryRunBurn(burnParams);
+      return new Response(
+        JSON.stringify({ dryRun: true, ...result }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    // Execute in background
-    burnOperation.execute().catch((error) => {
-      console.error(`Burn operation ${operationId} failed:`, error);
-    });
+    // 5. Create operation and queue it for execution
+    let operation;
+    try {
+      operation = await operationService.createBurn(burnParams);
+    } catch (error) {
+      if (error instanceof DuplicateOperationError) {
+        // Created concurrently with the same idempotency key
+        return new Response(
+          JSON.stringify({
+            operationId: error.operationId,
+            status: error.status,
+            message: 'Operation already exists'
+          }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
 
-    // 7. Return response
+    // 6. Return response
     return new Response(
       JSON.stringify({
-        operationId,
-        status: OperationStatus.PENDING,
-        message: 'Burn operation created and execution started',
-        steps: [{ stepNo: step.stepNo, kind: step.kind, status: StepStatus.PENDING }]
+        operationId: operation.operationId,
+        status: operation.status,
+        executeAt: operation.executeAt,
+        message: operation.executeAt
+          ? `Burn operation scheduled for ${operation.executeAt.toISOString()}`
+          : 'Burn operation created and queued for execution',
+        steps: operation.steps
       }),
       { status: 201, headers: { 'Content-Type': 'application/json' } }
     );
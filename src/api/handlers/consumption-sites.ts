@@ -0,0 +1,160 @@
+import { Pool } from 'pg';
+import { MatchingService } from '../../services/matching-service';
+import { parseLoadProfile } from '../../matching/load-profile';
+import { getGridZoneTaxonomy, Coordinates } from '../../matching/grid-zones';
+import { validateCoordinates, FieldError } from '../../certificates';
+
+export interface CreateConsumptionSiteRequest {
+  name: string;
+  walletId?: string;
+  gridZone?: string;        // Grid zone / bidding area (see grid-zones.json)
+  location?: Coordinates;
+}
+
+/**
+ * POST /api/consumption-sites handler
+ * Creates a consumption site
+ */
+export async function handleCreateConsumptionSite(
+  req: Request,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as CreateConsumptionSiteRequest;
+
+    // 2. Validation
+    if (!body.name) {
+      return new Response(
+        JSON.stringify({ error: 'Missing required fields', required: ['name'] }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fieldErrors: FieldError[] = [];
+    if (body.gridZone !== undefined && !getGridZoneTaxonomy().getZone(body.gridZone)) {
+      fieldErrors.push({ field: 'gridZone', message: 'Unknown grid zone' });
+    }
+    if (body.location !== undefined) {
+      fieldErrors.push(...validateCoordinates(body.location, 'location'));
+    }
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid consumption site', fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Create site
+    const matchingService = new MatchingService(pool);
+    const site = await matchingService.createSite({
+      name: body.name,
+      walletId: body.walletId,
+      gridZone: body.gridZone,
+      location: body.location
+    });
+
+    return new Response(
+      JSON.stringify(site),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Create consumption site error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/consumption-sites/:siteId handler
+ * Retrieves a consumption site
+ */
+export async function handleGetConsumptionSite(
+  siteId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const matchingService = new MatchingService(pool);
+    const site = await matchingService.getSite(siteId);
+
+    if (!site) {
+      return new Response(
+        JSON.stringify({ error: 'Consumption site not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(site),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get consumption site error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/consumption-sites/:siteId/load handler
+ * Uploads an hourly load profile (JSON or CSV)
+ */
+export async function handleUploadLoadProfile(
+  siteId: string,
+  req: Request,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const matchingService = new MatchingService(pool);
+
+    // 1. Check site exists
+    const site = await matchingService.getSite(siteId);
+    if (!site) {
+      return new Response(
+        JSON.stringify({ error: 'Consumption site not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Parse load profile
+    const contentType = req.headers.get('Content-Type') ?? 'application/json';
+    let parsed;
+    try {
+      parsed = parseLoadProfile(await req.text(), contentType);
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid load profile', details: error.message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Reject the whole upload if any row is invalid
+    if (parsed.errors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid load profile rows', rowErrors: parsed.errors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Store hourly loads
+    await matchingService.upsertLoads(siteId, parsed.loads);
+
+    return new Response(
+      JSON.stringify({ siteId, hoursStored: parsed.loads.length }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Upload load profile error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,325 @@
+import { Pool } from 'pg';
+import {
+  DeviceRegistry,
+  DeviceStatus,
+  RegisterDeviceParams,
+  UpdateDeviceParams
+} from '../../services/device-registry';
+import { getGridZoneTaxonomy } from '../../matching/grid-zones';
+import { EnergySource, FieldError, validateCoordinates } from '../../certificates';
+
+export type CreateDeviceRequest = RegisterDeviceParams;
+export type UpdateDeviceRequest = UpdateDeviceParams;
+
+const CAPACITY_PATTERN = /^\d{1,9}(\.\d{1,3})?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UPDATABLE_STATUSES: string[] = [DeviceStatus.ACTIVE, DeviceStatus.SUSPENDED];
+
+/**
+ * POST /api/devices handler
+ * Registers a production device
+ */
+export async function handleCreateDevice(req: Request, pool: Pool): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as CreateDeviceRequest;
+
+    // 2. Validation - check required fields
+    const requiredFields: (keyof CreateDeviceRequest)[] = [
+      'name',
+      'ownerWalletId',
+      'energySource',
+      'technology',
+      'capacityKw',
+      'commissioningDate',
+      'country',
+      'gridZone'
+    ];
+    if (requiredFields.some(field => body[field] === undefined || body[field] === '')) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing required fields',
+          required: requiredFields
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fieldErrors = validateDevice(body);
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid device', fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Check device ID is not taken
+    const registry = new DeviceRegistry(pool);
+    if (body.id && await registry.getDevice(body.id)) {
+      return new Response(
+        JSON.stringify({ error: 'Device already exists', deviceId: body.id }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Register device
+    const device = await registry.registerDevice({
+      ...body,
+      capacityKw: String(body.capacityKw)
+    });
+
+    return new Response(
+      JSON.stringify(device),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Create device error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/devices handler
+ * Lists devices (?ownerWalletId=&status=&gridZone=&limit=&offset=)
+ */
+export async function handleListDevices(url: URL, pool: Pool): Promise<Response> {
+  try {
+    const params = url.searchParams;
+    const limit = Math.min(Number(params.get('limit') ?? 50), 200);
+    const offset = Number(params.get('offset') ?? 0);
+    const status = params.get('status') ?? undefined;
+
+    if (
+      !Number.isInteger(limit) || limit < 1 ||
+      !Number.isInteger(offset) || offset < 0 ||
+      (status !== undefined && !(Object.values(DeviceStatus) as string[]).includes(status))
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid query parameters',
+          details: 'limit must be 1-200, offset >= 0, status one of: active, suspended, decommissioned'
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const registry = new DeviceRegistry(pool);
+    const devices = await registry.listDevices({
+      ownerWalletId: params.get('ownerWalletId') ?? undefined,
+      status: status as DeviceStatus | undefined,
+      gridZone: params.get('gridZone') ?? undefined,
+      limit,
+      offset
+    });
+
+    return new Response(
+      JSON.stringify({ devices, limit, offset }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('List devices error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/devices/:deviceId handler
+ * Retrieves a device
+ */
+export async function handleGetDevice(deviceId: string, pool: Pool): Promise<Response> {
+  try {
+    const registry = new DeviceRegistry(pool);
+    const device = await registry.getDevice(deviceId);
+
+    if (!device) {
+      return new Response(
+        JSON.stringify({ error: 'Device not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(device),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get device error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * PATCH /api/devices/:deviceId handler
+ * Updates name, owner, capacity, location or status (active/suspended)
+ */
+export async function handleUpdateDevice(
+  deviceId: string,
+  req: Request,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as UpdateDeviceRequest;
+
+    // 2. Validation
+    const fieldErrors: FieldError[] = [];
+    if (body.name !== undefined && (typeof body.name !== 'string' || body.name.trim() === '')) {
+      fieldErrors.push({ field: 'name', message: 'Required non-empty string' });
+    }
+    if (body.ownerWalletId !== undefined && (typeof body.ownerWalletId !== 'string' || body.ownerWalletId === '')) {
+      fieldErrors.push({ field: 'ownerWalletId', message: 'Required non-empty string' });
+    }
+    if (body.capacityKw !== undefined) {
+      fieldErrors.push(...validateCapacity(body.capacityKw));
+    }
+    if (body.location !== undefined && body.location !== null) {
+      fieldErrors.push(...validateCoordinates(body.location, 'location'));
+    }
+    if (body.status !== undefined && !UPDATABLE_STATUSES.includes(body.status)) {
+      fieldErrors.push({
+        field: 'status',
+        message: `Must be one of: ${UPDATABLE_STATUSES.join(', ')} (use DELETE to decommission)`
+      });
+    }
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid device update', fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Check device state
+    const registry = new DeviceRegistry(pool);
+    const existing = await registry.getDevice(deviceId);
+
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: 'Device not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Update device (decommissioned devices are not updated)
+    const device = await registry.updateDevice(deviceId, {
+      ...body,
+      ...(body.capacityKw !== undefined && { capacityKw: String(body.capacityKw) })
+    });
+
+    if (!device) {
+      return new Response(
+        JSON.stringify({ error: 'Device is decommissioned', deviceId }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(device),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Update device error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * DELETE /api/devices/:deviceId handler
+ * Decommissions a device (the record is kept for issued GCs)
+ */
+export async function handleDecommissionDevice(
+  deviceId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const registry = new DeviceRegistry(pool);
+    const device = await registry.decommissionDevice(deviceId);
+
+    if (!device) {
+      return new Response(
+        JSON.stringify({ error: 'Device not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(device),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Decommission device error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Validate device registration attributes
+ */
+function validateDevice(body: CreateDeviceRequest): FieldError[] {
+  const errors: FieldError[] = [];
+
+  for (const key of ['name', 'ownerWalletId', 'technology'] as const) {
+    if (typeof body[key] !== 'string' || body[key].trim() === '') {
+      errors.push({ field: key, message: 'Required non-empty string' });
+    }
+  }
+
+  const energySources = Object.values(EnergySource) as string[];
+  if (!energySources.includes(body.energySource)) {
+    errors.push({ field: 'energySource', message: `Must be one of: ${energySources.join(', ')}` });
+  }
+
+  errors.push(...validateCapacity(body.capacityKw));
+
+  if (
+    typeof body.commissioningDate !== 'string' ||
+    !DATE_PATTERN.test(body.commissioningDate) ||
+    Number.isNaN(Date.parse(body.commissioningDate))
+  ) {
+    errors.push({ field: 'commissioningDate', message: 'Must be a date (YYYY-MM-DD)' });
+  }
+
+  const zone = getGridZoneTaxonomy().getZone(body.gridZone);
+  if (!zone) {
+    errors.push({ field: 'gridZone', message: 'Unknown grid zone' });
+  } else if (zone.country !== body.country) {
+    errors.push({ field: 'country', message: `Grid zone ${zone.id} is in ${zone.country}` });
+  }
+
+  if (body.location !== undefined) {
+    errors.push(...validateCoordinates(body.location, 'location'));
+  }
+
+  return errors;
+}
+
+/**
+ * Validate nameplate capacity (positive kW, up to 3 fraction digits)
+ */
+function validateCapacity(value: unknown): FieldError[] {
+  const text = typeof value === 'number' ? String(value) : value;
+
+  if (typeof text !== 'string' || !CAPACITY_PATTERN.test(text) || Number(text) <= 0) {
+    return [{ field: 'capacityKw', message: 'Must be a positive number (kW, up to 3 decimals)' }];
+  }
+  return [];
+}
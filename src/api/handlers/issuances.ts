@@ -0,0 +1,147 @@
+import { Pool } from 'pg';
+import { IssuanceService, IssuanceFilters } from '../../services/issuance-service';
+
+const MAX_LIST_LIMIT = 200;
+
+/**
+ * GET /api/issuances handler
+ * Lists issuances, filterable by GC metadata attributes
+ */
+export async function handleListIssuances(
+  url: URL,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse filters from query string
+    const params = url.searchParams;
+    const limit = parseInt(params.get('limit') ?? '50', 10);
+    const offset = parseInt(params.get('offset') ?? '0', 10);
+
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT || Number.isNaN(offset) || offset < 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid paging parameters',
+          details: `limit must be 1-${MAX_LIST_LIMIT}, offset must be >= 0`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    for (const key of ['productionFrom', 'productionTo']) {
+      const value = params.get(key);
+      if (value && Number.isNaN(Date.parse(value))) {
+        return new Response(
+          JSON.stringify({ error: `Invalid ${key}`, details: 'Must be an ISO 8601 timestamp' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const filters: IssuanceFilters = {
+      deviceId: params.get('deviceId') ?? undefined,
+      energySource: params.get('energySource') ?? undefined,
+      technology: params.get('technology') ?? undefined,
+      country: params.get('country') ?? undefined,
+      gridZone: params.get('gridZone') ?? undefined,
+      issuingBody: params.get('issuingBody') ?? undefined,
+      productionFrom: params.get('productionFrom') ?? undefined,
+      productionTo: params.get('productionTo') ?? undefined,
+      limit,
+      offset
+    };
+
+    // 2. Retrieve issuances
+    const issuanceService = new IssuanceService(pool);
+    const issuances = await issuanceService.listIssuances(filters);
+
+    // 3. Return response
+    return new Response(
+      JSON.stringify({ issuances, limit, offset }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('List issuances error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/issuances/:issuanceId handler
+ * Retrieves an issuance with its supply figures
+ */
+export async function handleGetIssuance(
+  issuanceId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const issuanceService = new IssuanceService(pool);
+
+    // 1. Retrieve issuance
+    const issuance = await issuanceService.getIssuance(issuanceId);
+
+    if (!issuance) {
+      return new Response(
+        JSON.stringify({ error: 'Issuance not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Derive supply from successful operations
+    const supply = await issuanceService.getSupply(issuanceId);
+
+    // 3. Return response
+    return new Response(
+      JSON.stringify({ ...issuance, supply }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get issuance error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/issuances/:issuanceId/provenance handler
+ * Retrieves the chain-of-custody history of an issuance and the balances it implies
+ */
+export async function handleGetIssuanceProvenance(
+  issuanceId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const issuanceService = new IssuanceService(pool);
+
+    // 1. Check issuance exists
+    const issuance = await issuanceService.getIssuance(issuanceId);
+
+    if (!issuance) {
+      return new Response(
+        JSON.stringify({ error: 'Issuance not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Build history from successful operations
+    const provenance = await issuanceService.getProvenance(issuanceId);
+
+    return new Response(
+      JSON.stringify({ ...provenance, metadata: issuance.metadata }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get issuance provenance error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,174 @@
+import { Pool } from 'pg';
+import { MatchingService } from '../../services/matching-service';
+import { SupplySource, GeoMode } from '../../matching/time-matching';
+import { FieldError } from '../../certificates';
+
+export interface MatchingRequest {
+  siteId: string;
+  walletId?: string;       // Defaults to the site's wallet
+  periodStart: string;
+  periodEnd: string;
+  sources?: SupplySource[]; // Defaults to ['held', 'retired']
+  geoMode?: GeoMode;        // Defaults to 'any'
+}
+
+const SUPPLY_SOURCES: SupplySource[] = ['held', 'retired'];
+const GEO_MODES: GeoMode[] = ['any', 'same_zone', 'interconnected'];
+
+/**
+ * POST /api/matching handler
+ * Runs hourly time-matching of a wallet's GCs against a site's load
+ */
+export async function handleRunMatching(req: Request, pool: Pool): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as MatchingRequest;
+
+    // 2. Validation
+    if (!body.siteId || !body.periodStart || !body.periodEnd) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing required fields',
+          required: ['siteId', 'periodStart', 'periodEnd']
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const sources = body.sources ?? SUPPLY_SOURCES;
+    const geoMode = body.geoMode ?? 'any';
+    const fieldErrors = validatePeriodAndSources(body, sources);
+    if (!GEO_MODES.includes(geoMode)) {
+      fieldErrors.push({ field: 'geoMode', message: `Must be one of: ${GEO_MODES.join(', ')}` });
+    }
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid matching request', fieldErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Resolve wallet
+    const matchingService = new MatchingService(pool);
+    const site = await matchingService.getSite(body.siteId);
+
+    if (!site) {
+      return new Response(
+        JSON.stringify({ error: 'Consumption site not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (geoMode !== 'any' && !site.gridZone) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing site grid zone',
+          details: `geoMode ${geoMode} requires the site to have a gridZone`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const walletId = body.walletId ?? site.walletId;
+    if (!walletId) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing wallet',
+          details: 'walletId is required when the site has no wallet'
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Run matching
+    const run = await matchingService.runMatching({
+      siteId: body.siteId,
+      walletId,
+      periodStart: body.periodStart,
+      periodEnd: body.periodEnd,
+      sources,
+      geoMode
+    });
+
+    return new Response(
+      JSON.stringify(run),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Run matching error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/matching/:runId handler
+ * Retrieves a stored matching run (?verify=true re-runs it on the stored inputs)
+ */
+export async function handleGetMatchingRun(
+  runId: string,
+  url: URL,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const matchingService = new MatchingService(pool);
+    const run = await matchingService.getRun(runId);
+
+    if (!run) {
+      return new Response(
+        JSON.stringify({ error: 'Matching run not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const verification = url.searchParams.get('verify') === 'true'
+      ? { reproduced: matchingService.verifyRun(run) }
+      : undefined;
+
+    return new Response(
+      JSON.stringify({ ...run, verification }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get matching run error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Validate matching period and certificate sources
+ */
+function validatePeriodAndSources(
+  body: MatchingRequest,
+  sources: SupplySource[]
+): FieldError[] {
+  const errors: FieldError[] = [];
+  const start = Date.parse(body.periodStart);
+  const end = Date.parse(body.periodEnd);
+
+  if (Number.isNaN(start)) {
+    errors.push({ field: 'periodStart', message: 'Must be an ISO 8601 timestamp' });
+  }
+  if (Number.isNaN(end)) {
+    errors.push({ field: 'periodEnd', message: 'Must be an ISO 8601 timestamp' });
+  } else if (!Number.isNaN(start) && end <= start) {
+    errors.push({ field: 'periodEnd', message: 'Must be after periodStart' });
+  }
+
+  if (
+    !Array.isArray(sources) ||
+    sources.length === 0 ||
+    sources.some(source => !SUPPLY_SOURCES.includes(source))
+  ) {
+    errors.push({ field: 'sources', message: `Must be a non-empty subset of: ${SUPPLY_SOURCES.join(', ')}` });
+  }
+
+  return errors;
+}
@@ -0,0 +1,54 @@
+import { Pool } from 'pg';
+import { MeterIngestionService } from '../../services/meter-ingestion-service';
+import { parseMeterReadings } from '../../metering';
+
+/**
+ * POST /api/meter-readings handler
+ * Ingests interval meter readings (JSON or CSV, ?deviceId= for rows without one)
+ * and creates one mint operation per complete device-hour
+ */
+export async function handleIngestMeterReadings(
+  url: URL,
+  req: Request,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse readings
+    const contentType = req.headers.get('Content-Type') ?? 'application/json';
+    let parsed;
+    try {
+      parsed = parseMeterReadings(
+        await req.text(),
+        contentType,
+        url.searchParams.get('deviceId') ?? undefined
+      );
+    } catch (error: any) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid meter readings', details: error.message }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Aggregate into hours and mint (invalid rows are reported, valid rows still processed)
+    const ingestionService = new MeterIngestionService(pool);
+    const result = await ingestionService.ingest(parsed.readings);
+
+    result.rejected.unshift(
+      ...parsed.errors.map(error => ({ row: error.row, reason: error.message, intervals: 1 }))
+    );
+    result.summary.rejectedIntervals += parsed.errors.length;
+
+    // 3. Return summary
+    return new Response(
+      JSON.stringify(result),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Ingest meter readings error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -1,33 +1,72 @@
 import { Pool } from 'pg';
-import { v4 as uuidv4 } from 'uuid';
 import { IdempotencyValidator } from '../../services/idempotency-validator';
-import { WalletSecretManager } from '../../services/wallet-secret-manager';
-import { MintOperation } from '../../operations/mint-operation';
-import { OperationType, OperationStatus, StepStatus } from '../../operations/base-operation';
-import { masterKeyFromHex } from '../../crypto/encryption';
+import {
+  OperationService,
+  DuplicateIssuanceError,
+  DuplicateOperationError,
+  validateExecuteAt
+} from '../../services/operation-service';
+import { OperationType, UNSUCCESSFUL_OPERATION_STATUSES } from '../../operations/base-operation';
+import { DeviceRegistry, DeviceStatus } from '../../services/device-registry';
+import { PreflightValidator, PreflightViolation } from '../../services/preflight-validator';
+import {
+  GcAttributes,
+  validateGcAttributes,
+  normalizeGcAttributes
+} from '../../certificates';
 
 export interface MintRequest {
   idempotencyKey: string;
   userWalletId: string;
   amount: string;
-  metadata?: string;
+  metadata: GcAttributes;
+  executeAt?: string;  // ISO 8601; schedules the mint instead of executing it immediately
+}
+
+export interface MintCorrectionRequest {
+  idempotencyKey: string;
+  originalOperationId: string;
+  correctedVolumeKwh: string;  // Corrected total production of the hour (kWh)
+  reason: string;
 }
 
 /**
  * POST /api/operations/mint handler
- * Creates and executes a mint operation
+ * Creates and executes a mint operation (or schedules it when executeAt is given)
+ * With ?dryRun=true, returns the would-be transactions instead (nothing is persisted)
  */
 export async function handleMint(req: Request, pool: Pool): Promise<Response> {
   try {
-    // 1. Parse request body
-    const body: MintRequest = await req.json();
+    const body = await req.json() as MintRequest;
+    const dryRun = new URL(req.url).searchParams.get('dryRun') === 'true';
+    return await processMint(body, pool, { dryRun });
+  } catch (error: any) {
+    console.error('Mint handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
 
-    // 2. Validation - check required fields
-    if (!body.idempotencyKey || !body.userWalletId || !body.amount) {
+/**
+ * Validate and create a mint operation from a parsed request
+ * (used by POST /api/operations/mint and by batch items)
+ */
+export async function processMint(
+  body: MintRequest,
+  pool: Pool,
+  options: { dryRun?: boolean } = {}
+): Promise<Response> {
+  const dryRun = options.dryRun ?? false;
+
+  try {
+    // 1. Validation - check required fields
+    if (!body.idempotencyKey || !body.userWalletId || !body.amount || !body.metadata) {
       return new Response(
         JSON.stringify({
           error: 'Missing required fields',
-          required: ['idempotencyKey', 'userWalletId', 'amount']
+          required: ['idempotencyKey', 'userWalletId', 'amount', 'metadata']
         }),
         { status: 400, headers: { 'Content-Type': 'application/json' } }
       );
@@ -35,7 +74,8 @@ export async function handleMint(req: Request, pool: Pool): Promise<Response> {
 
     // Reject deprecated fields
     const deprecatedFields = ['issuerWalletId', 'assetScale', 'maximumAmount', 'transferFee'];
-    const providedDeprecated = deprecatedFields.filter(field => (body as any)[field] !== undefined);
+    const fields: Record<string, unknown> = { ...body };
+    const providedDeprecated = deprecatedFields.filter(field => fields[field] !== undefined);
     if (providedDeprecated.length > 0) {
       return new Response(
         JSON.stringify({
@@ -53,9 +93,33 @@ export async function handleMint(req: Request, pool: Pool): Promise<Response> {
       );
     }
 
-    // 3. Check idempotency key
+    // Validate GC attributes
+    const fieldErrors = validateGcAttributes(body.metadata, body.amount);
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid certificate metadata',
+          fieldErrors
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    let attributes = normalizeGcAttributes(body.metadata);
+
+    const executeAtErrors = validateExecuteAt(body.executeAt);
+    if (executeAtErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid executeAt', fieldErrors: executeAtErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const executeAt = body.executeAt ? new Date(body.executeAt) : undefined;
+
+    // 2. Check idempotency key (not for dry runs)
     const idempotencyValidator = new IdempotencyValidator(pool);
-    const existingOperation = await idempotencyValidator.getOperationByKey(body.idempotencyKey);
+    const existingOperation = dryRun
+      ? null
+      : await idempotencyValidator.getOperationByKey(body.idempotencyKey);
 
     if (existingOperation) {
       // Return already existing operation
@@ -70,109 +134,341 @@ export async function handleMint(req: Request, pool: Pool): Promise<Response> {
       );
     }
 
-    // 4. Create operation
-    const operationId = uuidv4();
-
-    await pool.query(
-      `INSERT INTO operations
-       (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount, status, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
-      [
-        operationId,
-        OperationType.MINT,
-        body.idempotencyKey,
-        null, // issuance_id is set after first step completes
-        null, // Issuer is determined from environment variable
-        body.userWalletId,
-        body.amount,
-        OperationStatus.PENDING
-      ]
-    );
+    // 3. Check production device (registered, active, within capacity)
+    const deviceRegistry = new DeviceRegistry(pool);
+    const device = await deviceRegistry.getDevice(attributes.deviceId);
 
-    // 5. Create steps
-    const steps = [
-      {
-        id: uuidv4(),
-        operationId,
-        stepNo: 1,
-        kind: 'issuer_mint',
-        walletId: null, // Issuer is determined from environment variable
-        txType: 'MPTokenIssuanceCreate'
-      },
-      {
-        id: uuidv4(),
-        operationId,
-        stepNo: 2,
-        kind: 'user_authorize',
-        walletId: body.userWalletId,
-        txType: 'MPTokenAuthorize'
-      },
-      {
-        id: uuidv4(),
-        operationId,
-        stepNo: 3,
-        kind: 'issuer_transfer',
-        walletId: null, // Issuer is determined from environment variable
-        txType: 'Payment'
+    if (!device) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid certificate metadata',
+          fieldErrors: [{ field: 'metadata.deviceId', message: 'Device is not registered' }]
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (device.status !== DeviceStatus.ACTIVE) {
+      return new Response(
+        JSON.stringify({
+          error: 'Device is not active',
+          deviceId: device.id,
+          deviceStatus: device.status
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const deviceErrors = deviceRegistry.validateIssuance(device, attributes, body.amount);
+    if (deviceErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Issuance not allowed for device',
+          fieldErrors: deviceErrors
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Device coordinates are used when the request carries no location
+    if (!attributes.location && device.location) {
+      attributes = { ...attributes, location: device.location };
+    }
+
+    // 4. Pre-flight checks against the ledger (scheduled mints are checked by the scheduler
+    //    when due, since the ledger may change until then)
+    if (!executeAt || dryRun) {
+      const violations = await new PreflightValidator(pool).validateMint({
+        userWalletId: body.userWalletId
+      });
+      if (violations.length > 0) {
+        return preflightFailedResponse(violations);
+      }
+    }
+
+    const operationService = new OperationService(pool);
+    const mintParams = {
+      idempotencyKey: body.idempotencyKey,
+      userWalletId: body.userWalletId,
+      amount: body.amount,
+      attributes,
+      executeAt
+    };
+
+    // 5. Dry run: device-hour guard, then the would-be transactions
+    if (dryRun) {
+      const original = await operationService.findDeviceHourMint(
+        attributes.deviceId,
+        attributes.productionStart
+      );
+      if (original) {
+        return duplicateIssuanceResponse(
+          new DuplicateIssuanceError(original, attributes.deviceId, attributes.productionStart)
+        );
+      }
+
+      const result = await operationService.dryRunMint(mintParams);
+      return new Response(
+        JSON.stringify({ dryRun: true, ...result }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 6. Create operation and queue it for execution
+    let operation;
+    try {
+      operation = await operationService.createMint(mintParams);
+    } catch (error) {
+      if (error instanceof DuplicateIssuanceError) {
+        return duplicateIssuanceResponse(error);
+      }
+      if (error instanceof DuplicateOperationError) {
+        return duplicateOperationResponse(error);
       }
+      throw error;
+    }
+
+    // 7. Return response
+    return new Response(
+      JSON.stringify({
+        operationId: operation.operationId,
+        status: operation.status,
+        executeAt: operation.executeAt,
+        message: operation.executeAt
+          ? `Mint operation scheduled for ${operation.executeAt.toISOString()}`
+          : 'Mint operation created and queued for execution',
+        steps: operation.steps
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Mint handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/operations/mint/corrections handler
+ * Re-issues the difference after an upward meter correction of an already issued device-hour
+ */
+export async function handleMintCorrection(req: Request, pool: Pool): Promise<Response> {
+  try {
+    // 1. Parse request body
+    const body = await req.json() as MintCorrectionRequest;
+
+    // 2. Validation - check required fields
+    const requiredFields: (keyof MintCorrectionRequest)[] = [
+      'idempotencyKey',
+      'originalOperationId',
+      'correctedVolumeKwh',
+      'reason'
     ];
+    if (requiredFields.some(field => !body[field])) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing required fields',
+          required: requiredFields
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
 
-    for (const step of steps) {
-      await pool.query(
-        `INSERT INTO operation_steps
-         (id, operation_id, step_no, kind, wallet_id, tx_type, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
-        [
-          step.id,
-          step.operationId,
-          step.stepNo,
-          step.kind,
-          step.walletId,
-          step.txType,
-          StepStatus.PENDING
-        ]
-      );
-    }
-
-    // 6. Execute operation (async background execution)
-    const masterKey = masterKeyFromHex(process.env.ENCRYPTION_MASTER_KEY!);
-    const secretManager = new WalletSecretManager(pool, masterKey);
-    const mintOperation = new MintOperation(
-      pool,
-      {
-        operationId,
-        issuanceId: '', // Dummy, actually retrieved in first step
-        userWalletId: body.userWalletId,
-        amount: body.amount,
-        assetScale: 0,
-        maximumAmount: body.amount,
-        transferFee: 0,
-        metadata: body.metadata
-      },
-      secretManager
+    if (!/^[1-9]\d*$/.test(String(body.correctedVolumeKwh))) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid correction',
+          fieldErrors: [{ field: 'correctedVolumeKwh', message: 'Must be a positive integer (kWh)' }]
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Check idempotency key
+    const idempotencyValidator = new IdempotencyValidator(pool);
+    const existingOperation = await idempotencyValidator.getOperationByKey(body.idempotencyKey);
+
+    if (existingOperation) {
+      return new Response(
+        JSON.stringify({
+          operationId: existingOperation.id,
+          status: existingOperation.status,
+          message: 'Operation already exists',
+          issuanceId: existingOperation.issuance_id
+        }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 4. Load original mint
+    const originalResult = await pool.query(
+      `SELECT id, type, status, to_wallet_id, metadata, device_id, production_hour
+       FROM operations WHERE id = $1`,
+      [body.originalOperationId]
     );
+    const original = originalResult.rows[0];
 
-    // Execute in background
-    mintOperation.execute().catch((error) => {
-      console.error(`Mint operation ${operationId} failed:`, error);
+    if (!original || original.type !== OperationType.MINT || !original.device_id) {
+      return new Response(
+        JSON.stringify({ error: 'Original mint operation not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    if (UNSUCCESSFUL_OPERATION_STATUSES.includes(original.status)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Original mint failed',
+          details: 'Issue the hour with a regular mint instead'
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 5. Compute the difference to re-issue
+    const operationService = new OperationService(pool);
+    const productionHour = normalizeGcAttributes(original.metadata).productionStart;
+    const issued = await operationService.getDeviceHourIssuance(original.device_id, productionHour);
+    const corrected = BigInt(body.correctedVolumeKwh);
+
+    if (corrected <= issued.issuedAmount) {
+      return new Response(
+        JSON.stringify({
+          error: 'Nothing to re-issue',
+          details: `Corrected volume (${corrected}) does not exceed issued volume (${issued.issuedAmount}); downward corrections require a burn`,
+          issuedKwh: issued.issuedAmount.toString()
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 6. Device checks against the corrected total
+    const deviceRegistry = new DeviceRegistry(pool);
+    const device = await deviceRegistry.getDevice(original.device_id);
+
+    if (!device || device.status !== DeviceStatus.ACTIVE) {
+      return new Response(
+        JSON.stringify({
+          error: 'Device is not active',
+          deviceId: original.device_id,
+          deviceStatus: device?.status ?? null
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const delta = (corrected - issued.issuedAmount).toString();
+    const attributes = normalizeGcAttributes({ ...original.metadata, volumeKwh: delta });
+    const deviceErrors = deviceRegistry.validateIssuance(device, attributes, corrected.toString());
+    if (deviceErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Issuance not allowed for device',
+          fieldErrors: deviceErrors.map(error =>
+            error.field === 'amount' ? { ...error, field: 'correctedVolumeKwh' } : error
+          )
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 7. Pre-flight checks against the ledger
+    const violations = await new PreflightValidator(pool).validateMint({
+      userWalletId: original.to_wallet_id
     });
+    if (violations.length > 0) {
+      return preflightFailedResponse(violations);
+    }
 
-    // 7. Return response
+    // 8. Create correction mint as the next revision of the device-hour
+    let operation;
+    try {
+      operation = await operationService.createMint({
+        idempotencyKey: body.idempotencyKey,
+        userWalletId: original.to_wallet_id,
+        amount: delta,
+        attributes,
+        correction: {
+          revision: issued.latestRevision + 1,
+          correctsOperationId: original.id,
+          reason: body.reason
+        }
+      });
+    } catch (error) {
+      if (error instanceof DuplicateIssuanceError) {
+        return duplicateIssuanceResponse(error);
+      }
+      if (error instanceof DuplicateOperationError) {
+        return duplicateOperationResponse(error);
+      }
+      throw error;
+    }
+
+    // 9. Return response
     return new Response(
       JSON.stringify({
-        operationId,
-        status: OperationStatus.PENDING,
-        message: 'Mint operation created and execution started',
-        steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+        operationId: operation.operationId,
+        status: operation.status,
+        message: 'Correction mint created and queued for execution',
+        correctsOperationId: original.id,
+        issuanceRevision: issued.latestRevision + 1,
+        amount: delta,
+        steps: operation.steps
       }),
       { status: 201, headers: { 'Content-Type': 'application/json' } }
     );
 
   } catch (error: any) {
-    console.error('Mint handler error:', error);
+    console.error('Mint correction handler error:', error);
     return new Response(
       JSON.stringify({ error: 'Internal server error', details: error.message }),
       { status: 500, headers: { 'Content-Type': 'application/json' } }
     );
   }
 }
+
+/**
+ * 409 response referencing the mint that already issued the device-hour
+ */
+function duplicateIssuanceResponse(error: DuplicateIssuanceError): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Production hour already issued',
+      details: 'Use POST /api/operations/mint/corrections to re-issue after a meter correction',
+      originalOperationId: error.originalOperationId,
+      deviceId: error.deviceId,
+      productionHour: error.productionHour
+    }),
+    { status: 409, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * 200 response for an operation created concurrently with the same idempotency key
+ */
+function duplicateOperationResponse(error: DuplicateOperationError): Response {
+  return new Response(
+    JSON.stringify({
+      operationId: error.operationId,
+      status: error.status,
+      message: 'Operation already exists',
+      issuanceId: error.issuanceId
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * 422 response listing every violated pre-flight precondition
+ */
+function preflightFailedResponse(violations: PreflightViolation[]): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Pre-flight validation failed',
+      violations
+    }),
+    { status: 422, headers: { 'Content-Type': 'application/json' } }
+  );
+}
@@ -1,4 +1,10 @@
 import { Pool } from 'pg';
+import { OperationService } from '../../services/operation-service';
+import { OperationType, OperationStatus } from '../../operations/base-operation';
+import { getStoredOperation } from '../../operations/registry';
+import { listOperationEvents } from '../../operations/state-machine';
+
+const MAX_LIST_LIMIT = 200;
 
 /**
  * GET /api/operations/:operationId handler
@@ -12,7 +18,7 @@ export async function handleGetOperationStatus(
     // 1. Retrieve operation
     const operationResult = await pool.query(
       `SELECT id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id,
-              amount, status, error_code, error_message, created_at, updated_at
+              amount, reason, status, error_code, error_message, created_at, updated_at
        FROM operations
        WHERE id = $1`,
       [operationId]
@@ -30,7 +36,9 @@ export async function handleGetOperationStatus(
     // 2. Retrieve steps
     const stepsResult = await pool.query(
       `SELECT id, step_no, kind, wallet_id, tx_type, tx_hash, status,
-              submit_result, validated_result, last_checked_at, created_at, updated_at
+              compensation, submit_result, validated_result, attempts, last_error_code, engine_result,
+              next_retry_at,
+              last_checked_at, created_at, updated_at
        FROM operation_steps
        WHERE operation_id = $1
        ORDER BY step_no ASC`,
@@ -50,6 +58,7 @@ export async function handleGetOperationStatus(
           fromWalletId: operation.from_wallet_id,
           toWalletId: operation.to_wallet_id,
           amount: operation.amount,
+          reason: operation.reason,
           status: operation.status,
           errorCode: operation.error_code,
           errorMessage: operation.error_message,
@@ -64,8 +73,13 @@ export async function handleGetOperationStatus(
           txType: step.tx_type,
           txHash: step.tx_hash,
           status: step.status,
+          compensation: step.compensation,
           submitResult: step.submit_result,
           validatedResult: step.validated_result,
+          attempts: step.attempts,
+          lastErrorCode: step.last_error_code,
+          engineResult: step.engine_result,
+          nextRetryAt: step.next_retry_at,
           lastCheckedAt: step.last_checked_at,
           createdAt: step.created_at,
           updatedAt: step.updated_at
@@ -93,7 +107,7 @@ export async function handleGetOperationStatusLightweight(
 ): Promise<Response> {
   try {
     const result = await pool.query(
-      `SELECT id, type, status, issuance_id, created_at, updated_at
+      `SELECT id, type, status, issuance_id, error_code, created_at, updated_at
        FROM operations
        WHERE id = $1`,
       [operationId]
@@ -114,6 +128,7 @@ export async function handleGetOperationStatusLightweight(
         type: operation.type,
         status: operation.status,
         issuanceId: operation.issuance_id,
+        errorCode: operation.error_code,
         createdAt: operation.created_at,
         updatedAt: operation.updated_at
       }),
@@ -128,3 +143,211 @@ export async function handleGetOperationStatusLightweight(
     );
   }
 }
+
+/**
+ * POST /api/operations/:operationId/compensate handler
+ * Admin action: undo the completed steps of a FAILED operation
+ * (for operations that were not compensated automatically)
+ */
+export async function handleCompensateOperation(
+  operationId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Load operation
+    const operation = await getStoredOperation(pool, operationId);
+
+    if (!operation) {
+      return new Response(
+        JSON.stringify({ error: 'Operation not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (operation.status !== OperationStatus.FAILED) {
+      return new Response(
+        JSON.stringify({
+          error: 'Operation cannot be compensated',
+          details: `Only FAILED operations can be compensated (status: ${operation.status})`
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Plan compensation steps and queue
+    const operationService = new OperationService(pool, 'admin');
+    const compensation = await operationService.startCompensation(operation);
+
+    if (!compensation) {
+      return new Response(
+        JSON.stringify({
+          error: 'Nothing to compensate',
+          details: 'No completed step needs to be undone, or compensation was already attempted'
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Return response
+    return new Response(
+      JSON.stringify({
+        operationId: compensation.operationId,
+        status: compensation.status,
+        message: 'Compensation started and queued for execution',
+        steps: compensation.steps
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Compensate operation error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/operations/:operationId/events handler
+ * Retrieves the status transition history of an operation and its steps, oldest first
+ */
+export async function handleGetOperationEvents(
+  operationId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Check the operation exists
+    const operation = await getStoredOperation(pool, operationId);
+
+    if (!operation) {
+      return new Response(
+        JSON.stringify({ error: 'Operation not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Retrieve events
+    const events = await listOperationEvents(pool, operationId);
+
+    return new Response(
+      JSON.stringify({ operationId, status: operation.status, events }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get operation events error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * GET /api/operations/scheduled handler
+ * Lists scheduled operations that have not started, earliest execution time first
+ */
+export async function handleListScheduledOperations(
+  url: URL,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse filters from query string
+    const params = url.searchParams;
+    const limit = parseInt(params.get('limit') ?? '50', 10);
+    const offset = parseInt(params.get('offset') ?? '0', 10);
+    const type = params.get('type');
+
+    if (Number.isNaN(limit) || limit < 1 || limit > MAX_LIST_LIMIT || Number.isNaN(offset) || offset < 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid paging parameters',
+          details: `limit must be 1-${MAX_LIST_LIMIT}, offset must be >= 0`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (type && !Object.values(OperationType).includes(type as OperationType)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid type',
+          details: `type must be one of: ${Object.values(OperationType).join(', ')}`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Retrieve scheduled operations
+    const operations = await new OperationService(pool).listScheduled({
+      type: (type as OperationType) ?? undefined,
+      limit,
+      offset
+    });
+
+    return new Response(
+      JSON.stringify({ operations, limit, offset }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('List scheduled operations error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * POST /api/operations/:operationId/cancel handler
+ * Cancels a scheduled operation before it starts
+ */
+export async function handleCancelOperation(
+  operationId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Load operation
+    const operation = await getStoredOperation(pool, operationId);
+
+    if (!operation) {
+      return new Response(
+        JSON.stringify({ error: 'Operation not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Cancel (conditional: the scheduler may have started it in the meantime)
+    const cancelled = operation.status === OperationStatus.SCHEDULED &&
+      await new OperationService(pool).cancelScheduled(operationId);
+
+    if (!cancelled) {
+      return new Response(
+        JSON.stringify({
+          error: 'Operation cannot be cancelled',
+          details: 'Only SCHEDULED operations that have not started can be cancelled'
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Return response
+    return new Response(
+      JSON.stringify({
+        operationId,
+        status: OperationStatus.CANCELLED,
+        message: 'Scheduled operation cancelled'
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Cancel operation error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
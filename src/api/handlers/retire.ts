@@ -0,0 +1,187 @@
+import { Pool } from 'pg';
+import { IdempotencyValidator } from '../../services/idempotency-validator';
+import {
+  OperationService,
+  DuplicateOperationError,
+  CreatedRetirement,
+  validateExecuteAt
+} from '../../services/operation-service';
+import { FieldError } from '../../certificates';
+
+export interface RetireRequest {
+  idempotencyKey: string;
+  holderWalletId: string;
+  issuanceId: string;
+  amount: string;
+  beneficiaryName: string;
+  consumptionSite: string;
+  consumptionPeriodStart: string;
+  consumptionPeriodEnd: string;
+  claimPurpose: string;
+  executeAt?: string;  // ISO 8601; schedules the retirement (e.g. on a reporting date)
+}
+
+/**
+ * POST /api/operations/retire handler
+ * Creates a retirement record and executes the retire operation
+ * (or schedules it when executeAt is given)
+ */
+export async function handleRetire(req: Request, pool: Pool): Promise<Response> {
+  try {
+    const body = await req.json() as RetireRequest;
+    return await processRetire(body, pool);
+  } catch (error: any) {
+    console.error('Retire handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Validate and create a retirement operation from a parsed request
+ * (used by POST /api/operations/retire and by batch items)
+ */
+export async function processRetire(body: RetireRequest, pool: Pool): Promise<Response> {
+  try {
+    // 1. Validation - check required fields
+    const requiredFields: (keyof RetireRequest)[] = [
+      'idempotencyKey',
+      'holderWalletId',
+      'issuanceId',
+      'amount',
+      'beneficiaryName',
+      'consumptionSite',
+      'consumptionPeriodStart',
+      'consumptionPeriodEnd',
+      'claimPurpose'
+    ];
+    if (requiredFields.some(field => !body[field])) {
+      return new Response(
+        JSON.stringify({
+          error: 'Missing required fields',
+          required: requiredFields
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const fieldErrors = [...validateClaim(body), ...validateExecuteAt(body.executeAt)];
+    if (fieldErrors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid retirement claim',
+          fieldErrors
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const executeAt = body.executeAt ? new Date(body.executeAt) : undefined;
+
+    // 2. Check idempotency key
+    const idempotencyValidator = new IdempotencyValidator(pool);
+    const existingOperation = await idempotencyValidator.getOperationByKey(body.idempotencyKey);
+
+    if (existingOperation) {
+      return existingRetirementResponse(pool, existingOperation.id, existingOperation.status);
+    }
+
+    // 3. Create operation, retirement record and step (SCHEDULED when an execution time is given)
+    const operationService = new OperationService(pool);
+    let operation: CreatedRetirement;
+
+    try {
+      operation = await operationService.createRetire({
+        idempotencyKey: body.idempotencyKey,
+        holderWalletId: body.holderWalletId,
+        issuanceId: body.issuanceId,
+        amount: body.amount,
+        beneficiaryName: body.beneficiaryName,
+        consumptionSite: body.consumptionSite,
+        consumptionPeriodStart: body.consumptionPeriodStart,
+        consumptionPeriodEnd: body.consumptionPeriodEnd,
+        claimPurpose: body.claimPurpose,
+        executeAt
+      });
+    } catch (error) {
+      if (error instanceof DuplicateOperationError) {
+        // Created concurrently with the same idempotency key
+        return existingRetirementResponse(pool, error.operationId, error.status);
+      }
+      throw error;
+    }
+
+    // 4. Return response
+    return new Response(
+      JSON.stringify({
+        operationId: operation.operationId,
+        retirementId: operation.retirementId,
+        status: operation.status,
+        executeAt: operation.executeAt,
+        message: executeAt
+          ? `Retire operation scheduled for ${executeAt.toISOString()}`
+          : 'Retire operation created and queued for execution',
+        steps: operation.steps
+      }),
+      { status: 201, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Retire handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Response for a retirement whose idempotency key is already used
+ */
+async function existingRetirementResponse(
+  pool: Pool,
+  operationId: string,
+  status: string
+): Promise<Response> {
+  const retirement = await pool.query(
+    'SELECT id FROM retirements WHERE operation_id = $1',
+    [operationId]
+  );
+
+  return new Response(
+    JSON.stringify({
+      operationId,
+      retirementId: retirement.rows[0]?.id ?? null,
+      status,
+      message: 'Operation already exists'
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+}
+
+/**
+ * Validate consumption claim fields
+ */
+function validateClaim(body: RetireRequest): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (!/^[1-9]\d*$/.test(String(body.amount))) {
+    errors.push({ field: 'amount', message: 'Must be a positive integer' });
+  }
+
+  const start = Date.parse(body.consumptionPeriodStart);
+  const end = Date.parse(body.consumptionPeriodEnd);
+
+  if (Number.isNaN(start)) {
+    errors.push({ field: 'consumptionPeriodStart', message: 'Must be an ISO 8601 timestamp' });
+  }
+  if (Number.isNaN(end)) {
+    errors.push({ field: 'consumptionPeriodEnd', message: 'Must be an ISO 8601 timestamp' });
+  } else if (!Number.isNaN(start) && end <= start) {
+    errors.push({ field: 'consumptionPeriodEnd', message: 'Must be after consumptionPeriodStart' });
+  }
+
+  return errors;
+}
@@ -0,0 +1,55 @@
+import { Pool } from 'pg';
+
+/**
+ * GET /api/retirements/:retirementId handler
+ * Retrieves a retirement record with the status of its operation
+ */
+export async function handleGetRetirement(
+  retirementId: string,
+  pool: Pool
+): Promise<Response> {
+  try {
+    const result = await pool.query(
+      `SELECT r.*, o.status AS operation_status
+       FROM retirements r
+       JOIN operations o ON o.id = r.operation_id
+       WHERE r.id = $1`,
+      [retirementId]
+    );
+
+    if (result.rows.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Retirement not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const retirement = result.rows[0];
+
+    return new Response(
+      JSON.stringify({
+        id: retirement.id,
+        operationId: retirement.operation_id,
+        operationStatus: retirement.operation_status,
+        issuanceId: retirement.issuance_id,
+        holderWalletId: retirement.holder_wallet_id,
+        amount: retirement.amount,
+        beneficiaryName: retirement.beneficiary_name,
+        consumptionSite: retirement.consumption_site,
+        consumptionPeriodStart: retirement.consumption_period_start,
+        consumptionPeriodEnd: retirement.consumption_period_end,
+        claimPurpose: retirement.claim_purpose,
+        retiredAt: retirement.retired_at,
+        createdAt: retirement.created_at
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get retirement error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
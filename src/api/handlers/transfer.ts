@@ -1,10 +1,12 @@
 import { Pool } from 'pg';
-import { v4 as uuidv4 } from 'uuid';
 import { IdempotencyValidator } from '../../services/idempotency-validator';
-import { WalletSecretManager } from '../../services/wallet-secret-manager';
-import { TransferOperation } from '../../operations/transfer-operation';
-import { OperationType, OperationStatus, StepStatus } from '../../operations/base-operation';
-import { masterKeyFromHex } from '../../crypto/encryption';
+import {
+  OperationService,
+  DuplicateOperationError,
+  validateAmount,
+  validateExecuteAt
+} from '../../services/operation-service';
+import { PreflightValidator } from '../../services/preflight-validator';
 
 export interface TransferRequest {
   idempotencyKey: string;
@@ -12,18 +14,41 @@ export interface TransferRequest {
   toWalletId: string;
   issuanceId: string;
   amount: string;
+  executeAt?: string;  // ISO 8601; schedules the transfer instead of executing it immediately
 }
 
 /**
  * POST /api/operations/transfer handler
- * Creates and executes a transfer operation
+ * Creates and executes a transfer operation (or schedules it when executeAt is given)
+ * With ?dryRun=true, returns the would-be transactions instead (nothing is persisted)
  */
 export async function handleTransfer(req: Request, pool: Pool): Promise<Response> {
   try {
-    // 1. Parse request body
-    const body: TransferRequest = await req.json();
+    const body = await req.json() as TransferRequest;
+    const dryRun = new URL(req.url).searchParams.get('dryRun') === 'true';
+    return await processTransfer(body, pool, { dryRun });
+  } catch (error: any) {
+    console.error('Transfer handler error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Validate and create a transfer operation from a parsed request
+ * (used by POST /api/operations/transfer and by batch items)
+ */
+export async function processTransfer(
+  body: TransferRequest,
+  pool: Pool,
+  options: { dryRun?: boolean } = {}
+): Promise<Response> {
+  const dryRun = options.dryRun ?? false;
 
-    // 2. Validation
+  try {
+    // 1. Validation
     if (!body.idempotencyKey || !body.fromWalletId || !body.toWalletId || !body.issuanceId || !body.amount) {
       return new Response(
         JSON.stringify({
@@ -34,9 +59,28 @@ export async function handleTransfer(req: Request, pool: Pool): Promise<Response
       );
     }
 
-    // 3. Check idempotency key
+    const amountErrors = validateAmount(body.amount);
+    if (amountErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid amount', fieldErrors: amountErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const executeAtErrors = validateExecuteAt(body.executeAt);
+    if (executeAtErrors.length > 0) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid executeAt', fieldErrors: executeAtErrors }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+    const executeAt = body.executeAt ? new Date(body.executeAt) : undefined;
+
+    // 2. Check idempotency key (not for dry runs)
     const idempotencyValidator = new IdempotencyValidator(pool);
-    const existingOperation = await idempotencyValidator.getOperationByKey(body.idempotencyKey);
+    const existingOperation = dryRun
+      ? null
+      : await idempotencyValidator.getOperationByKey(body.idempotencyKey);
 
     if (existingOperation) {
       return new Response(
@@ -49,89 +93,71 @@ export async function handleTransfer(req: Request, pool: Pool): Promise<Response
       );
     }
 
-    // 4. Create operation
-    const operationId = uuidv4();
-
-    await pool.query(
-      `INSERT INTO operations
-       (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount, status, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
-      [
-        operationId,
-        OperationType.TRANSFER,
-        body.idempotencyKey,
-        body.issuanceId,
-        body.fromWalletId,
-        body.toWalletId,
-        body.amount,
-        OperationStatus.PENDING
-      ]
-    );
-
-    // 5. Create steps
-    const steps = [
-      {
-        id: uuidv4(),
-        operationId,
-        stepNo: 1,
-        kind: 'receiver_authorize',
-        walletId: body.toWalletId,
-        txType: 'MPTokenAuthorize'
-      },
-      {
-        id: uuidv4(),
-        operationId,
-        stepNo: 2,
-        kind: 'sender_transfer',
-        walletId: body.fromWalletId,
-        txType: 'Payment'
+    // 3. Pre-flight checks against the ledger (scheduled transfers are checked by the scheduler
+    //    when due, since the ledger may change until then)
+    if (!executeAt || dryRun) {
+      const violations = await new PreflightValidator(pool).validateTransfer({
+        fromWalletId: body.fromWalletId,
+        toWalletId: body.toWalletId,
+        issuanceId: body.issuanceId,
+        amount: body.amount
+      });
+      if (violations.length > 0) {
+        return new Response(
+          JSON.stringify({ error: 'Pre-flight validation failed', violations }),
+          { status: 422, headers: { 'Content-Type': 'application/json' } }
+        );
       }
-    ];
+    }
+
+    const operationService = new OperationService(pool);
+    const transferParams = {
+      idempotencyKey: body.idempotencyKey,
+      fromWalletId: body.fromWalletId,
+      toWalletId: body.toWalletId,
+      issuanceId: body.issuanceId,
+      amount: body.amount,
+      executeAt
+    };
 
-    for (const step of steps) {
-      await pool.query(
-        `INSERT INTO operation_steps
-         (id, operation_id, step_no, kind, wallet_id, tx_type, status, created_at, updated_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())`,
-        [
-          step.id,
-          step.operationId,
-          step.stepNo,
-          step.kind,
-          step.walletId,
-          step.txType,
-          StepStatus.PENDING
-        ]
+    // 4. Dry run: return the would-be transactions
+    if (dryRun) {
+      const result = await operationService.dryRunTransfer(transferParams);
+      return new Response(
+        JSON.stringify({ dryRun: true, ...result }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
       );
     }
 
-    // 6. Execute operation (async background execution)
-    const masterKey = masterKeyFromHex(process.env.ENCRYPTION_MASTER_KEY!);
-    const secretManager = new WalletSecretManager(pool, masterKey);
-    const transferOperation = new TransferOperation(
-      pool,
-      {
-        operationId,
-        issuanceId: body.issuanceId,
-        fromWalletId: body.fromWalletId,
-        toWalletId: body.toWalletId,
-        amount: body.amount
-      },
-      secretManager
-    );
-
-    // Execute in background
-    transferOperation.execute().catch((error) => {
-      console.error(`Transfer operation ${operationId} failed:`, error);
-    });
+    // 5. Create operation and queue it for execution
+    let operation;
+    try {
+      operation = await operationService.createTransfer(transferParams);
+    } catch (error) {
+      if (error instanceof DuplicateOperationError) {
+        // Created concurrently with the same idempotency key
+        return new Response(
+          JSON.stringify({
+            operationId: error.operationId,
+            status: error.status,
+            message: 'Operation already exists'
+          }),
+          { status: 200, headers: { 'Content-Type': 'application/json' } }
+        );
+      }
+      throw error;
+    }
 
-    // 7. Return response
+    // 6. Return response
     return new Response(
       JSON.stringify({
-        operationId,
-        status: OperationStatus.PENDING,
-        message: 'Transfer operation created and execution started',
-        steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+        operationId: operation.operationId,
+        status: operation.status,
+        executeAt: operation.executeAt,
+        message: operation.executeAt
+          ? `Transfer operation scheduled for ${operation.executeAt.toISOString()}`
+          : 'Transfer operation created and queued for execution',
+        steps: operation.steps
       }),
       { status: 201, headers: { 'Content-Type': 'application/json' } }
     );
@@ -1,8 +1,12 @@
 import { Pool } from 'pg';
 import { WalletManager } from '../../services/wallet-manager';
 import { WalletSecretManager } from '../../services/wallet-secret-manager';
+import { IssuanceService } from '../../services/issuance-service';
 import { masterKeyFromHex } from '../../crypto/encryption';
 
+const DEFAULT_EXPIRY_WINDOW_DAYS = 30;
+const MAX_EXPIRY_WINDOW_DAYS = 3660;
+
 export interface CreateWalletRequest {
   seed?: string; // Optional: used when importing an existing seed
 }
@@ -90,6 +94,61 @@ export async function handleGetWallet(
   }
 }
 
+/**
+ * GET /api/wallets/:walletId/expiring handler
+ * Lists holdings of a wallet expiring within ?withinDays= (default 30), already expired included
+ */
+export async function handleGetExpiringHoldings(
+  walletId: string,
+  url: URL,
+  pool: Pool
+): Promise<Response> {
+  try {
+    // 1. Parse window
+    const withinDays = parseInt(url.searchParams.get('withinDays') ?? `${DEFAULT_EXPIRY_WINDOW_DAYS}`, 10);
+
+    if (Number.isNaN(withinDays) || withinDays < 0 || withinDays > MAX_EXPIRY_WINDOW_DAYS) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid withinDays',
+          details: `withinDays must be 0-${MAX_EXPIRY_WINDOW_DAYS}`
+        }),
+        { status: 400, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 2. Check wallet exists
+    const masterKey = masterKeyFromHex(process.env.ENCRYPTION_MASTER_KEY!);
+    const secretManager = new WalletSecretManager(pool, masterKey);
+    const walletManager = new WalletManager(pool, secretManager);
+
+    const wallet = await walletManager.getWallet(walletId);
+
+    if (!wallet) {
+      return new Response(
+        JSON.stringify({ error: 'Wallet not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // 3. Retrieve expiring holdings
+    const issuanceService = new IssuanceService(pool);
+    const holdings = await issuanceService.getExpiringHoldings(walletId, withinDays);
+
+    return new Response(
+      JSON.stringify({ walletId, withinDays, holdings }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error: any) {
+    console.error('Get expiring holdings error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error', details: error.message }),
+      { status: 500, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
 /**
  * POST /api/wallets/:walletId/fund handler
  * Supplies funds to a wallet from the testnet/devnet faucet
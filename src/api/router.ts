@@ -1,12 +1,43 @@
 import { Pool } from 'pg';
-import { handleMint } from './handlers/mint';
+import { handleMint, handleMintCorrection } from './handlers/mint';
 import { handleTransfer } from './handlers/transfer';
 import { handleBurn } from './handlers/burn';
+import { handleRetire } from './handlers/retire';
+import { handleGetRetirement } from './handlers/retirements';
+import { handleCreateBatch, handleGetBatch } from './handlers/batches';
 import {
   handleGetOperationStatus,
-  handleGetOperationStatusLightweight
+  handleGetOperationStatusLightweight,
+  handleCompensateOperation,
+  handleGetOperationEvents,
+  handleListScheduledOperations,
+  handleCancelOperation
 } from './handlers/operations';
-import { handleCreateWallet, handleGetWallet, handleFundWallet } from './handlers/wallets';
+import {
+  handleCreateWallet,
+  handleGetWallet,
+  handleFundWallet,
+  handleGetExpiringHoldings
+} from './handlers/wallets';
+import {
+  handleListIssuances,
+  handleGetIssuance,
+  handleGetIssuanceProvenance
+} from './handlers/issuances';
+import {
+  handleCreateConsumptionSite,
+  handleGetConsumptionSite,
+  handleUploadLoadProfile
+} from './handlers/consumption-sites';
+import { handleRunMatching, handleGetMatchingRun } from './handlers/matching';
+import {
+  handleCreateDevice,
+  handleListDevices,
+  handleGetDevice,
+  handleUpdateDevice,
+  handleDecommissionDevice
+} from './handlers/devices';
+import { handleIngestMeterReadings } from './handlers/meter-readings';
 
 /**
  * API Router
@@ -20,7 +51,7 @@ export async function router(req: Request, pool: Pool): Promise<Response> {
   // CORS headers (as needed)
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type'
   };
 
@@ -40,6 +71,10 @@ export async function router(req: Request, pool: Pool): Promise<Response> {
     if (method === 'POST' && path === '/api/operations/mint') {
       response = await handleMint(req, pool);
     }
+    // POST /api/operations/mint/corrections
+    else if (method === 'POST' && path === '/api/operations/mint/corrections') {
+      response = await handleMintCorrection(req, pool);
+    }
     // POST /api/operations/transfer
     else if (method === 'POST' && path === '/api/operations/transfer') {
       response = await handleTransfer(req, pool);
@@ -48,6 +83,38 @@ export async function router(req: Request, pool: Pool): Promise<Response> {
     else if (method === 'POST' && path === '/api/operations/burn') {
       response = await handleBurn(req, pool);
     }
+    // POST /api/operations/retire
+    else if (method === 'POST' && path === '/api/operations/retire') {
+      response = await handleRetire(req, pool);
+    }
+    // POST /api/operations/batch
+    else if (method === 'POST' && path === '/api/operations/batch') {
+      response = await handleCreateBatch(req, pool);
+    }
+    // GET /api/operations/batch/:batchId
+    else if (method === 'GET' && path.match(/^\/api\/operations\/batch\/[^\/]+$/)) {
+      const batchId = path.split('/')[4]; // /api/operations/batch/{batchId}
+      response = await handleGetBatch(batchId, pool);
+    }
+    // POST /api/operations/:operationId/compensate
+    else if (method === 'POST' && path.match(/^\/api\/operations\/[^\/]+\/compensate$/)) {
+      const operationId = path.split('/')[3]; // /api/operations/{operationId}/compensate
+      response = await handleCompensateOperation(operationId, pool);
+    }
+    // POST /api/operations/:operationId/cancel
+    else if (method === 'POST' && path.match(/^\/api\/operations\/[^\/]+\/cancel$/)) {
+      const operationId = path.split('/')[3]; // /api/operations/{operationId}/cancel
+      response = await handleCancelOperation(operationId, pool);
+    }
+    // GET /api/operations/scheduled
+    else if (method === 'GET' && path === '/api/operations/scheduled') {
+      response = await handleListScheduledOperations(url, pool);
+    }
+    // GET /api/operations/:operationId/events
+    else if (method === 'GET' && path.match(/^\/api\/operations\/[^\/]+\/events$/)) {
+      const operationId = path.split('/')[3]; // /api/operations/{operationId}/events
+      response = await handleGetOperationEvents(operationId, pool);
+    }
     // GET /api/operations/:operationId
     else if (method === 'GET' && path.startsWith('/api/operations/')) {
       const operationId = path.split('/').pop();
@@ -79,6 +146,18 @@ export async function router(req: Request, pool: Pool): Promise<Response> {
         response = await handleFundWallet(walletId, pool);
       }
     }
+    // GET /api/wallets/:walletId/expiring
+    else if (method === 'GET' && path.match(/^\/api\/wallets\/[^\/]+\/expiring$/)) {
+      const walletId = path.split('/')[3]; // /api/wallets/{walletId}/expiring
+      if (!walletId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing wallet ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetExpiringHoldings(walletId, url, pool);
+      }
+    }
     // GET /api/wallets/:walletId
     else if (method === 'GET' && path.startsWith('/api/wallets/')) {
       const walletId = path.split('/').pop();
@@ -91,6 +170,118 @@ export async function router(req: Request, pool: Pool): Promise<Response> {
         response = await handleGetWallet(walletId, pool);
       }
     }
+    // GET /api/issuances
+    else if (method === 'GET' && path === '/api/issuances') {
+      response = await handleListIssuances(url, pool);
+    }
+    // GET /api/issuances/:issuanceId/provenance
+    else if (method === 'GET' && path.match(/^\/api\/issuances\/[^\/]+\/provenance$/)) {
+      const issuanceId = path.split('/')[3]; // /api/issuances/{issuanceId}/provenance
+      if (!issuanceId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing issuance ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetIssuanceProvenance(issuanceId, pool);
+      }
+    }
+    // GET /api/issuances/:issuanceId
+    else if (method === 'GET' && path.startsWith('/api/issuances/')) {
+      const issuanceId = path.split('/').pop();
+      if (!issuanceId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing issuance ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetIssuance(issuanceId, pool);
+      }
+    }
+    // GET /api/retirements/:retirementId
+    else if (method === 'GET' && path.startsWith('/api/retirements/')) {
+      const retirementId = path.split('/').pop();
+      if (!retirementId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing retirement ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetRetirement(retirementId, pool);
+      }
+    }
+    // POST /api/consumption-sites
+    else if (method === 'POST' && path === '/api/consumption-sites') {
+      response = await handleCreateConsumptionSite(req, pool);
+    }
+    // POST /api/consumption-sites/:siteId/load
+    else if (method === 'POST' && path.match(/^\/api\/consumption-sites\/[^\/]+\/load$/)) {
+      const siteId = path.split('/')[3]; // /api/consumption-sites/{siteId}/load
+      if (!siteId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing site ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleUploadLoadProfile(siteId, req, pool);
+      }
+    }
+    // GET /api/consumption-sites/:siteId
+    else if (method === 'GET' && path.startsWith('/api/consumption-sites/')) {
+      const siteId = path.split('/').pop();
+      if (!siteId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing site ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetConsumptionSite(siteId, pool);
+      }
+    }
+    // POST /api/matching
+    else if (method === 'POST' && path === '/api/matching') {
+      response = await handleRunMatching(req, pool);
+    }
+    // GET /api/matching/:runId
+    else if (method === 'GET' && path.startsWith('/api/matching/')) {
+      const runId = path.split('/').pop();
+      if (!runId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing matching run ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else {
+        response = await handleGetMatchingRun(runId, url, pool);
+      }
+    }
+    // POST /api/devices
+    else if (method === 'POST' && path === '/api/devices') {
+      response = await handleCreateDevice(req, pool);
+    }
+    // GET /api/devices
+    else if (method === 'GET' && path === '/api/devices') {
+      response = await handleListDevices(url, pool);
+    }
+    // GET/PATCH/DELETE /api/devices/:deviceId
+    else if (['GET', 'PATCH', 'DELETE'].includes(method) && path.startsWith('/api/devices/')) {
+      const deviceId = decodeURIComponent(path.split('/').pop() ?? '');
+      if (!deviceId) {
+        response = new Response(
+          JSON.stringify({ error: 'Missing device ID' }),
+          { status: 400, headers: { 'Content-Type': 'application/json' } }
+        );
+      } else if (method === 'PATCH') {
+        response = await handleUpdateDevice(deviceId, req, pool);
+      } else if (method === 'DELETE') {
+        response = await handleDecommissionDevice(deviceId, pool);
+      } else {
+        response = await handleGetDevice(deviceId, pool);
+      }
+    }
+    // POST /api/meter-readings
+    else if (method === 'POST' && path === '/api/meter-readings') {
+      response = await handleIngestMeterReadings(url, req, pool);
+    }
     // Health check
     else if (method === 'GET' && path === '/health') {
       response = new Response(
@@ -0,0 +1,41 @@
+/**
+ * Certificate expiry policy
+ * A GC expires a fixed number of calendar months after its production hour
+ */
+
+const DEFAULT_VALIDITY_MONTHS = 12;
+
+/**
+ * Validity period in months (env GC_VALIDITY_MONTHS, default 12)
+ */
+export function getValidityMonths(): number {
+  const months = Number(process.env.GC_VALIDITY_MONTHS ?? DEFAULT_VALIDITY_MONTHS);
+  return Number.isInteger(months) && months > 0 ? months : DEFAULT_VALIDITY_MONTHS;
+}
+
+/**
+ * Expiry of a certificate produced in the given hour
+ * Month arithmetic is done in UTC; a day past the end of the target month is clamped
+ * (e.g. production on 2026-01-31 with 1 month expires on 2026-02-28).
+ * @param productionStart Production hour start (ISO 8601)
+ * @param validityMonths Validity period in months
+ * @returns Expiry timestamp (ISO 8601, UTC)
+ */
+export function computeExpiry(
+  productionStart: string,
+  validityMonths: number = getValidityMonths()
+): string {
+  const start = new Date(productionStart);
+  const target = new Date(Date.UTC(
+    start.getUTCFullYear(),
+    start.getUTCMonth() + validityMonths,
+    1,
+    start.getUTCHours(),
+    start.getUTCMinutes(),
+    start.getUTCSeconds()
+  ));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(start.getUTCDate(), lastDay));
+
+  return target.toISOString().replace('.000Z', 'Z');
+}
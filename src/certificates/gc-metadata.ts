@@ -0,0 +1,306 @@
+/**
+ * Granular Certificate (GC) attribute model
+ * Defines the attributes a minted MPT must carry and their encoding into MPTokenMetadata
+ */
+
+import { getGridZoneTaxonomy, Coordinates } from '../matching/grid-zones';
+
+export const GC_METADATA_SCHEMA = 'grpl.gc';
+export const GC_METADATA_VERSION = 1;
+
+// XRPL limit for MPTokenMetadata (bytes)
+const MPT_METADATA_MAX_BYTES = 1024;
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+export enum EnergySource {
+  SOLAR = 'solar',
+  WIND = 'wind',
+  HYDRO = 'hydro',
+  GEOTHERMAL = 'geothermal',
+  BIOMASS = 'biomass',
+  MARINE = 'marine'
+}
+
+export interface GcAttributes {
+  deviceId: string;         // Production device ID
+  productionStart: string;  // Production hour start (ISO 8601, UTC)
+  productionEnd: string;    // Production hour end (ISO 8601, UTC)
+  energySource: EnergySource;
+  technology: string;       // e.g. 'pv_ground_mounted', 'onshore_wind'
+  country: string;          // ISO 3166-1 alpha-2
+  gridZone: string;         // Grid zone / bidding area
+  volumeKwh: string;        // Produced energy (kWh, integer string)
+  issuingBody: string;      // Issuing body of the certificate
+  location?: Coordinates;   // Device coordinates (optional)
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// Fixed key order for the encoded form (keeps MPTokenMetadata byte-stable)
+const ATTRIBUTE_KEYS: (keyof GcAttributes)[] = [
+  'deviceId',
+  'productionStart',
+  'productionEnd',
+  'energySource',
+  'technology',
+  'country',
+  'gridZone',
+  'volumeKwh',
+  'issuingBody',
+  'location'
+];
+
+const UTC_TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?Z$/;
+const COUNTRY_PATTERN = /^[A-Z]{2}$/;
+const INTEGER_PATTERN = /^[1-9]\d*$/;
+
+/**
+ * Validate GC attributes supplied with a mint request
+ * @param input Raw metadata from request body
+ * @param amount Mint amount (must equal volumeKwh)
+ * @param fieldPrefix Prefix for field names in errors
+ * @returns Field-level errors (empty if valid)
+ */
+export function validateGcAttributes(
+  input: any,
+  amount?: string,
+  fieldPrefix: string = 'metadata'
+): FieldError[] {
+  const errors: FieldError[] = [];
+  const field = (name: string) => `${fieldPrefix}.${name}`;
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [{ field: fieldPrefix, message: 'Must be an object with GC attributes' }];
+  }
+
+  // 1. Required string attributes
+  for (const key of ['deviceId', 'technology', 'gridZone', 'issuingBody'] as const) {
+    if (typeof input[key] !== 'string' || input[key].trim() === '') {
+      errors.push({ field: field(key), message: 'Required non-empty string' });
+    }
+  }
+
+  // 2. Energy source
+  const energySources = Object.values(EnergySource) as string[];
+  if (!energySources.includes(input.energySource)) {
+    errors.push({
+      field: field('energySource'),
+      message: `Must be one of: ${energySources.join(', ')}`
+    });
+  }
+
+  // 3. Country
+  if (typeof input.country !== 'string' || !COUNTRY_PATTERN.test(input.country)) {
+    errors.push({
+      field: field('country'),
+      message: 'Must be an ISO 3166-1 alpha-2 code (e.g. JP)'
+    });
+  }
+
+  // 4. Grid zone (configured taxonomy, consistent with country)
+  if (typeof input.gridZone === 'string' && input.gridZone.trim() !== '') {
+    const zone = getGridZoneTaxonomy().getZone(input.gridZone.trim());
+    if (!zone) {
+      errors.push({ field: field('gridZone'), message: 'Unknown grid zone' });
+    } else if (typeof input.country === 'string' && zone.country !== input.country) {
+      errors.push({
+        field: field('gridZone'),
+        message: `Grid zone ${zone.id} is in ${zone.country}, not ${input.country}`
+      });
+    }
+  }
+
+  // 5. Location (optional)
+  if (input.location !== undefined) {
+    errors.push(...validateCoordinates(input.location, field('location')));
+  }
+
+  // 6. Production window (exactly one UTC hour, aligned to the hour)
+  const start = parseUtcTimestamp(input.productionStart);
+  const end = parseUtcTimestamp(input.productionEnd);
+
+  if (start === null) {
+    errors.push({
+      field: field('productionStart'),
+      message: 'Must be an ISO 8601 UTC timestamp (e.g. 2026-01-05T07:00:00Z)'
+    });
+  } else if (start % ONE_HOUR_MS !== 0) {
+    errors.push({
+      field: field('productionStart'),
+      message: 'Must be aligned to the start of an hour'
+    });
+  }
+
+  if (end === null) {
+    errors.push({
+      field: field('productionEnd'),
+      message: 'Must be an ISO 8601 UTC timestamp (e.g. 2026-01-05T08:00:00Z)'
+    });
+  } else if (start !== null && end - start !== ONE_HOUR_MS) {
+    errors.push({
+      field: field('productionEnd'),
+      message: 'Production window must be exactly one hour'
+    });
+  }
+
+  // 7. Volume (kWh) must match the mint amount (assetScale 0: 1 token = 1 kWh)
+  const volumeKwh = normalizeInteger(input.volumeKwh);
+  if (volumeKwh === null) {
+    errors.push({
+      field: field('volumeKwh'),
+      message: 'Must be a positive integer (kWh)'
+    });
+  } else if (amount !== undefined && normalizeInteger(amount) !== volumeKwh) {
+    errors.push({
+      field: field('volumeKwh'),
+      message: `Must equal amount (volumeKwh: ${volumeKwh}, amount: ${amount})`
+    });
+  }
+
+  // 8. Encoded size limit
+  if (errors.length === 0) {
+    const encoded = encodeGcMetadata(input as GcAttributes);
+    const size = Buffer.byteLength(encoded, 'utf-8');
+    if (size > MPT_METADATA_MAX_BYTES) {
+      errors.push({
+        field: fieldPrefix,
+        message: `Encoded metadata is ${size} bytes (max ${MPT_METADATA_MAX_BYTES})`
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize validated GC attributes (trimmed strings, canonical timestamps)
+ * @param input Validated attributes
+ * @returns Normalized attributes
+ */
+export function normalizeGcAttributes(input: GcAttributes): GcAttributes {
+  return {
+    deviceId: input.deviceId.trim(),
+    productionStart: formatUtcTimestamp(parseUtcTimestamp(input.productionStart)!),
+    productionEnd: formatUtcTimestamp(parseUtcTimestamp(input.productionEnd)!),
+    energySource: input.energySource,
+    technology: input.technology.trim(),
+    country: input.country,
+    gridZone: input.gridZone.trim(),
+    volumeKwh: normalizeInteger(input.volumeKwh)!,
+    issuingBody: input.issuingBody.trim(),
+    ...(input.location && {
+      location: { latitude: input.location.latitude, longitude: input.location.longitude }
+    })
+  };
+}
+
+/**
+ * Encode GC attributes into the versioned MPTokenMetadata form
+ * @param attributes GC attributes
+ * @returns JSON string with fixed key order
+ */
+export function encodeGcMetadata(attributes: GcAttributes): string {
+  const normalized = normalizeGcAttributes(attributes);
+  const document: Record<string, unknown> = {
+    schema: GC_METADATA_SCHEMA,
+    version: GC_METADATA_VERSION
+  };
+
+  for (const key of ATTRIBUTE_KEYS) {
+    if (normalized[key] !== undefined) {
+      document[key] = normalized[key];
+    }
+  }
+
+  return JSON.stringify(document);
+}
+
+/**
+ * Decode MPTokenMetadata back into GC attributes
+ * @param encoded JSON string (or hex-encoded JSON from the ledger)
+ * @returns GC attributes (null if not a GC metadata document)
+ */
+export function decodeGcMetadata(encoded: string): GcAttributes | null {
+  try {
+    const json = /^[0-9A-Fa-f]+$/.test(encoded)
+      ? Buffer.from(encoded, 'hex').toString('utf-8')
+      : encoded;
+    const document = JSON.parse(json);
+
+    if (document?.schema !== GC_METADATA_SCHEMA || document?.version !== GC_METADATA_VERSION) {
+      return null;
+    }
+
+    const attributes: Record<string, unknown> = {};
+    for (const key of ATTRIBUTE_KEYS) {
+      if (document[key] !== undefined) {
+        attributes[key] = document[key];
+      }
+    }
+
+    return attributes as unknown as GcAttributes;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Validate WGS84 coordinates
+ * @param input Raw coordinates
+ * @param fieldName Field name for errors
+ * @returns Field-level errors (empty if valid)
+ */
+export function validateCoordinates(input: any, fieldName: string): FieldError[] {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return [{ field: fieldName, message: 'Must be an object with latitude and longitude' }];
+  }
+
+  const errors: FieldError[] = [];
+  const { latitude, longitude } = input;
+
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    errors.push({ field: `${fieldName}.latitude`, message: 'Must be a number between -90 and 90' });
+  }
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    errors.push({ field: `${fieldName}.longitude`, message: 'Must be a number between -180 and 180' });
+  }
+
+  return errors;
+}
+
+/**
+ * Parse ISO 8601 UTC timestamp
+ * @returns Epoch milliseconds (null if invalid)
+ */
+function parseUtcTimestamp(value: unknown): number | null {
+  if (typeof value !== 'string' || !UTC_TIMESTAMP_PATTERN.test(value)) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Format epoch milliseconds as ISO 8601 UTC without milliseconds
+ */
+function formatUtcTimestamp(time: number): string {
+  return new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Normalize positive integer given as string or number
+ * @returns Integer string (null if invalid)
+ */
+function normalizeInteger(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value > 0) {
+    return value.toString();
+  }
+  if (typeof value === 'string' && INTEGER_PATTERN.test(value.trim())) {
+    return value.trim();
+  }
+  return null;
+}
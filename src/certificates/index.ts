@@ -0,0 +1,14 @@
+// Certificates export
+export {
+  EnergySource,
+  GC_METADATA_SCHEMA,
+  GC_METADATA_VERSION,
+  validateGcAttributes,
+  normalizeGcAttributes,
+  encodeGcMetadata,
+  decodeGcMetadata,
+  validateCoordinates,
+  type GcAttributes,
+  type FieldError
+} from './gc-metadata';
+export { getValidityMonths, computeExpiry } from './expiry';
@@ -0,0 +1,7 @@
+-- 009_add_operations_metadata.sql
+-- Store Granular Certificate attributes requested for mint operations
+
+ALTER TABLE operations
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+COMMENT ON COLUMN operations.metadata IS 'GC attributes for mint operations (encoded into MPTokenMetadata)';
@@ -0,0 +1,17 @@
+-- 010_extend_mpt_issuances.sql
+-- Record issuance details when MPTokenIssuanceCreate is validated
+
+ALTER TABLE mpt_issuances
+  ADD COLUMN IF NOT EXISTS maximum_amount NUMERIC(78, 0),
+  ADD COLUMN IF NOT EXISTS issuer_address TEXT,
+  ADD COLUMN IF NOT EXISTS tx_hash TEXT,
+  ADD COLUMN IF NOT EXISTS operation_id UUID REFERENCES operations(id);
+
+CREATE INDEX IF NOT EXISTS idx_mpt_issuances_metadata ON mpt_issuances USING GIN (metadata);
+CREATE INDEX IF NOT EXISTS idx_mpt_issuances_created ON mpt_issuances(created_at DESC);
+
+COMMENT ON COLUMN mpt_issuances.metadata IS 'Decoded GC attributes from MPTokenMetadata (JSON)';
+COMMENT ON COLUMN mpt_issuances.maximum_amount IS 'MaximumAmount of the issuance';
+COMMENT ON COLUMN mpt_issuances.issuer_address IS 'Issuer XRPL address';
+COMMENT ON COLUMN mpt_issuances.tx_hash IS 'MPTokenIssuanceCreate transaction hash';
+COMMENT ON COLUMN mpt_issuances.operation_id IS 'Mint operation that created the issuance';
@@ -0,0 +1,33 @@
+-- 011_create_retirements.sql
+-- Retirements table: Consumption claims backed by retired GCs
+
+ALTER TYPE operation_type ADD VALUE IF NOT EXISTS 'retire';
+
+CREATE TABLE IF NOT EXISTS retirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  operation_id UUID NOT NULL UNIQUE REFERENCES operations(id) ON DELETE CASCADE,
+  issuance_id TEXT NOT NULL,
+  holder_wallet_id TEXT NOT NULL,
+  amount NUMERIC(78, 0) NOT NULL,
+  beneficiary_name TEXT NOT NULL,
+  consumption_site TEXT NOT NULL,
+  consumption_period_start TIMESTAMPTZ NOT NULL,
+  consumption_period_end TIMESTAMPTZ NOT NULL,
+  claim_purpose TEXT NOT NULL,
+  retired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (consumption_period_end > consumption_period_start)
+);
+
+CREATE INDEX idx_retirements_issuance ON retirements(issuance_id);
+CREATE INDEX idx_retirements_holder ON retirements(holder_wallet_id);
+
+COMMENT ON TABLE retirements IS 'Retirement (consumption claim) records, distinct from burns';
+COMMENT ON COLUMN retirements.operation_id IS 'Retire operation that removes the GCs on-chain';
+COMMENT ON COLUMN retirements.holder_wallet_id IS 'Wallet the GCs are retired from';
+COMMENT ON COLUMN retirements.beneficiary_name IS 'Beneficiary of the consumption claim';
+COMMENT ON COLUMN retirements.consumption_site IS 'Consumption site the claim applies to';
+COMMENT ON COLUMN retirements.consumption_period_start IS 'Consumption period start';
+COMMENT ON COLUMN retirements.consumption_period_end IS 'Consumption period end (exclusive)';
+COMMENT ON COLUMN retirements.claim_purpose IS 'Purpose of the claim (e.g. scope2_market_based, re100)';
+COMMENT ON COLUMN retirements.retired_at IS 'Timestamp the on-chain removal was validated (NULL until then)';
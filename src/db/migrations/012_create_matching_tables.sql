@@ -0,0 +1,44 @@
+-- 012_create_matching_tables.sql
+-- Consumption sites, hourly load profiles and time-matching runs
+
+CREATE TABLE IF NOT EXISTS consumption_sites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  wallet_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS consumption_loads (
+  site_id UUID NOT NULL REFERENCES consumption_sites(id) ON DELETE CASCADE,
+  hour_start TIMESTAMPTZ NOT NULL,
+  load_kwh NUMERIC(20, 3) NOT NULL CHECK (load_kwh >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (site_id, hour_start)
+);
+
+CREATE TABLE IF NOT EXISTS matching_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id UUID NOT NULL REFERENCES consumption_sites(id),
+  wallet_id TEXT NOT NULL,
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  sources TEXT[] NOT NULL,
+  input_hash TEXT NOT NULL,
+  inputs JSONB NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_matching_runs_site ON matching_runs(site_id, created_at DESC);
+
+COMMENT ON TABLE consumption_sites IS 'Consumption sites whose load is matched against GCs';
+COMMENT ON COLUMN consumption_sites.wallet_id IS 'Wallet holding GCs for this site (optional)';
+COMMENT ON TABLE consumption_loads IS 'Hourly consumer load profile (UTC hours)';
+COMMENT ON COLUMN consumption_loads.hour_start IS 'Consumption hour start (UTC, aligned to the hour)';
+COMMENT ON COLUMN consumption_loads.load_kwh IS 'Consumed energy in the hour (kWh)';
+COMMENT ON TABLE matching_runs IS 'Hourly time-matching runs (inputs snapshot kept for audit)';
+COMMENT ON COLUMN matching_runs.sources IS 'GC sources used: held and/or retired';
+COMMENT ON COLUMN matching_runs.input_hash IS 'SHA-256 of the canonical inputs';
+COMMENT ON COLUMN matching_runs.inputs IS 'Supply and load snapshot the result was computed from';
+COMMENT ON COLUMN matching_runs.result IS 'Hourly/daily/yearly matching result';
@@ -0,0 +1,17 @@
+-- 013_add_geo_to_matching.sql
+-- Grid zone and coordinates for consumption sites, geographic mode for matching runs
+
+ALTER TABLE consumption_sites
+  ADD COLUMN IF NOT EXISTS grid_zone TEXT,
+  ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180);
+
+ALTER TABLE matching_runs
+  ADD COLUMN IF NOT EXISTS geo_mode TEXT NOT NULL DEFAULT 'any';
+
+CREATE INDEX IF NOT EXISTS idx_mpt_issuances_grid_zone ON mpt_issuances ((metadata->>'gridZone'));
+
+COMMENT ON COLUMN consumption_sites.grid_zone IS 'Grid zone / bidding area of the site (see grid-zones.json)';
+COMMENT ON COLUMN consumption_sites.latitude IS 'Site latitude (WGS84)';
+COMMENT ON COLUMN consumption_sites.longitude IS 'Site longitude (WGS84)';
+COMMENT ON COLUMN matching_runs.geo_mode IS 'Geographic matching mode: any, same_zone or interconnected';
@@ -0,0 +1,38 @@
+-- 014_create_devices.sql
+-- Devices table: Registered production devices that GCs are issued for
+
+CREATE TYPE device_status AS ENUM (
+  'active',
+  'suspended',
+  'decommissioned'
+);
+
+CREATE TABLE IF NOT EXISTS devices (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::TEXT,
+  name TEXT NOT NULL,
+  owner_wallet_id TEXT NOT NULL,
+  energy_source TEXT NOT NULL,
+  technology TEXT NOT NULL,
+  capacity_kw NUMERIC(12, 3) NOT NULL CHECK (capacity_kw > 0),
+  commissioning_date DATE NOT NULL,
+  country TEXT NOT NULL,
+  grid_zone TEXT NOT NULL,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  status device_status NOT NULL DEFAULT 'active',
+  decommissioned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_devices_owner ON devices(owner_wallet_id);
+CREATE INDEX idx_devices_status ON devices(status);
+
+COMMENT ON TABLE devices IS 'Production device registry (GCs can only be issued for active devices)';
+COMMENT ON COLUMN devices.id IS 'Device ID (referenced by GC metadata deviceId)';
+COMMENT ON COLUMN devices.owner_wallet_id IS 'Wallet of the device owner';
+COMMENT ON COLUMN devices.capacity_kw IS 'Nameplate capacity (kW); caps issuance per production hour';
+COMMENT ON COLUMN devices.commissioning_date IS 'Date the device started operating (no issuance for earlier hours)';
+COMMENT ON COLUMN devices.grid_zone IS 'Grid zone / bidding area (see grid-zones.json)';
+COMMENT ON COLUMN devices.status IS 'Device status: active, suspended or decommissioned';
+COMMENT ON COLUMN devices.decommissioned_at IS 'Timestamp the device was decommissioned';
@@ -0,0 +1,20 @@
+-- 015_create_meter_readings.sql
+-- Meter readings table: Interval production readings that hourly mints are derived from
+
+CREATE TABLE IF NOT EXISTS meter_readings (
+  device_id TEXT NOT NULL REFERENCES devices(id),
+  interval_start TIMESTAMPTZ NOT NULL,
+  interval_minutes SMALLINT NOT NULL CHECK (interval_minutes IN (15, 30, 60)),
+  kwh NUMERIC(20, 3) NOT NULL CHECK (kwh >= 0),
+  operation_id UUID REFERENCES operations(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (device_id, interval_start)
+);
+
+CREATE INDEX idx_meter_readings_operation ON meter_readings(operation_id);
+
+COMMENT ON TABLE meter_readings IS 'Interval meter readings per production device (15/30/60 minutes)';
+COMMENT ON COLUMN meter_readings.interval_start IS 'Interval start (UTC, aligned to the interval length)';
+COMMENT ON COLUMN meter_readings.kwh IS 'Produced energy in the interval (kWh)';
+COMMENT ON COLUMN meter_readings.operation_id IS 'Mint operation issued for the reading''s hour (readings are frozen once set)';
@@ -0,0 +1,27 @@
+-- 016_add_mint_production_guard.sql
+-- Double-issuance guard: one mint per (device, production hour, revision) over non-failed operations
+
+ALTER TABLE operations
+  ADD COLUMN IF NOT EXISTS device_id TEXT,
+  ADD COLUMN IF NOT EXISTS production_hour TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS issuance_revision INTEGER NOT NULL DEFAULT 0 CHECK (issuance_revision >= 0),
+  ADD COLUMN IF NOT EXISTS corrects_operation_id UUID REFERENCES operations(id),
+  ADD COLUMN IF NOT EXISTS correction_reason TEXT;
+
+-- Backfill existing mints from their GC metadata
+UPDATE operations
+SET device_id = metadata->>'deviceId',
+    production_hour = (metadata->>'productionStart')::timestamptz
+WHERE type = 'mint'
+  AND metadata ? 'deviceId'
+  AND metadata ? 'productionStart';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_operations_mint_device_hour
+  ON operations (device_id, production_hour, issuance_revision)
+  WHERE type = 'mint' AND status <> 'FAILED';
+
+COMMENT ON COLUMN operations.device_id IS 'Production device (mint only)';
+COMMENT ON COLUMN operations.production_hour IS 'Production hour start (mint only)';
+COMMENT ON COLUMN operations.issuance_revision IS 'Issuance revision for the device-hour (0 = original, >0 = correction)';
+COMMENT ON COLUMN operations.corrects_operation_id IS 'Original mint a correction mint re-issues for';
+COMMENT ON COLUMN operations.correction_reason IS 'Reason for the correction (e.g. meter data correction)';
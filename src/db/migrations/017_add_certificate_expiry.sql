@@ -0,0 +1,21 @@
+-- 017_add_certificate_expiry.sql
+-- Certificate expiry: issuance expiry date and the reason recorded on operations (e.g. expiry clawback)
+
+ALTER TABLE mpt_issuances
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+ALTER TABLE operations
+  ADD COLUMN IF NOT EXISTS reason TEXT;
+
+-- Backfill existing issuances with the default policy (12 months after the production hour)
+UPDATE mpt_issuances
+SET expires_at = (metadata->>'productionStart')::timestamptz + INTERVAL '12 months'
+WHERE expires_at IS NULL
+  AND metadata ? 'productionStart';
+
+CREATE INDEX IF NOT EXISTS idx_mpt_issuances_expires_at
+  ON mpt_issuances(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+COMMENT ON COLUMN mpt_issuances.expires_at IS 'Certificate expiry (production hour + GC_VALIDITY_MONTHS)';
+COMMENT ON COLUMN operations.reason IS 'Reason for the operation (e.g. expired for expiry clawbacks)';
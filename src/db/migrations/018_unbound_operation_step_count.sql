@@ -0,0 +1,11 @@
+-- 018_unbound_operation_step_count.sql
+-- Steps come from declarative operation definitions, so the step count is no longer capped at 3
+
+ALTER TABLE operation_steps
+  DROP CONSTRAINT IF EXISTS operation_steps_step_no_check;
+
+ALTER TABLE operation_steps
+  ADD CONSTRAINT operation_steps_step_no_check CHECK (step_no >= 1);
+
+COMMENT ON COLUMN operation_steps.step_no IS 'Step number (1-based, in operation definition order)';
+COMMENT ON COLUMN operation_steps.kind IS 'Step executor kind (e.g., issuer_mint, user_authorize)';
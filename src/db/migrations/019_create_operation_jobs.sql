@@ -0,0 +1,36 @@
+-- 019_create_operation_jobs.sql
+-- Operation Jobs table: Durable work queue of operations to execute (one job per operation)
+
+CREATE TYPE operation_job_status AS ENUM (
+  'QUEUED',
+  'LEASED',
+  'DONE'
+);
+
+CREATE TABLE IF NOT EXISTS operation_jobs (
+  operation_id UUID PRIMARY KEY REFERENCES operations(id) ON DELETE CASCADE,
+  status operation_job_status NOT NULL DEFAULT 'QUEUED',
+  available_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  leased_by TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_operation_jobs_queued
+  ON operation_jobs(available_at)
+  WHERE status = 'QUEUED';
+CREATE INDEX idx_operation_jobs_lease
+  ON operation_jobs(lease_expires_at)
+  WHERE status = 'LEASED';
+
+COMMENT ON TABLE operation_jobs IS 'Durable work queue of operations (claimed with FOR UPDATE SKIP LOCKED)';
+COMMENT ON COLUMN operation_jobs.operation_id IS 'Operation to execute';
+COMMENT ON COLUMN operation_jobs.status IS 'QUEUED (claimable), LEASED (being executed), DONE';
+COMMENT ON COLUMN operation_jobs.available_at IS 'Earliest time the job may be claimed';
+COMMENT ON COLUMN operation_jobs.leased_by IS 'Worker ID holding the lease';
+COMMENT ON COLUMN operation_jobs.lease_expires_at IS 'Lease expiry; an expired lease is claimable again (visibility timeout)';
+COMMENT ON COLUMN operation_jobs.attempts IS 'Number of claims';
+COMMENT ON COLUMN operation_jobs.last_error IS 'Error of the last failed attempt';
@@ -0,0 +1,11 @@
+-- 020_add_step_retry_tracking.sql
+-- Retry tracking for steps failing with retriable XRPL errors
+
+ALTER TABLE operation_steps
+  ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_error_code TEXT,
+  ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN operation_steps.attempts IS 'Failed attempts so far';
+COMMENT ON COLUMN operation_steps.last_error_code IS 'XrplErrorCode of the last failed attempt';
+COMMENT ON COLUMN operation_steps.next_retry_at IS 'Earliest time of the next attempt (NULL when no retry is scheduled)';
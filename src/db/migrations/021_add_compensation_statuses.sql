@@ -0,0 +1,6 @@
+-- 021_add_compensation_statuses.sql
+-- Operation statuses for compensated failures (separate migration: new enum values
+-- can only be used once committed)
+
+ALTER TYPE operation_status ADD VALUE IF NOT EXISTS 'COMPENSATING';
+ALTER TYPE operation_status ADD VALUE IF NOT EXISTS 'COMPENSATED';
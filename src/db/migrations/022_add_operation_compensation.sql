@@ -0,0 +1,18 @@
+-- 022_add_operation_compensation.sql
+-- Compensation steps undo the completed steps of a failed operation
+
+ALTER TABLE operation_steps
+  ADD COLUMN IF NOT EXISTS compensation BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE mpt_issuances
+  ADD COLUMN IF NOT EXISTS destroyed_at TIMESTAMPTZ;
+
+-- Compensated mints no longer hold their device-hour
+DROP INDEX IF EXISTS idx_operations_mint_device_hour;
+
+CREATE UNIQUE INDEX idx_operations_mint_device_hour
+  ON operations (device_id, production_hour, issuance_revision)
+  WHERE type = 'mint' AND status NOT IN ('FAILED', 'COMPENSATING', 'COMPENSATED');
+
+COMMENT ON COLUMN operation_steps.compensation IS 'Compensation step (appended after the regular steps of a failed operation)';
+COMMENT ON COLUMN mpt_issuances.destroyed_at IS 'When the issuance was destroyed by a compensation step (MPTokenIssuanceDestroy)';
@@ -0,0 +1,4 @@
+-- 023_add_step_skipped_status.sql
+-- Authorize steps are skipped when the holder already has the MPToken object
+
+ALTER TYPE step_status ADD VALUE IF NOT EXISTS 'SKIPPED_ALREADY_AUTHORIZED';
@@ -0,0 +1,38 @@
+-- 024_create_operation_events.sql
+-- Operation Events table: Append-only history of operation and step status transitions
+
+CREATE TABLE IF NOT EXISTS operation_events (
+  id BIGSERIAL PRIMARY KEY,
+  operation_id UUID NOT NULL REFERENCES operations(id),
+  step_id UUID REFERENCES operation_steps(id),
+  step_no INTEGER,
+  entity TEXT NOT NULL CHECK (entity IN ('operation', 'step')),
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_operation_events_operation ON operation_events(operation_id, id);
+
+-- History is never rewritten
+CREATE OR REPLACE FUNCTION reject_operation_event_change() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'operation_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_operation_events_append_only
+  BEFORE UPDATE OR DELETE ON operation_events
+  FOR EACH ROW EXECUTE FUNCTION reject_operation_event_change();
+
+COMMENT ON TABLE operation_events IS 'Append-only history of operation and step status transitions';
+COMMENT ON COLUMN operation_events.operation_id IS 'Operation the event belongs to';
+COMMENT ON COLUMN operation_events.step_id IS 'Step (NULL for operation events)';
+COMMENT ON COLUMN operation_events.step_no IS 'Step number (NULL for operation events)';
+COMMENT ON COLUMN operation_events.entity IS 'operation or step';
+COMMENT ON COLUMN operation_events.from_status IS 'Previous status (NULL when the operation was created)';
+COMMENT ON COLUMN operation_events.to_status IS 'New status';
+COMMENT ON COLUMN operation_events.actor IS 'Who made the transition (api, worker, admin, expiry-job, meter-ingestion)';
+COMMENT ON COLUMN operation_events.reason IS 'Error message or error code behind the transition';
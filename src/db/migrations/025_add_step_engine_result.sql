@@ -0,0 +1,9 @@
+-- 025_add_step_engine_result.sql
+-- Engine result of step transactions, for classifying failed operations
+
+ALTER TABLE operation_steps
+  ADD COLUMN IF NOT EXISTS engine_result TEXT;
+
+COMMENT ON COLUMN operation_steps.engine_result IS 'Transaction engine result (validated TransactionResult, or the submit engine_result when not applied)';
+COMMENT ON COLUMN operation_steps.last_error_code IS 'XrplErrorCode of the last failed attempt (the final classification once the step is VALIDATED_FAILED)';
+COMMENT ON COLUMN operations.error_code IS 'XrplErrorCode of the step that failed the operation';
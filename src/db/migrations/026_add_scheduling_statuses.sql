@@ -0,0 +1,6 @@
+-- 026_add_scheduling_statuses.sql
+-- Operation statuses for future-dated operations (separate migration: new enum values
+-- can only be used once committed)
+
+ALTER TYPE operation_status ADD VALUE IF NOT EXISTS 'SCHEDULED';
+ALTER TYPE operation_status ADD VALUE IF NOT EXISTS 'CANCELLED';
@@ -0,0 +1,18 @@
+-- 027_add_operation_execute_at.sql
+-- Scheduled operations are queued by the operation scheduler once execute_at is due
+
+ALTER TABLE operations
+  ADD COLUMN IF NOT EXISTS execute_at TIMESTAMPTZ;
+
+CREATE INDEX idx_operations_scheduled
+  ON operations(execute_at)
+  WHERE status = 'SCHEDULED';
+
+-- Cancelled mints no longer hold their device-hour
+DROP INDEX IF EXISTS idx_operations_mint_device_hour;
+
+CREATE UNIQUE INDEX idx_operations_mint_device_hour
+  ON operations (device_id, production_hour, issuance_revision)
+  WHERE type = 'mint' AND status NOT IN ('FAILED', 'COMPENSATING', 'COMPENSATED', 'CANCELLED');
+
+COMMENT ON COLUMN operations.execute_at IS 'Requested execution time (NULL: execute immediately)';
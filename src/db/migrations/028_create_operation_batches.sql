@@ -0,0 +1,31 @@
+-- 028_create_operation_batches.sql
+-- Operation Batches: Parent records of operations submitted together, one item per operation
+
+CREATE TABLE IF NOT EXISTS operation_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_count INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS batch_items (
+  batch_id UUID NOT NULL REFERENCES operation_batches(id) ON DELETE CASCADE,
+  item_no INTEGER NOT NULL,
+  type operation_type,
+  idempotency_key TEXT,
+  operation_id UUID REFERENCES operations(id),
+  http_status INTEGER NOT NULL,
+  error JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (batch_id, item_no)
+);
+
+CREATE INDEX idx_batch_items_operation ON batch_items(operation_id);
+
+COMMENT ON TABLE operation_batches IS 'Operations submitted together with POST /api/operations/batch';
+COMMENT ON COLUMN operation_batches.item_count IS 'Number of items in the request';
+COMMENT ON TABLE batch_items IS 'Items of a batch (accepted items reference their operation)';
+COMMENT ON COLUMN batch_items.item_no IS '1-based position in the request';
+COMMENT ON COLUMN batch_items.type IS 'Requested operation type (NULL if invalid)';
+COMMENT ON COLUMN batch_items.operation_id IS 'Created or existing (same idempotency key) operation; NULL when rejected';
+COMMENT ON COLUMN batch_items.http_status IS 'Status the single-operation endpoint would have returned for the item';
+COMMENT ON COLUMN batch_items.error IS 'Error response of a rejected item';
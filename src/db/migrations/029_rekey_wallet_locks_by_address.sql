@@ -0,0 +1,23 @@
+-- 029_rekey_wallet_locks_by_address.sql
+-- Wallet locks serialize submissions per signing account across server instances.
+-- Keyed by XRPL address: the issuer signs from ISSUER_SEED and has no wallets row.
+-- The table was unused until now, so it is recreated.
+
+DROP TABLE IF EXISTS wallet_locks;
+
+CREATE TABLE wallet_locks (
+  address TEXT PRIMARY KEY,
+  lock_token UUID NOT NULL,
+  locked_by TEXT NOT NULL,
+  locked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX idx_wallet_locks_expires ON wallet_locks(expires_at);
+
+COMMENT ON TABLE wallet_locks IS 'Per signing account submission locks (expired locks are reclaimed by the next acquirer)';
+COMMENT ON COLUMN wallet_locks.address IS 'Signing account address';
+COMMENT ON COLUMN wallet_locks.lock_token IS 'Token of the current acquisition (only its holder may renew or release it)';
+COMMENT ON COLUMN wallet_locks.locked_by IS 'Process holding the lock (host:pid:id)';
+COMMENT ON COLUMN wallet_locks.locked_at IS 'Lock acquisition timestamp';
+COMMENT ON COLUMN wallet_locks.expires_at IS 'Lock expiration timestamp (renewed while held)';
@@ -0,0 +1,29 @@
+-- 030_create_xrpl_tickets.sql
+-- XRPL Tickets table: Pool of TicketCreate tickets held by the issuer account, so
+-- issuer transactions can be submitted in parallel instead of one sequence at a time
+
+CREATE TYPE xrpl_ticket_status AS ENUM (
+  'AVAILABLE',
+  'RESERVED'
+);
+
+CREATE TABLE IF NOT EXISTS xrpl_tickets (
+  account TEXT NOT NULL,
+  ticket_sequence BIGINT NOT NULL,
+  status xrpl_ticket_status NOT NULL DEFAULT 'AVAILABLE',
+  reserved_by UUID REFERENCES operation_steps(id) ON DELETE SET NULL,
+  reserved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (account, ticket_sequence)
+);
+
+CREATE INDEX idx_xrpl_tickets_available
+  ON xrpl_tickets(account, ticket_sequence)
+  WHERE status = 'AVAILABLE';
+
+COMMENT ON TABLE xrpl_tickets IS 'Tickets held on ledger (synchronized with account_objects; reserved tickets are removed once consumed)';
+COMMENT ON COLUMN xrpl_tickets.account IS 'Ticket owner address';
+COMMENT ON COLUMN xrpl_tickets.ticket_sequence IS 'TicketSequence to use instead of Sequence';
+COMMENT ON COLUMN xrpl_tickets.status IS 'AVAILABLE or RESERVED (assigned to a submitted transaction)';
+COMMENT ON COLUMN xrpl_tickets.reserved_by IS 'Step whose transaction uses the ticket';
+COMMENT ON COLUMN xrpl_tickets.reserved_at IS 'Reservation timestamp (stale reservations of unused tickets are released)';
@@ -0,0 +1,31 @@
+-- 031_create_account_sequences.sql
+-- Account Sequences: Sequence numbers reserved locally per signing account, so several
+-- transactions from one account can be in flight without autofilling the same sequence
+
+CREATE TABLE IF NOT EXISTS account_sequences (
+  address TEXT PRIMARY KEY,
+  next_sequence BIGINT NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS account_sequence_gaps (
+  address TEXT NOT NULL,
+  sequence BIGINT NOT NULL,
+  wallet_id TEXT,
+  released_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (address, sequence)
+);
+
+CREATE INDEX idx_account_sequence_gaps_released ON account_sequence_gaps(released_at);
+
+COMMENT ON TABLE account_sequences IS 'Next sequence number to reserve per signing account (resynchronized from the ledger on tefPAST_SEQ / terPRE_SEQ)';
+COMMENT ON COLUMN account_sequences.address IS 'Signing account address';
+COMMENT ON COLUMN account_sequences.next_sequence IS 'Next sequence number to reserve';
+COMMENT ON COLUMN account_sequences.synced_at IS 'Last resynchronization from the ledger';
+
+COMMENT ON TABLE account_sequence_gaps IS 'Reserved sequences released by failed submissions (reused first, filled with a no-op AccountSet when left unused)';
+COMMENT ON COLUMN account_sequence_gaps.address IS 'Signing account address';
+COMMENT ON COLUMN account_sequence_gaps.sequence IS 'Released sequence number';
+COMMENT ON COLUMN account_sequence_gaps.wallet_id IS 'Signing wallet ID (NULL = issuer)';
+COMMENT ON COLUMN account_sequence_gaps.released_at IS 'Release timestamp';
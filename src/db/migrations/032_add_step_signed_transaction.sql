@@ -0,0 +1,10 @@
+-- 032_add_step_signed_transaction.sql
+-- Signed transaction of a step, stored before it is submitted: after an ambiguous
+-- submission failure the same transaction is looked up or resubmitted, never signed again
+
+ALTER TABLE operation_steps
+  ADD COLUMN IF NOT EXISTS signed_tx_blob TEXT,
+  ADD COLUMN IF NOT EXISTS last_ledger_sequence BIGINT;
+
+COMMENT ON COLUMN operation_steps.signed_tx_blob IS 'Signed transaction blob (kept until the transaction is validated or expires)';
+COMMENT ON COLUMN operation_steps.last_ledger_sequence IS 'LastLedgerSequence of the signed transaction (past it, the transaction can no longer be validated)';
@@ -0,0 +1,27 @@
+-- 033_create_account_sequence_reservations.sql
+-- Account Sequence Reservations: Sequences handed out by the allocator that the ledger has
+-- not consumed yet. A reservation is released (to account_sequence_gaps) only when its
+-- transaction was rejected or has passed its LastLedgerSequence, and is dropped once the
+-- validated account sequence is past it.
+
+CREATE TABLE IF NOT EXISTS account_sequence_reservations (
+  address TEXT NOT NULL,
+  sequence BIGINT NOT NULL,
+  wallet_id TEXT,
+  tx_hash TEXT,
+  last_ledger_sequence BIGINT,
+  reserved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (address, sequence)
+);
+
+CREATE INDEX idx_account_sequence_reservations_reserved ON account_sequence_reservations(reserved_at);
+
+COMMENT ON TABLE account_sequences IS 'Next sequence number to reserve per signing account (raised to the ledger sequence on tefPAST_SEQ / terPRE_SEQ, never lowered)';
+
+COMMENT ON TABLE account_sequence_reservations IS 'Reserved sequences not yet consumed on ledger';
+COMMENT ON COLUMN account_sequence_reservations.address IS 'Signing account address';
+COMMENT ON COLUMN account_sequence_reservations.sequence IS 'Reserved sequence number';
+COMMENT ON COLUMN account_sequence_reservations.wallet_id IS 'Signing wallet ID (NULL = issuer)';
+COMMENT ON COLUMN account_sequence_reservations.tx_hash IS 'Hash of the transaction signed with the sequence (NULL until signed)';
+COMMENT ON COLUMN account_sequence_reservations.last_ledger_sequence IS 'LastLedgerSequence of the signed transaction';
+COMMENT ON COLUMN account_sequence_reservations.reserved_at IS 'Reservation timestamp';
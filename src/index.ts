@@ -2,6 +2,11 @@ import { Pool } from 'pg';
 import { router } from './api/router';
 import { initializeXrplClient } from './xrpl/client';
 import { ValidationPoller } from './jobs/validation-poller';
+import { ExpiryJob } from './jobs/expiry-job';
+import { OperationWorker } from './jobs/operation-worker';
+import { OperationScheduler } from './jobs/operation-scheduler';
+import { TicketRefillJob } from './jobs/ticket-refill-job';
+import { SequenceGapJob } from './jobs/sequence-gap-job';
 import { WalletManager } from './services/wallet-manager';
 import { WalletSecretManager } from './services/wallet-secret-manager';
 import { masterKeyFromHex } from './crypto/encryption';
@@ -25,10 +30,30 @@ const issuerWallet = await walletManager.ensureIssuerWallet();
 
 console.log(`✓ Issuer wallet validated: ${issuerWallet.xrplAddress}`);
 
+// Start operation worker (resumes operations interrupted by a restart)
+const operationWorker = new OperationWorker(pool, secretManager);
+await operationWorker.start();
+
+// Start scheduler queueing future-dated operations when due
+const operationScheduler = new OperationScheduler(pool, 15000); // Every 15 seconds
+operationScheduler.start();
+
+// Start issuer ticket pool refill (parallel issuer submissions)
+const ticketRefillJob = new TicketRefillJob(pool, 30000); // Every 30 seconds
+ticketRefillJob.start();
+
+// Start filler of sequences released by failed submissions
+const sequenceGapJob = new SequenceGapJob(pool, secretManager, 30000); // Every 30 seconds
+sequenceGapJob.start();
+
 // Start background validation job
 const validationPoller = new ValidationPoller(pool, 30000); // Every 30 seconds
 validationPoller.start();
 
+// Start background certificate expiry job
+const expiryJob = new ExpiryJob(pool, 60 * 60 * 1000); // Every hour
+expiryJob.start();
+
 // Start Bun HTTP server
 const server = Bun.serve({
   port: 3005,
@@ -54,9 +79,33 @@ const server = Bun.serve({
 console.log(`🚀 Server running at ${server.url}`);
 console.log(`📡 API endpoints available:`);
 console.log(`  POST   ${server.url}api/operations/mint`);
+console.log(`  POST   ${server.url}api/operations/mint/corrections`);
 console.log(`  POST   ${server.url}api/operations/transfer`);
 console.log(`  POST   ${server.url}api/operations/burn`);
+console.log(`  POST   ${server.url}api/operations/retire`);
+console.log(`  POST   ${server.url}api/operations/batch`);
+console.log(`  GET    ${server.url}api/operations/batch/:batchId`);
+console.log(`  GET    ${server.url}api/operations/scheduled`);
 console.log(`  GET    ${server.url}api/operations/:operationId`);
+console.log(`  GET    ${server.url}api/operations/:operationId/events`);
+console.log(`  POST   ${server.url}api/operations/:operationId/compensate`);
+console.log(`  POST   ${server.url}api/operations/:operationId/cancel`);
 console.log(`  POST   ${server.url}api/wallets`);
 console.log(`  GET    ${server.url}api/wallets/:walletId`);
+console.log(`  GET    ${server.url}api/wallets/:walletId/expiring`);
+console.log(`  GET    ${server.url}api/issuances`);
+console.log(`  GET    ${server.url}api/issuances/:issuanceId`);
+console.log(`  GET    ${server.url}api/issuances/:issuanceId/provenance`);
+console.log(`  GET    ${server.url}api/retirements/:retirementId`);
+console.log(`  POST   ${server.url}api/consumption-sites`);
+console.log(`  GET    ${server.url}api/consumption-sites/:siteId`);
+console.log(`  POST   ${server.url}api/consumption-sites/:siteId/load`);
+console.log(`  POST   ${server.url}api/matching`);
+console.log(`  GET    ${server.url}api/matching/:runId`);
+console.log(`  POST   ${server.url}api/devices`);
+console.log(`  GET    ${server.url}api/devices`);
+console.log(`  GET    ${server.url}api/devices/:deviceId`);
+console.log(`  PATCH  ${server.url}api/devices/:deviceId`);
+console.log(`  DELETE ${server.url}api/devices/:deviceId`);
+console.log(`  POST   ${server.url}api/meter-readings`);
 console.log(`  GET    ${server.url}health`);
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { Pool } from 'pg';
+import { IssuanceService } from '../services/issuance-service';
+import { OperationService, DuplicateOperationError } from '../services/operation-service';
+import { OperationType, OperationStatus } from '../operations/base-operation';
+
+// Reason recorded on clawbacks of expired certificates
+export const EXPIRY_REASON = 'expired';
+
+// Failed clawbacks per holder and issuance before the job gives up
+const MAX_EXPIRY_ATTEMPTS = 3;
+
+/**
+ * Background certificate expiry job
+ * Periodically claws back outstanding holder balances of expired issuances
+ */
+export class ExpiryJob {
+  private intervalId: Timer | null = null;
+  private isRunning = false;
+
+  constructor(
+    private pool: Pool,
+    private intervalMs: number = 60 * 60 * 1000 // Default: 1 hour
+  ) {}
+
+  /**
+   * Start the job
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠ Expiry job is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🔄 Starting expiry job (interval: ${this.intervalMs}ms)`);
+
+    // Execute once immediately
+    this.run().catch(error => {
+      console.error('Initial expiry run error:', error);
+    });
+
+    // Set up periodic execution
+    this.intervalId = setInterval(() => {
+      this.run().catch(error => {
+        console.error('Expiry run error:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the job
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log('⏹ Expiry job stopped');
+  }
+
+  /**
+   * Create clawback operations for holders of expired issuances
+   */
+  private async run(): Promise<void> {
+    try {
+      const issuanceService = new IssuanceService(this.pool);
+      const issuanceIds = await issuanceService.findExpiredIssuances();
+
+      for (const issuanceId of issuanceIds) {
+        const balances = await issuanceService.getHolderBalances(issuanceId);
+
+        for (const [walletId, balance] of balances) {
+          if (balance > 0n) {
+            await this.clawback(issuanceId, walletId, balance);
+          }
+        }
+      }
+
+    } catch (error: any) {
+      console.error('Expiry run error:', error);
+    }
+  }
+
+  /**
+   * Claw back a holder balance unless a clawback is already in flight
+   */
+  private async clawback(issuanceId: string, walletId: string, balance: bigint): Promise<void> {
+    try {
+      // 1. Previous expiry clawbacks of this holder
+      const previous = await this.pool.query(
+        `SELECT status FROM operations
+         WHERE type = $1 AND issuance_id = $2 AND to_wallet_id = $3 AND reason = $4`,
+        [OperationType.BURN, issuanceId, walletId, EXPIRY_REASON]
+      );
+      const statuses: string[] = previous.rows.map((row) => row.status);
+
+      if (statuses.some(status => status === OperationStatus.PENDING || status === OperationStatus.IN_PROGRESS)) {
+        return;
+      }
+      if (statuses.filter(status => status === OperationStatus.FAILED).length >= MAX_EXPIRY_ATTEMPTS) {
+        console.warn(`  ⚠ Expiry clawback of ${walletId} on ${issuanceId} failed ${MAX_EXPIRY_ATTEMPTS} times, skipping`);
+        return;
+      }
+
+      // 2. Create the burn (the attempt number keeps the idempotency key unique per retry)
+      const operationService = new OperationService(this.pool, 'expiry-job');
+      const operation = await operationService.createBurn({
+        idempotencyKey: `expiry:${issuanceId}:${walletId}:${statuses.length + 1}`,
+        holderWalletId: walletId,
+        issuanceId,
+        amount: balance.toString(),
+        reason: EXPIRY_REASON
+      });
+
+      console.log(`  ⏰ Expired ${balance} of ${issuanceId} held by ${walletId} (operation ${operation.operationId})`);
+
+    } catch (error: any) {
+      if (error instanceof DuplicateOperationError) {
+        // Created concurrently by another run
+        return;
+      }
+      console.error(`  Error clawing back ${walletId} on ${issuanceId}:`, error);
+    }
+  }
+}
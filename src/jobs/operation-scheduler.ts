@@ -0,0 +1,166 @@
+import { Pool } from 'pg';
+import { OperationStatus, OperationType } from '../operations/base-operation';
+import { transitionOperation, withTransaction } from '../operations/state-machine';
+import { OperationQueue } from '../services/operation-queue';
+import { PreflightValidator, PreflightViolation } from '../services/preflight-validator';
+
+// Due operations queued per run
+const BATCH_SIZE = 50;
+
+/**
+ * Background operation scheduler
+ * Periodically moves SCHEDULED operations whose execute_at is due to PENDING and
+ * queues them, so they run through the operation worker like any other operation.
+ * The pre-flight checks skipped when they were accepted run first; an operation that
+ * violates them is failed with the violation codes instead of being queued.
+ */
+export class OperationScheduler {
+  private intervalId: Timer | null = null;
+  private isRunning = false;
+
+  constructor(
+    private pool: Pool,
+    private intervalMs: number = 15000 // Default: 15 seconds
+  ) {}
+
+  /**
+   * Start the scheduler
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠ Operation scheduler is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🔄 Starting operation scheduler (interval: ${this.intervalMs}ms)`);
+
+    // Execute once immediately
+    this.run().catch(error => {
+      console.error('Initial scheduler run error:', error);
+    });
+
+    // Set up periodic execution
+    this.intervalId = setInterval(() => {
+      this.run().catch(error => {
+        console.error('Scheduler run error:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log('⏹ Operation scheduler stopped');
+  }
+
+  /**
+   * Queue due scheduled operations, earliest first
+   * The status change and the job are written in one transaction, so an operation
+   * never becomes PENDING without a job. An operation whose pre-flight checks could
+   * not run (e.g. ledger unreachable) stays SCHEDULED for the next run.
+   */
+  private async run(): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT id, type, from_wallet_id, to_wallet_id, issuance_id, amount, execute_at
+       FROM operations
+       WHERE status = $1 AND execute_at <= NOW()
+       ORDER BY execute_at ASC
+       LIMIT $2`,
+      [OperationStatus.SCHEDULED, BATCH_SIZE]
+    );
+
+    for (const row of result.rows) {
+      try {
+        // 1. Pre-flight checks against the current ledger
+        const violations = await this.preflight(row);
+
+        if (violations.length > 0) {
+          const failed = await transitionOperation(
+            this.pool,
+            row.id,
+            OperationStatus.FAILED,
+            { actor: 'scheduler', reason: 'Pre-flight validation failed' },
+            {
+              expected: OperationStatus.SCHEDULED,
+              errorCode: violations.map((violation) => violation.code).join(','),
+              errorMessage: violations.map((violation) => violation.message).join('; ')
+            }
+          );
+
+          if (failed) {
+            console.log(`  ✗ Scheduled operation ${row.id} failed pre-flight checks`);
+          }
+          continue;
+        }
+
+        // 2. Move to PENDING and queue
+        const started = await withTransaction(this.pool, async (client) => {
+          // Conditional: an operation cancelled in the meantime stays CANCELLED
+          const transitioned = await transitionOperation(
+            client,
+            row.id,
+            OperationStatus.PENDING,
+            { actor: 'scheduler', reason: `Scheduled for ${row.execute_at.toISOString()}` },
+            { expected: OperationStatus.SCHEDULED }
+          );
+
+          if (transitioned) {
+            await new OperationQueue(client).enqueue(row.id);
+          }
+          return transitioned;
+        });
+
+        if (started) {
+          console.log(`  ⏰ Scheduled operation ${row.id} is due, queued for execution`);
+        }
+      } catch (error: any) {
+        console.error(`  Error queueing scheduled operation ${row.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run the pre-flight checks of a scheduled operation's type (retirements have none)
+   */
+  private async preflight(row: {
+    type: OperationType;
+    from_wallet_id: string | null;
+    to_wallet_id: string | null;
+    issuance_id: string | null;
+    amount: string;
+  }): Promise<PreflightViolation[]> {
+    const validator = new PreflightValidator(this.pool);
+
+    switch (row.type) {
+      case OperationType.MINT:
+        return validator.validateMint({ userWalletId: row.to_wallet_id! });
+      case OperationType.TRANSFER:
+        return validator.validateTransfer({
+          fromWalletId: row.from_wallet_id!,
+          toWalletId: row.to_wallet_id!,
+          issuanceId: row.issuance_id!,
+          amount: row.amount
+        });
+      case OperationType.BURN:
+        return validator.validateBurn({
+          holderWalletId: row.to_wallet_id!,
+          issuanceId: row.issuance_id!,
+          amount: row.amount
+        });
+      default:
+        return [];
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { Pool } from 'pg';
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { OperationQueue } from '../services/operation-queue';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+import { WalletLockManager } from '../services/wallet-lock-manager';
+import { OperationStatus, ExecutionAbortedError } from '../operations/base-operation';
+import { getStoredOperation, instantiateOperation } from '../operations/registry';
+import { transitionOperation } from '../operations/state-machine';
+
+export interface OperationWorkerOptions {
+  intervalMs?: number;     // Polling interval (default: 1 second)
+  concurrency?: number;    // Operations executed in parallel (default: 4)
+  leaseMs?: number;        // Lease (visibility timeout) per claim (default: 60 seconds)
+  maxAttempts?: number;    // Claims before the operation is failed (default: 5)
+}
+
+// Delay before a job whose attempt threw is claimable again
+const RELEASE_DELAY_MS = 10000;
+
+/**
+ * Background operation worker
+ * Claims queued operations with a lease and executes them; the lease is renewed while
+ * the operation runs, so a crashed worker's operations are picked up once it expires
+ */
+export class OperationWorker {
+  private intervalId: Timer | null = null;
+  private isRunning = false;
+  private active = new Set<string>();
+  private queue: OperationQueue;
+  private workerId = `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+  private intervalMs: number;
+  private concurrency: number;
+  private leaseMs: number;
+  private maxAttempts: number;
+
+  constructor(
+    private pool: Pool,
+    private secretManager: WalletSecretManager,
+    options: OperationWorkerOptions = {}
+  ) {
+    this.queue = new OperationQueue(pool);
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.concurrency = options.concurrency ?? 4;
+    this.leaseMs = options.leaseMs ?? 60000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+  }
+
+  /**
+   * Start the worker
+   * Unfinished operations (e.g. interrupted by a restart) are queued first and
+   * wallet locks left expired by crashed processes are removed.
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('⚠ Operation worker is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🔄 Starting operation worker ${this.workerId} (interval: ${this.intervalMs}ms, concurrency: ${this.concurrency})`);
+
+    const recovered = await this.queue.recoverUnfinished();
+    if (recovered > 0) {
+      console.log(`↻ Queued ${recovered} unfinished operation(s) for resumption`);
+    }
+
+    const reclaimed = await new WalletLockManager(this.pool).reclaimExpired();
+    if (reclaimed > 0) {
+      console.log(`↻ Reclaimed ${reclaimed} expired wallet lock(s)`);
+    }
+
+    // Execute once immediately
+    this.poll().catch(error => {
+      console.error('Initial worker poll error:', error);
+    });
+
+    // Set up periodic execution
+    this.intervalId = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Worker poll error:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the worker (running operations finish; their jobs stay leased until done)
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log('⏹ Operation worker stopped');
+  }
+
+  /**
+   * Claim as many jobs as there are free slots and run them
+   */
+  private async poll(): Promise<void> {
+    const slots = this.concurrency - this.active.size;
+    if (slots <= 0) {
+      return;
+    }
+
+    const operationIds = await this.queue.claim(this.workerId, slots, this.leaseMs);
+
+    for (const operationId of operationIds) {
+      this.active.add(operationId);
+      this.run(operationId)
+        .catch(error => {
+          console.error(`Operation job ${operationId} error:`, error);
+        })
+        .finally(() => {
+          this.active.delete(operationId);
+        });
+    }
+  }
+
+  /**
+   * Execute a claimed operation while renewing its lease
+   * When the lease is lost (another worker may have claimed the job), execution stops
+   * before the next step or submission and the job is abandoned.
+   */
+  private async run(operationId: string): Promise<void> {
+    const lease = new AbortController();
+
+    const heartbeat = setInterval(() => {
+      this.queue.renew(operationId, this.workerId, this.leaseMs)
+        .then(renewed => {
+          if (!renewed && !lease.signal.aborted) {
+            console.warn(`⚠ Lease of operation ${operationId} lost, abandoning the job`);
+            lease.abort();
+          }
+        })
+        .catch(error => {
+          console.error(`Lease renewal error (${operationId}):`, error);
+        });
+    }, Math.floor(this.leaseMs / 3));
+
+    try {
+      // 1. Load operation (finished and not yet due operations only need their job closed)
+      const stored = await getStoredOperation(this.pool, operationId);
+
+      if (
+        !stored ||
+        stored.status === OperationStatus.SUCCESS ||
+        stored.status === OperationStatus.FAILED ||
+        stored.status === OperationStatus.COMPENSATED ||
+        stored.status === OperationStatus.CANCELLED ||
+        stored.status === OperationStatus.SCHEDULED
+      ) {
+        await this.queue.complete(operationId, this.workerId);
+        return;
+      }
+
+      // 2. Execute from the last incomplete step
+      const operation = await instantiateOperation(this.pool, stored, this.secretManager);
+      const outcome = await operation.execute(lease.signal);
+
+      if (lease.signal.aborted) {
+        return; // The job belongs to another worker now
+      }
+
+      // 3. A step waiting for a retry is picked up again once its backoff elapses
+      if (outcome.retryAt) {
+        await this.queue.reschedule(operationId, this.workerId, outcome.retryAt.getTime() - Date.now());
+        return;
+      }
+
+      // A step awaiting validation is handed to the validation poller, which queues the job again
+      await this.queue.complete(operationId, this.workerId);
+
+    } catch (error: any) {
+      if (error instanceof ExecutionAbortedError || lease.signal.aborted) {
+        console.log(`  ↷ ${error.message}`);
+        return;
+      }
+
+      // 4. Unexpected error (e.g. database unavailable): retry later, up to the attempt limit
+      const attempts = await this.pool.query(
+        'SELECT attempts FROM operation_jobs WHERE operation_id = $1',
+        [operationId]
+      );
+
+      if ((attempts.rows[0]?.attempts ?? 0) >= this.maxAttempts) {
+        const errorMessage = `Execution failed after ${this.maxAttempts} attempts: ${error.message}`;
+        await transitionOperation(
+          this.pool,
+          operationId,
+          OperationStatus.FAILED,
+          { actor: 'worker', reason: errorMessage },
+          { errorMessage }
+        );
+        await this.queue.complete(operationId, this.workerId);
+      } else {
+        await this.queue.release(operationId, this.workerId, error.message, RELEASE_DELAY_MS);
+      }
+      throw error;
+
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
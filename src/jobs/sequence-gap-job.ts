@@ -0,0 +1,79 @@
+import { Pool } from 'pg';
+import { SequenceAllocator } from '../services/sequence-allocator';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+
+/**
+ * Background sequence gap filler job
+ * Periodically settles reserved sequences against the validated ledger, then fills
+ * sequences released by failed or expired submissions that were not reused, so later
+ * transactions of the account are not held back (terPRE_SEQ)
+ */
+export class SequenceGapJob {
+  private intervalId: Timer | null = null;
+  private isRunning = false;
+  private sequences: SequenceAllocator;
+
+  constructor(
+    private pool: Pool,
+    private secretManager: WalletSecretManager,
+    private intervalMs: number = 30000 // Default: 30 seconds
+  ) {
+    this.sequences = new SequenceAllocator(pool);
+  }
+
+  /**
+   * Start the job
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠ Sequence gap job is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🔄 Starting sequence gap job (interval: ${this.intervalMs}ms)`);
+
+    // Execute once immediately
+    this.run().catch(error => {
+      console.error('Initial sequence gap run error:', error);
+    });
+
+    // Set up periodic execution
+    this.intervalId = setInterval(() => {
+      this.run().catch(error => {
+        console.error('Sequence gap run error:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the job
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log('⏹ Sequence gap job stopped');
+  }
+
+  private async run(): Promise<void> {
+    const released = await this.sequences.settle();
+
+    if (released > 0) {
+      console.log(`  ⛓ Released ${released} sequence(s) of expired or abandoned transactions`);
+    }
+
+    const filled = await this.sequences.fillStaleGaps(this.secretManager);
+
+    if (filled > 0) {
+      console.log(`  ⛓ Filled ${filled} released sequence(s) with no-op AccountSet`);
+    }
+  }
+}
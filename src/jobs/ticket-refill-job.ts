@@ -0,0 +1,70 @@
+import { Pool } from 'pg';
+import { TicketPool } from '../services/ticket-pool';
+
+/**
+ * Background issuer ticket refill job
+ * Periodically synchronizes the issuer ticket pool with the ledger and tops it up
+ * when it drops below the low-water mark
+ */
+export class TicketRefillJob {
+  private intervalId: Timer | null = null;
+  private isRunning = false;
+  private tickets: TicketPool;
+
+  constructor(
+    private pool: Pool,
+    private intervalMs: number = 30000 // Default: 30 seconds
+  ) {
+    this.tickets = new TicketPool(pool);
+  }
+
+  /**
+   * Start the job
+   */
+  start(): void {
+    if (this.isRunning) {
+      console.log('⚠ Ticket refill job is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`🔄 Starting ticket refill job (interval: ${this.intervalMs}ms)`);
+
+    // Execute once immediately
+    this.run().catch(error => {
+      console.error('Initial ticket refill error:', error);
+    });
+
+    // Set up periodic execution
+    this.intervalId = setInterval(() => {
+      this.run().catch(error => {
+        console.error('Ticket refill error:', error);
+      });
+    }, this.intervalMs);
+  }
+
+  /**
+   * Stop the job
+   */
+  stop(): void {
+    if (!this.isRunning) {
+      return;
+    }
+
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+
+    this.isRunning = false;
+    console.log('⏹ Ticket refill job stopped');
+  }
+
+  private async run(): Promise<void> {
+    const created = await this.tickets.refill();
+
+    if (created > 0) {
+      console.log(`  🎫 Created ${created} issuer ticket(s)`);
+    }
+  }
+}
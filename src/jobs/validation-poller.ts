@@ -1,19 +1,30 @@
 import { Pool } from 'pg';
-import { waitForValidation, ValidationStatus } from '../xrpl/validation';
+import { checkValidation, ValidationStatus, ValidationResult } from '../xrpl/validation';
+import { XrplErrorCode, parseXrplError } from '../xrpl/errors';
 import { StepStatus } from '../operations/base-operation';
+import { transitionStep } from '../operations/state-machine';
+import { getOperationDefinition, getStoredOperation } from '../operations/registry';
+import { OperationQueue, OperationJobStatus } from '../services/operation-queue';
+
+// Actor recorded with the transitions made by the poller
+const POLLER_ACTOR = 'validation-poller';
 
 /**
  * Background validation poller
- * Periodically checks steps with PENDING_VALIDATION status and waits for validation completion
+ * Periodically looks up the transactions of PENDING_VALIDATION steps, records the
+ * validated result (or fails a step whose transaction has expired) and resumes the operation
  */
 export class ValidationPoller {
   private intervalId: Timer | null = null;
   private isRunning = false;
+  private queue: OperationQueue;
 
   constructor(
     private pool: Pool,
     private intervalMs: number = 30000 // Default: 30 seconds
-  ) {}
+  ) {
+    this.queue = new OperationQueue(pool);
+  }
 
   /**
    * Start the poller
@@ -59,17 +70,23 @@ export class ValidationPoller {
 
   /**
    * Check PENDING_VALIDATION steps and attempt validation
+   * Steps of operations still queued or executing are left to the worker.
    */
   private async poll(): Promise<void> {
     try {
       // Get steps with PENDING_VALIDATION status
       const result = await this.pool.query(
-        `SELECT id, operation_id, step_no, tx_hash, last_checked_at
-         FROM operation_steps
-         WHERE status = $1 AND tx_hash IS NOT NULL
-         ORDER BY last_checked_at ASC NULLS FIRST
+        `SELECT s.id, s.operation_id, s.step_no, s.kind, s.tx_hash, s.last_ledger_sequence,
+                s.last_checked_at
+         FROM operation_steps s
+         WHERE s.status = $1 AND s.tx_hash IS NOT NULL
+           AND NOT EXISTS (
+             SELECT 1 FROM operation_jobs j
+             WHERE j.operation_id = s.operation_id AND j.status <> $2
+           )
+         ORDER BY s.last_checked_at ASC NULLS FIRST
          LIMIT 10`,
-        [StepStatus.PENDING_VALIDATION]
+        [StepStatus.PENDING_VALIDATION, OperationJobStatus.DONE]
       );
 
       const steps = result.rows;
@@ -92,64 +109,21 @@ export class ValidationPoller {
   }
 
   /**
-   * Validate individual step
+   * Look up the transaction of a step once and record the result
+   * A validated step is marked VALIDATED_SUCCESS (after its onValidated hook) or
+   * VALIDATED_FAILED; a step whose transaction is past its LastLedgerSequence is failed.
+   * The operation is then queued again, so the worker continues with the next step
+   * or fails the operation.
    */
   private async checkStep(step: any): Promise<void> {
     try {
       console.log(`  Checking step ${step.step_no} (tx: ${step.tx_hash})...`);
 
-      // Wait for transaction validation (timeout: 0 = return result immediately)
-      const validationResult = await waitForValidation(step.tx_hash, 0, 0);
-
-      // Update step based on validation result
-      if (validationResult.status === ValidationStatus.SUCCESS) {
-        await this.pool.query(
-          `UPDATE operation_steps
-           SET status = $1,
-               validated_result = $2,
-               last_checked_at = NOW(),
-               updated_at = NOW()
-           WHERE id = $3`,
-          [
-            StepStatus.VALIDATED_SUCCESS,
-            JSON.stringify(validationResult.details),
-            step.id
-          ]
-        );
-
-        console.log(`  ✓ Step ${step.step_no} validated successfully`);
-
-        // May also need to update operation status
-        await this.updateOperationStatusIfNeeded(step.operation_id);
+      // 1. Single lookup (a step submitted before LastLedgerSequence was stored never expires)
+      const lastLedgerSequence = step.last_ledger_sequence != null ? Number(step.last_ledger_sequence) : null;
+      const validationResult = await checkValidation(step.tx_hash, lastLedgerSequence);
 
-      } else if (validationResult.status === ValidationStatus.FAILED) {
-        await this.pool.query(
-          `UPDATE operation_steps
-           SET status = $1,
-               validated_result = $2,
-               last_checked_at = NOW(),
-               updated_at = NOW()
-           WHERE id = $3`,
-          [
-            StepStatus.VALIDATED_FAILED,
-            JSON.stringify(validationResult.details),
-            step.id
-          ]
-        );
-
-        console.log(`  ✗ Step ${step.step_no} validation failed`);
-
-        // Mark operation as failed
-        await this.pool.query(
-          `UPDATE operations
-           SET status = 'FAILED',
-               error_message = $1,
-               updated_at = NOW()
-           WHERE id = $2`,
-          [`Step ${step.step_no} validation failed`, step.operation_id]
-        );
-
-      } else {
+      if (validationResult.status === ValidationStatus.PENDING) {
         // If not yet validated, only update last_checked_at
         await this.pool.query(
           `UPDATE operation_steps
@@ -159,45 +133,83 @@ export class ValidationPoller {
         );
 
         console.log(`  ⏳ Step ${step.step_no} still pending validation`);
+        return;
       }
 
+      // 2. Record the result
+      if (validationResult.status === ValidationStatus.SUCCESS) {
+        await this.runOnValidated(step, validationResult);
+        await transitionStep(
+          this.pool,
+          step.id,
+          StepStatus.VALIDATED_SUCCESS,
+          { actor: POLLER_ACTOR },
+          {
+            validated_result: JSON.stringify(validationResult.details),
+            engine_result: validationResult.transactionResult,
+            last_checked_at: new Date()
+          }
+        );
+      } else if (validationResult.status === ValidationStatus.FAILED) {
+        await transitionStep(
+          this.pool,
+          step.id,
+          StepStatus.VALIDATED_FAILED,
+          { actor: POLLER_ACTOR, reason: validationResult.transactionResult },
+          {
+            validated_result: JSON.stringify(validationResult.details),
+            engine_result: validationResult.transactionResult,
+            last_error_code: parseXrplError({ data: { error: validationResult.transactionResult } }).code,
+            last_checked_at: new Date()
+          }
+        );
+      } else {
+        // EXPIRED: the transaction can no longer be included in a ledger
+        await transitionStep(
+          this.pool,
+          step.id,
+          StepStatus.VALIDATED_FAILED,
+          {
+            actor: POLLER_ACTOR,
+            reason: `Not validated by LastLedgerSequence ${lastLedgerSequence} (validated ledger ${validationResult.ledgerIndex})`
+          },
+          { last_error_code: XrplErrorCode.TIMEOUT, last_checked_at: new Date() }
+        );
+      }
+
+      // 3. Resume the operation
+      await this.queue.enqueue(step.operation_id);
+
+      console.log(
+        `  ${validationResult.status === ValidationStatus.SUCCESS ? '✓' : '✗'} Step ${step.step_no} ${validationResult.status} (${validationResult.transactionResult ?? `LastLedgerSequence ${lastLedgerSequence}`}), operation ${step.operation_id} queued`
+      );
+
     } catch (error: any) {
       console.error(`  Error checking step ${step.step_no}:`, error);
     }
   }
 
   /**
-   * Check if all steps of an operation are complete and update status if needed
+   * Run the onValidated hook of a step's executor (e.g. recording the mint's issuance ID)
+   * A failing hook leaves the step PENDING_VALIDATION; it is run again on the next poll.
    */
-  private async updateOperationStatusIfNeeded(operationId: string): Promise<void> {
-    try {
-      // Get all steps
-      const result = await this.pool.query(
-        `SELECT status FROM operation_steps WHERE operation_id = $1`,
-        [operationId]
-      );
+  private async runOnValidated(step: any, validationResult: ValidationResult): Promise<void> {
+    const operation = await getStoredOperation(this.pool, step.operation_id);
 
-      const steps = result.rows;
-
-      // If all steps are VALIDATED_SUCCESS
-      const allSuccess = steps.every(
-        step => step.status === StepStatus.VALIDATED_SUCCESS
-      );
-
-      if (allSuccess) {
-        await this.pool.query(
-          `UPDATE operations
-           SET status = 'SUCCESS',
-               updated_at = NOW()
-           WHERE id = $1`,
-          [operationId]
-        );
+    if (!operation) {
+      throw new Error(`Operation not found: ${step.operation_id}`);
+    }
 
-        console.log(`  ✓ Operation ${operationId} completed successfully`);
-      }
+    const definition = getOperationDefinition(operation.type);
+    const executor = [...definition.steps, ...(definition.compensations ?? [])]
+      .find((e) => e.kind === step.kind);
 
-    } catch (error: any) {
-      console.error('Error updating operation status:', error);
+    if (executor?.onValidated) {
+      const params = await definition.loadParams(this.pool, operation);
+      await executor.onValidated(
+        { pool: this.pool, operationId: operation.id, params },
+        validationResult.details
+      );
     }
   }
 
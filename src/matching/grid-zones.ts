@@ -0,0 +1,110 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+export interface GridZone {
+  id: string;
+  name: string;
+  area: string;              // Reporting label (e.g. 'TEPCO area')
+  country: string;           // ISO 3166-1 alpha-2
+  interconnections: string[]; // Directly interconnected zone IDs
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export type ZoneRelation = 'same' | 'interconnected' | 'other' | 'unknown';
+
+/**
+ * Grid zone taxonomy
+ * Loaded from configurable data (GRID_ZONES_PATH, default: grid-zones.json)
+ */
+export class GridZoneTaxonomy {
+  private zones: Map<string, GridZone>;
+
+  constructor(zones: GridZone[]) {
+    this.zones = new Map(zones.map(zone => [zone.id, zone]));
+  }
+
+  /**
+   * Get zone by ID
+   * @param zoneId Zone ID
+   * @returns Zone (undefined if not configured)
+   */
+  getZone(zoneId: string): GridZone | undefined {
+    return this.zones.get(zoneId);
+  }
+
+  /**
+   * Get all configured zones
+   */
+  listZones(): GridZone[] {
+    return [...this.zones.values()];
+  }
+
+  /**
+   * Relation between two zones (interconnections are treated as symmetric)
+   */
+  relation(zoneA: string | undefined, zoneB: string | undefined): ZoneRelation {
+    return zoneRelation(this.listZones(), zoneA, zoneB);
+  }
+}
+
+/**
+ * Relation between two zones within a zone list
+ * @param zones Zone list (e.g. snapshot stored with a matching run)
+ * @returns same / interconnected / other / unknown
+ */
+export function zoneRelation(
+  zones: GridZone[],
+  zoneA: string | undefined,
+  zoneB: string | undefined
+): ZoneRelation {
+  if (!zoneA || !zoneB) {
+    return 'unknown';
+  }
+  if (zoneA === zoneB) {
+    return 'same';
+  }
+
+  const a = zones.find(zone => zone.id === zoneA);
+  const b = zones.find(zone => zone.id === zoneB);
+
+  if (a?.interconnections.includes(zoneB) || b?.interconnections.includes(zoneA)) {
+    return 'interconnected';
+  }
+
+  return a && b ? 'other' : 'unknown';
+}
+
+/**
+ * Great-circle distance between two coordinates (haversine)
+ * @returns Distance in km
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const EARTH_RADIUS_KM = 6371;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+let taxonomy: GridZoneTaxonomy | null = null;
+
+/**
+ * Get grid zone taxonomy (loaded once)
+ */
+export function getGridZoneTaxonomy(): GridZoneTaxonomy {
+  if (!taxonomy) {
+    const path = process.env.GRID_ZONES_PATH || join(import.meta.dir, 'grid-zones.json');
+    const data = JSON.parse(readFileSync(path, 'utf-8'));
+    taxonomy = new GridZoneTaxonomy(data.zones);
+  }
+  return taxonomy;
+}
@@ -0,0 +1,32 @@
+// Matching export
+export {
+  runTimeMatching,
+  normalizeHour,
+  type SupplySource,
+  type GeoMode,
+  type GeoOptions,
+  type MatchingOptions,
+  type ZoneSummary,
+  type CertificateSupply,
+  type HourlyLoad,
+  type Allocation,
+  type HourlyMatch,
+  type PeriodSummary,
+  type MatchingResult
+} from './time-matching';
+
+export {
+  parseLoadProfile,
+  type LoadProfileError,
+  type ParsedLoadProfile
+} from './load-profile';
+
+export {
+  GridZoneTaxonomy,
+  getGridZoneTaxonomy,
+  zoneRelation,
+  distanceKm,
+  type GridZone,
+  type Coordinates,
+  type ZoneRelation
+} from './grid-zones';
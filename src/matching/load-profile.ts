@@ -0,0 +1,93 @@
+import { HourlyLoad } from './time-matching';
+
+export interface LoadProfileError {
+  row: number;  // 1-based data row (CSV header excluded, JSON array index + 1)
+  message: string;
+}
+
+export interface ParsedLoadProfile {
+  loads: HourlyLoad[];
+  errors: LoadProfileError[];
+}
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse an hourly load profile upload
+ *
+ * JSON: { "readings": [{ "hourStart": "2026-01-05T07:00:00Z", "kwh": 120.5 }] }
+ * CSV:  hour_start,kwh (header row required)
+ *
+ * @param body Request body
+ * @param contentType Content-Type header
+ * @returns Parsed hourly loads and row-level errors
+ */
+export function parseLoadProfile(body: string, contentType: string): ParsedLoadProfile {
+  const rows = contentType.includes('text/csv')
+    ? parseCsvRows(body)
+    : parseJsonRows(body);
+
+  const loads: HourlyLoad[] = [];
+  const errors: LoadProfileError[] = [];
+  const seenHours = new Set<string>();
+
+  rows.forEach(({ hourStart, kwh }, index) => {
+    const row = index + 1;
+    const time = typeof hourStart === 'string' ? Date.parse(hourStart) : NaN;
+    const value = typeof kwh === 'number' ? kwh : Number(kwh);
+
+    if (Number.isNaN(time)) {
+      errors.push({ row, message: 'hourStart must be an ISO 8601 timestamp' });
+      return;
+    }
+    if (time % ONE_HOUR_MS !== 0) {
+      errors.push({ row, message: 'hourStart must be aligned to the start of an hour' });
+      return;
+    }
+    if (kwh === '' || kwh === null || kwh === undefined || !Number.isFinite(value) || value < 0) {
+      errors.push({ row, message: 'kwh must be a non-negative number' });
+      return;
+    }
+
+    const normalized = new Date(time).toISOString();
+    if (seenHours.has(normalized)) {
+      errors.push({ row, message: `Duplicate hour: ${normalized}` });
+      return;
+    }
+    seenHours.add(normalized);
+
+    loads.push({ hourStart: normalized, kwh: value });
+  });
+
+  return { loads, errors };
+}
+
+function parseJsonRows(body: string): { hourStart: unknown; kwh: unknown }[] {
+  const parsed = JSON.parse(body);
+  const readings = Array.isArray(parsed) ? parsed : parsed?.readings;
+
+  if (!Array.isArray(readings)) {
+    throw new Error('JSON load profile must be an array or { readings: [...] }');
+  }
+
+  return readings.map((reading: any) => ({
+    hourStart: reading?.hourStart,
+    kwh: reading?.kwh
+  }));
+}
+
+function parseCsvRows(body: string): { hourStart: unknown; kwh: unknown }[] {
+  const lines = body.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = (lines.shift() ?? '').split(',').map(column => column.trim().toLowerCase());
+  const hourIndex = header.indexOf('hour_start');
+  const kwhIndex = header.indexOf('kwh');
+
+  if (hourIndex === -1 || kwhIndex === -1) {
+    throw new Error('CSV load profile must have a header row with hour_start,kwh');
+  }
+
+  return lines.map(line => {
+    const columns = line.split(',').map(column => column.trim());
+    return { hourStart: columns[hourIndex], kwh: columns[kwhIndex] };
+  });
+}
@@ -0,0 +1,314 @@
+/**
+ * Hourly (24/7) time-matching engine
+ * Allocates GCs to consumption hours by their production hour.
+ * Pure and deterministic: the same inputs always produce the same result.
+ */
+
+import { GridZone, Coordinates, ZoneRelation, zoneRelation, distanceKm } from './grid-zones';
+
+export type SupplySource = 'held' | 'retired';
+
+/**
+ * Geographic matching mode
+ * - any: no zone restriction
+ * - same_zone: only GCs from the site's grid zone
+ * - interconnected: GCs from the site's zone or a directly interconnected zone
+ */
+export type GeoMode = 'any' | 'same_zone' | 'interconnected';
+
+export interface CertificateSupply {
+  issuanceId: string;
+  source: SupplySource;
+  productionStart: string;  // Production hour start (ISO 8601, UTC)
+  availableKwh: number;     // kWh available for matching
+  gridZone?: string;        // Generation grid zone
+  location?: Coordinates;   // Generation device coordinates
+}
+
+export interface HourlyLoad {
+  hourStart: string;  // Consumption hour start (ISO 8601, UTC)
+  kwh: number;
+}
+
+export interface Allocation {
+  issuanceId: string;
+  source: SupplySource;
+  kwh: number;
+  gridZone?: string;
+  distanceKm?: number | null;      // null if either side has no coordinates
+  proximityScore?: number | null;  // 0-1 (1 = co-located), null if unknown
+}
+
+export interface GeoOptions {
+  mode: GeoMode;
+  siteZone?: string;
+  siteLocation?: Coordinates;
+  zones: GridZone[];  // Zone taxonomy snapshot
+}
+
+export interface MatchingOptions {
+  geo?: GeoOptions;
+}
+
+export interface ZoneSummary {
+  zone: string;        // Zone ID ('unknown' if the GC has no zone)
+  name: string | null;
+  area: string | null; // Reporting area (e.g. 'TEPCO area')
+  matchedKwh: number;
+}
+
+export interface HourlyMatch {
+  hourStart: string;
+  loadKwh: number;
+  matchedKwh: number;
+  unmatchedKwh: number;
+  cfePercent: number;
+  allocations: Allocation[];
+}
+
+export interface PeriodSummary {
+  period: string;  // 'YYYY-MM-DD', 'YYYY' or 'total'
+  loadKwh: number;
+  matchedKwh: number;
+  unmatchedKwh: number;
+  cfePercent: number;
+}
+
+export interface MatchingResult {
+  hourly: HourlyMatch[];
+  daily: PeriodSummary[];
+  yearly: PeriodSummary[];
+  total: PeriodSummary;
+  byZone?: ZoneSummary[];  // Only present when geo options are given
+}
+
+// Retired GCs are already claimed for consumption, so they are allocated first
+const SOURCE_PRIORITY: Record<SupplySource, number> = {
+  retired: 0,
+  held: 1
+};
+
+// Proximity score by zone relation when coordinates are not available
+const RELATION_SCORE: Record<ZoneRelation, number | null> = {
+  same: 1,
+  interconnected: 0.5,
+  other: 0,
+  unknown: null
+};
+
+// Distance at which the proximity score halves
+const HALF_SCORE_DISTANCE_KM = 100;
+
+/**
+ * Match certificate supply against hourly load
+ * @param supply Certificates available for matching
+ * @param load Hourly load profile
+ * @param options Geographic restriction and scoring (optional)
+ * @returns Hourly allocations and daily/yearly/total summaries
+ */
+export function runTimeMatching(
+  supply: CertificateSupply[],
+  load: HourlyLoad[],
+  options: MatchingOptions = {}
+): MatchingResult {
+  const geo = options.geo;
+
+  // 1. Group eligible supply by production hour (amounts in Wh to avoid float drift)
+  const supplyByHour = new Map<string, { certificate: CertificateSupply; remainingWh: number }[]>();
+
+  for (const certificate of sortSupply(supply, geo)) {
+    if (geo && !isEligible(certificate, geo)) continue;
+
+    const hour = normalizeHour(certificate.productionStart);
+    const entries = supplyByHour.get(hour) ?? [];
+    entries.push({ certificate, remainingWh: toWh(certificate.availableKwh) });
+    supplyByHour.set(hour, entries);
+  }
+
+  // 2. Allocate per consumption hour
+  const hourly: HourlyMatch[] = [];
+
+  for (const entry of [...load].sort((a, b) => compare(normalizeHour(a.hourStart), normalizeHour(b.hourStart)))) {
+    const hourStart = normalizeHour(entry.hourStart);
+    const loadWh = toWh(entry.kwh);
+    let unmatchedWh = loadWh;
+    const allocations: Allocation[] = [];
+
+    for (const candidate of supplyByHour.get(hourStart) ?? []) {
+      if (unmatchedWh === 0) break;
+      if (candidate.remainingWh === 0) continue;
+
+      const allocatedWh = Math.min(unmatchedWh, candidate.remainingWh);
+      candidate.remainingWh -= allocatedWh;
+      unmatchedWh -= allocatedWh;
+
+      allocations.push({
+        issuanceId: candidate.certificate.issuanceId,
+        source: candidate.certificate.source,
+        kwh: toKwh(allocatedWh),
+        ...(geo ? proximity(candidate.certificate, geo) : {})
+      });
+    }
+
+    hourly.push({
+      hourStart,
+      loadKwh: toKwh(loadWh),
+      matchedKwh: toKwh(loadWh - unmatchedWh),
+      unmatchedKwh: toKwh(unmatchedWh),
+      cfePercent: cfePercent(loadWh - unmatchedWh, loadWh),
+      allocations
+    });
+  }
+
+  // 3. Aggregate per day, year and overall (and per zone with geo options)
+  const result: MatchingResult = {
+    hourly,
+    daily: summarize(hourly, (hour) => hour.slice(0, 10)),
+    yearly: summarize(hourly, (hour) => hour.slice(0, 4)),
+    total: summarize(hourly, () => 'total')[0] ?? emptySummary('total')
+  };
+
+  if (geo) {
+    result.byZone = summarizeByZone(hourly, geo.zones);
+  }
+
+  return result;
+}
+
+/**
+ * Check a GC against the geographic matching mode
+ */
+function isEligible(certificate: CertificateSupply, geo: GeoOptions): boolean {
+  const relation = zoneRelation(geo.zones, geo.siteZone, certificate.gridZone);
+
+  switch (geo.mode) {
+    case 'same_zone':
+      return relation === 'same';
+    case 'interconnected':
+      return relation === 'same' || relation === 'interconnected';
+    default:
+      return true;
+  }
+}
+
+/**
+ * Transmission distance and proximity score of a GC relative to the site
+ * Coordinates take precedence; otherwise the zone relation is used.
+ */
+function proximity(
+  certificate: CertificateSupply,
+  geo: GeoOptions
+): Pick<Allocation, 'gridZone' | 'distanceKm' | 'proximityScore'> {
+  if (certificate.location && geo.siteLocation) {
+    const distance = distanceKm(certificate.location, geo.siteLocation);
+    return {
+      gridZone: certificate.gridZone,
+      distanceKm: round(distance, 1),
+      proximityScore: round(1 / (1 + distance / HALF_SCORE_DISTANCE_KM), 4)
+    };
+  }
+
+  return {
+    gridZone: certificate.gridZone,
+    distanceKm: null,
+    proximityScore: RELATION_SCORE[zoneRelation(geo.zones, geo.siteZone, certificate.gridZone)]
+  };
+}
+
+/**
+ * Aggregate matched energy per generation zone
+ */
+function summarizeByZone(hourly: HourlyMatch[], zones: GridZone[]): ZoneSummary[] {
+  const totals = new Map<string, number>();
+
+  for (const hour of hourly) {
+    for (const allocation of hour.allocations) {
+      const zone = allocation.gridZone ?? 'unknown';
+      totals.set(zone, (totals.get(zone) ?? 0) + toWh(allocation.kwh));
+    }
+  }
+
+  return [...totals.keys()].sort(compare).map((zoneId) => {
+    const zone = zones.find(z => z.id === zoneId);
+    return {
+      zone: zoneId,
+      name: zone?.name ?? null,
+      area: zone?.area ?? null,
+      matchedKwh: toKwh(totals.get(zoneId)!)
+    };
+  });
+}
+
+/**
+ * Aggregate hourly matches into periods
+ */
+function summarize(
+  hourly: HourlyMatch[],
+  periodOf: (hourStart: string) => string
+): PeriodSummary[] {
+  const totals = new Map<string, { loadWh: number; matchedWh: number }>();
+
+  for (const hour of hourly) {
+    const period = periodOf(hour.hourStart);
+    const total = totals.get(period) ?? { loadWh: 0, matchedWh: 0 };
+    total.loadWh += toWh(hour.loadKwh);
+    total.matchedWh += toWh(hour.matchedKwh);
+    totals.set(period, total);
+  }
+
+  return [...totals.entries()].map(([period, total]) => ({
+    period,
+    loadKwh: toKwh(total.loadWh),
+    matchedKwh: toKwh(total.matchedWh),
+    unmatchedKwh: toKwh(total.loadWh - total.matchedWh),
+    cfePercent: cfePercent(total.matchedWh, total.loadWh)
+  }));
+}
+
+function emptySummary(period: string): PeriodSummary {
+  return { period, loadKwh: 0, matchedKwh: 0, unmatchedKwh: 0, cfePercent: 0 };
+}
+
+/**
+ * Deterministic allocation order: source priority, then proximity (with geo options), then issuance ID
+ */
+function sortSupply(supply: CertificateSupply[], geo?: GeoOptions): CertificateSupply[] {
+  const score = (certificate: CertificateSupply) =>
+    geo ? proximity(certificate, geo).proximityScore ?? -1 : 0;
+
+  return [...supply].sort(
+    (a, b) =>
+      SOURCE_PRIORITY[a.source] - SOURCE_PRIORITY[b.source] ||
+      score(b) - score(a) ||
+      compare(a.issuanceId, b.issuanceId)
+  );
+}
+
+/**
+ * Normalize timestamp to 'YYYY-MM-DDTHH:00:00Z'
+ */
+export function normalizeHour(timestamp: string): string {
+  return new Date(timestamp).toISOString().slice(0, 13) + ':00:00Z';
+}
+
+function cfePercent(matchedWh: number, loadWh: number): number {
+  if (loadWh === 0) return 0;
+  return Math.round((matchedWh / loadWh) * 10000) / 100;
+}
+
+function toWh(kwh: number): number {
+  return Math.round(kwh * 1000);
+}
+
+function toKwh(wh: number): number {
+  return wh / 1000;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
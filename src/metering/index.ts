@@ -0,0 +1,13 @@
+// Metering export
+export {
+  INTERVAL_MINUTES,
+  parseMeterReadings,
+  aggregateHourly,
+  toMintAmount,
+  type IntervalMinutes,
+  type MeterReading,
+  type MeterReadingError,
+  type ParsedMeterReadings,
+  type HourCoverage,
+  type HourlyProduction
+} from './meter-readings';
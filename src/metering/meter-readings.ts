@@ -0,0 +1,220 @@
+/**
+ * Interval meter readings
+ * Parses 15/30/60-minute production readings and aggregates them into production hours
+ */
+
+export const INTERVAL_MINUTES = [15, 30, 60] as const;
+
+export type IntervalMinutes = typeof INTERVAL_MINUTES[number];
+
+export interface MeterReading {
+  row: number;              // 1-based data row (0 for readings loaded from storage)
+  deviceId: string;
+  intervalStart: string;    // Interval start (ISO 8601, UTC)
+  intervalMinutes: IntervalMinutes;
+  kwh: number;
+}
+
+export interface MeterReadingError {
+  row: number;  // 1-based data row (CSV header excluded, JSON array index + 1)
+  message: string;
+}
+
+export interface ParsedMeterReadings {
+  readings: MeterReading[];
+  errors: MeterReadingError[];
+}
+
+export type HourCoverage = 'complete' | 'incomplete' | 'overlapping';
+
+export interface HourlyProduction {
+  deviceId: string;
+  hourStart: string;         // 'YYYY-MM-DDTHH:00:00Z'
+  kwh: number;               // Total of the hour's intervals
+  coveredMinutes: number;
+  coverage: HourCoverage;
+  readings: MeterReading[];
+}
+
+const ONE_MINUTE_MS = 60 * 1000;
+const ONE_HOUR_MS = 60 * ONE_MINUTE_MS;
+
+/**
+ * Parse an interval meter reading upload
+ *
+ * JSON: { "deviceId": "device-001", "readings": [{ "intervalStart": "2026-01-05T07:00:00Z", "intervalMinutes": 15, "kwh": 120.5 }] }
+ * CSV:  device_id,interval_start,interval_minutes,kwh (header row required; device_id optional with a default device)
+ *
+ * @param body Request body
+ * @param contentType Content-Type header
+ * @param defaultDeviceId Device ID for rows without one
+ * @returns Parsed readings and row-level errors
+ */
+export function parseMeterReadings(
+  body: string,
+  contentType: string,
+  defaultDeviceId?: string
+): ParsedMeterReadings {
+  const parsed = contentType.includes('text/csv')
+    ? parseCsvRows(body)
+    : parseJsonRows(body);
+  const fallbackDeviceId = parsed.deviceId ?? defaultDeviceId;
+
+  const readings: MeterReading[] = [];
+  const errors: MeterReadingError[] = [];
+  const seenIntervals = new Set<string>();
+
+  parsed.rows.forEach((raw, index) => {
+    const row = index + 1;
+    const deviceId = typeof raw.deviceId === 'string' && raw.deviceId.trim() !== ''
+      ? raw.deviceId.trim()
+      : fallbackDeviceId;
+    const time = typeof raw.intervalStart === 'string' ? Date.parse(raw.intervalStart) : NaN;
+    const minutes = Number(raw.intervalMinutes);
+    const value = typeof raw.kwh === 'number' ? raw.kwh : Number(raw.kwh);
+
+    if (!deviceId) {
+      errors.push({ row, message: 'deviceId is required' });
+      return;
+    }
+    if (Number.isNaN(time)) {
+      errors.push({ row, message: 'intervalStart must be an ISO 8601 timestamp' });
+      return;
+    }
+    if (!(INTERVAL_MINUTES as readonly number[]).includes(minutes)) {
+      errors.push({ row, message: `intervalMinutes must be one of: ${INTERVAL_MINUTES.join(', ')}` });
+      return;
+    }
+    if (time % (minutes * ONE_MINUTE_MS) !== 0) {
+      errors.push({ row, message: `intervalStart must be aligned to a ${minutes}-minute boundary` });
+      return;
+    }
+    if (raw.kwh === '' || raw.kwh === null || raw.kwh === undefined || !Number.isFinite(value) || value < 0) {
+      errors.push({ row, message: 'kwh must be a non-negative number' });
+      return;
+    }
+
+    const intervalStart = new Date(time).toISOString();
+    const key = `${deviceId}:${intervalStart}`;
+    if (seenIntervals.has(key)) {
+      errors.push({ row, message: `Duplicate interval: ${deviceId} ${intervalStart}` });
+      return;
+    }
+    seenIntervals.add(key);
+
+    readings.push({
+      row,
+      deviceId,
+      intervalStart,
+      intervalMinutes: minutes as IntervalMinutes,
+      kwh: value
+    });
+  });
+
+  return { readings, errors };
+}
+
+/**
+ * Aggregate interval readings into device production hours
+ * An hour is complete when its intervals cover all 60 minutes exactly once.
+ * @param readings Interval readings (any devices, any order)
+ * @returns Production hours ordered by device and hour
+ */
+export function aggregateHourly(readings: MeterReading[]): HourlyProduction[] {
+  const hours = new Map<string, { deviceId: string; hourStart: string; readings: MeterReading[] }>();
+
+  for (const reading of readings) {
+    const time = Date.parse(reading.intervalStart);
+    const hourStart = new Date(time - (time % ONE_HOUR_MS)).toISOString().replace('.000Z', 'Z');
+    const key = `${reading.deviceId}\u0000${hourStart}`;
+    const hour = hours.get(key) ?? { deviceId: reading.deviceId, hourStart, readings: [] };
+    hour.readings.push(reading);
+    hours.set(key, hour);
+  }
+
+  return [...hours.keys()].sort().map((key) => {
+    const hour = hours.get(key)!;
+    const minutes = new Array<number>(60).fill(0);
+    let totalWh = 0;
+
+    for (const reading of hour.readings) {
+      const offset = (Date.parse(reading.intervalStart) - Date.parse(hour.hourStart)) / ONE_MINUTE_MS;
+      for (let minute = offset; minute < Math.min(offset + reading.intervalMinutes, 60); minute++) {
+        minutes[minute]! += 1;
+      }
+      totalWh += Math.round(reading.kwh * 1000);
+    }
+
+    const coveredMinutes = minutes.filter(count => count > 0).length;
+    const coverage: HourCoverage = minutes.some(count => count > 1)
+      ? 'overlapping'
+      : coveredMinutes === 60 ? 'complete' : 'incomplete';
+
+    return {
+      deviceId: hour.deviceId,
+      hourStart: hour.hourStart,
+      kwh: totalWh / 1000,
+      coveredMinutes,
+      coverage,
+      readings: [...hour.readings].sort((a, b) => a.intervalStart.localeCompare(b.intervalStart))
+    };
+  });
+}
+
+/**
+ * Mint amount for an hour: whole kWh, rounded down (1 token = 1 kWh)
+ */
+export function toMintAmount(kwh: number): string {
+  return Math.floor(Math.round(kwh * 1000) / 1000).toString();
+}
+
+interface RawReading {
+  deviceId: unknown;
+  intervalStart: unknown;
+  intervalMinutes: unknown;
+  kwh: unknown;
+}
+
+function parseJsonRows(body: string): { deviceId?: string; rows: RawReading[] } {
+  const parsed = JSON.parse(body);
+  const readings = Array.isArray(parsed) ? parsed : parsed?.readings;
+
+  if (!Array.isArray(readings)) {
+    throw new Error('JSON meter readings must be an array or { deviceId?, readings: [...] }');
+  }
+
+  return {
+    deviceId: typeof parsed?.deviceId === 'string' ? parsed.deviceId : undefined,
+    rows: readings.map((reading: any) => ({
+      deviceId: reading?.deviceId,
+      intervalStart: reading?.intervalStart,
+      intervalMinutes: reading?.intervalMinutes,
+      kwh: reading?.kwh
+    }))
+  };
+}
+
+function parseCsvRows(body: string): { deviceId?: string; rows: RawReading[] } {
+  const lines = body.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = (lines.shift() ?? '').split(',').map(column => column.trim().toLowerCase());
+  const deviceIndex = header.indexOf('device_id');
+  const startIndex = header.indexOf('interval_start');
+  const minutesIndex = header.indexOf('interval_minutes');
+  const kwhIndex = header.indexOf('kwh');
+
+  if (startIndex === -1 || minutesIndex === -1 || kwhIndex === -1) {
+    throw new Error('CSV meter readings must have a header row with [device_id,]interval_start,interval_minutes,kwh');
+  }
+
+  return {
+    rows: lines.map(line => {
+      const columns = line.split(',').map(column => column.trim());
+      return {
+        deviceId: deviceIndex === -1 ? undefined : columns[deviceIndex],
+        intervalStart: columns[startIndex],
+        intervalMinutes: columns[minutesIndex],
+        kwh: columns[kwhIndex]
+      };
+    })
+  };
+}
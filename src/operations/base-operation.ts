@@ -1,27 +1,112 @@
 import { Pool } from 'pg';
+import { decode } from 'xrpl';
+import type { SubmitResponse } from 'xrpl';
+import {
+  submitTransaction,
+  submitSignedTransaction,
+  SubmitResult,
+  SignedTransaction
+} from '../xrpl/submit';
+import { waitForValidation, checkValidation, ValidationStatus } from '../xrpl/validation';
+import {
+  XrplError,
+  XrplErrorCode,
+  parseXrplError,
+  getEngineResult,
+  getErrorMessage
+} from '../xrpl/errors';
+import { getRetryPolicy, computeBackoff } from './retry-policy';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+import { TicketPool } from '../services/ticket-pool';
+import { SequenceAllocator } from '../services/sequence-allocator';
+import { WalletLockManager, WalletLockTimeoutError } from '../services/wallet-lock-manager';
+import { planCompensationSteps, insertSteps, getSignerWallet } from './operation-definition';
+import type { OperationDefinition, StepExecutor, StepContext } from './operation-definition';
+import { transitionOperation, transitionStep, withTransaction } from './state-machine';
 
 export enum OperationType {
   MINT = 'mint',
   TRANSFER = 'transfer',
-  BURN = 'burn'
+  BURN = 'burn',
+  RETIRE = 'retire'
 }
 
 export enum OperationStatus {
   PENDING = 'PENDING',
   IN_PROGRESS = 'IN_PROGRESS',
   SUCCESS = 'SUCCESS',
-  FAILED = 'FAILED'
+  FAILED = 'FAILED',
+  COMPENSATING = 'COMPENSATING',
+  COMPENSATED = 'COMPENSATED',
+  SCHEDULED = 'SCHEDULED',
+  CANCELLED = 'CANCELLED'
 }
 
+// Statuses of operations that did not (and will not) take effect
+export const UNSUCCESSFUL_OPERATION_STATUSES = [
+  OperationStatus.FAILED,
+  OperationStatus.COMPENSATING,
+  OperationStatus.COMPENSATED,
+  OperationStatus.CANCELLED
+];
+
 export enum StepStatus {
   PENDING = 'PENDING',
   SUBMITTED = 'SUBMITTED',
   PENDING_VALIDATION = 'PENDING_VALIDATION',
   VALIDATED_SUCCESS = 'VALIDATED_SUCCESS',
   VALIDATED_FAILED = 'VALIDATED_FAILED',
-  TIMEOUT = 'TIMEOUT'
+  TIMEOUT = 'TIMEOUT',
+  SKIPPED_ALREADY_AUTHORIZED = 'SKIPPED_ALREADY_AUTHORIZED'
 }
 
+// Step statuses that let the operation continue with the next step
+const COMPLETED_STEP_STATUSES = [
+  StepStatus.VALIDATED_SUCCESS,
+  StepStatus.SKIPPED_ALREADY_AUTHORIZED
+];
+
+/**
+ * Allowed operation status transitions
+ * A change to the current status is a no-op and is not recorded.
+ */
+export const OPERATION_TRANSITIONS: Record<OperationStatus, readonly OperationStatus[]> = {
+  [OperationStatus.SCHEDULED]: [OperationStatus.PENDING, OperationStatus.CANCELLED, OperationStatus.FAILED],
+  [OperationStatus.PENDING]: [OperationStatus.IN_PROGRESS, OperationStatus.FAILED],
+  [OperationStatus.IN_PROGRESS]: [
+    OperationStatus.SUCCESS,
+    OperationStatus.FAILED,
+    OperationStatus.COMPENSATING
+  ],
+  [OperationStatus.FAILED]: [OperationStatus.COMPENSATING],
+  [OperationStatus.COMPENSATING]: [OperationStatus.COMPENSATED, OperationStatus.FAILED],
+  [OperationStatus.SUCCESS]: [],
+  [OperationStatus.COMPENSATED]: [],
+  [OperationStatus.CANCELLED]: []
+};
+
+/**
+ * Allowed step status transitions
+ * PENDING → PENDING (retry scheduled) only updates the step's fields.
+ */
+export const STEP_TRANSITIONS: Record<StepStatus, readonly StepStatus[]> = {
+  [StepStatus.PENDING]: [
+    StepStatus.SUBMITTED,
+    StepStatus.VALIDATED_FAILED,
+    StepStatus.SKIPPED_ALREADY_AUTHORIZED
+  ],
+  [StepStatus.SUBMITTED]: [
+    StepStatus.PENDING_VALIDATION,
+    StepStatus.VALIDATED_SUCCESS,
+    StepStatus.VALIDATED_FAILED
+  ],
+  [StepStatus.PENDING_VALIDATION]: [StepStatus.VALIDATED_SUCCESS, StepStatus.VALIDATED_FAILED],
+  [StepStatus.VALIDATED_SUCCESS]: [],
+  [StepStatus.VALIDATED_FAILED]: [],
+  [StepStatus.TIMEOUT]: [],  // No longer set (timeouts stay PENDING_VALIDATION)
+  [StepStatus.SKIPPED_ALREADY_AUTHORIZED]: []
+};
+
 export interface OperationStep {
   id?: string;
   operationId: string;
@@ -30,146 +115,768 @@ export interface OperationStep {
   walletId: string;
   txType: string;
   txHash?: string;
+  signedTxBlob?: string | null;
+  lastLedgerSequence?: number | null;
   submitResult?: any;
   validatedResult?: any;
   status: StepStatus;
+  compensation?: boolean;
+  attempts?: number;
+  lastErrorCode?: string | null;
+  engineResult?: string | null;
+  nextRetryAt?: Date | null;
   lastCheckedAt?: Date;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * Result of an execution run
+ * retryAt is set when a step is waiting for a scheduled retry;
+ * awaitingValidation when a submitted step is left to the validation poller
+ */
+export interface ExecutionOutcome {
+  status: OperationStatus;
+  retryAt?: Date;
+  awaitingValidation?: boolean;
+}
+
+/**
+ * Why a step failed the operation (error_code and error_message of the operation)
+ */
+interface StepFailure {
+  errorCode: string;
+  message: string;
+}
+
+/**
+ * Raised by runStep when a retriable failure was scheduled for another attempt
+ */
+class StepRetryScheduled extends Error {
+  constructor(public stepNo: number, public retryAt: Date) {
+    super(`Step ${stepNo} retry scheduled at ${retryAt.toISOString()}`);
+    this.name = 'StepRetryScheduled';
+  }
+}
+
+/**
+ * Raised by runStep when validation timed out and the step was left PENDING_VALIDATION
+ */
+class StepAwaitingValidation extends Error {
+  constructor(public stepNo: number, public txHash: string) {
+    super(`Step ${stepNo} awaiting validation of ${txHash}`);
+    this.name = 'StepAwaitingValidation';
+  }
+}
+
+/**
+ * Raised when execution is aborted through the signal given to execute()
+ * (e.g. the worker lost its lease); the current step is left as it is
+ */
+export class ExecutionAbortedError extends Error {
+  constructor(public operationId: string) {
+    super(`Execution of operation ${operationId} aborted`);
+    this.name = 'ExecutionAbortedError';
+  }
+}
+
+// Actor recorded with the transitions made while executing
+const WORKER_ACTOR = 'worker';
+
+/**
+ * Whether failed operations are compensated automatically (AUTO_COMPENSATE, default: true)
+ */
+function isAutoCompensateEnabled(): boolean {
+  return process.env.AUTO_COMPENSATE !== 'false';
+}
+
 /**
  * Base class for all operations
- * mint/transfer/burn operations inherit from BaseOperation
+ * mint/transfer/burn/retire operations inherit from BaseOperation and declare
+ * their steps in an OperationDefinition; step executors are looked up by kind
  */
-export abstract class BaseOperation {
+export abstract class BaseOperation<P = unknown> {
+  public type: OperationType;
+  private tickets: TicketPool;
+  private sequences: SequenceAllocator;
+  private walletLocks: WalletLockManager;
+  private signal?: AbortSignal;
+
   constructor(
     protected pool: Pool,
     public operationId: string,
-    public type: OperationType
-  ) {}
+    protected definition: OperationDefinition<P>,
+    protected params: P,
+    protected secretManager: WalletSecretManager
+  ) {
+    this.type = definition.type;
+    this.tickets = new TicketPool(pool);
+    this.sequences = new SequenceAllocator(pool);
+    this.walletLocks = new WalletLockManager(pool);
+  }
 
   /**
    * Get operation steps
    * @returns Array of steps
    */
-  abstract getSteps(): Promise<OperationStep[]>;
+  async getSteps(): Promise<OperationStep[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM operation_steps
+       WHERE operation_id = $1
+       ORDER BY step_no ASC`,
+      [this.operationId]
+    );
+    return result.rows.map(toOperationStep);
+  }
 
   /**
-   * Execute individual step
+   * Execute individual step with the executor registered for its kind
+   * (regular or compensation)
    * @param step Step to execute
    */
-  abstract executeStep(step: OperationStep): Promise<void>;
+  async executeStep(step: OperationStep): Promise<void> {
+    const executor = [...this.definition.steps, ...(this.definition.compensations ?? [])]
+      .find((e) => e.kind === step.kind);
+
+    if (!executor) {
+      throw new Error(`Unknown step kind for ${this.type}: ${step.kind}`);
+    }
+
+    await this.runStep(step, executor);
+  }
 
   /**
    * Execute entire operation
-   * Skips already completed steps and resumes from incomplete steps
+   * Skips already completed steps and resumes from incomplete steps;
+   * steps submitted before an interruption are re-validated, not resubmitted.
+   * On failure, compensation steps are run when AUTO_COMPENSATE is enabled;
+   * a COMPENSATING operation resumes compensating.
+   * @param signal Aborts execution before the next step or submission (ExecutionAbortedError)
+   * @returns Outcome (retryAt set while a step waits for a scheduled retry)
    */
-  async execute(): Promise<void> {
-    // 1. Update operation status to IN_PROGRESS
-    await this.updateOperationStatus(OperationStatus.IN_PROGRESS);
+  async execute(signal?: AbortSignal): Promise<ExecutionOutcome> {
+    this.signal = signal;
 
-    // 2. Get all steps
+    // 1. Get all steps (a compensating operation resumes compensating)
     const steps = await this.getSteps();
+    const status = await this.getOperationStatus();
+
+    if (status === OperationStatus.COMPENSATING || steps.some((step) => step.compensation)) {
+      return this.compensate();
+    }
+
+    // 2. Update operation status to IN_PROGRESS
+    await this.updateOperationStatus(OperationStatus.IN_PROGRESS);
 
     // 3. Execute each step in order
+    const result = await this.runSteps(steps);
+
+    if (result.waiting) {
+      return result.waiting;
+    }
+
+    if (result.failure) {
+      if (isAutoCompensateEnabled()) {
+        // Never visible as FAILED in between, so compensation is started only once
+        await this.startCompensating(result.failure);
+        return this.compensate();
+      }
+
+      await this.updateOperationStatus(
+        OperationStatus.FAILED,
+        result.failure.message,
+        result.failure.errorCode
+      );
+      return { status: OperationStatus.FAILED };
+    }
+
+    // 4. If all steps succeeded
+    console.log(`✓ All steps succeeded. Completing operation.`);
+    await this.updateOperationStatus(OperationStatus.SUCCESS);
+    return { status: OperationStatus.SUCCESS };
+  }
+
+  /**
+   * Move the operation to COMPENSATING and insert its compensation steps in one
+   * transaction, so a resumed operation finds the steps it has to run
+   * @param failure Failure of the regular step (kept as the operation's error)
+   */
+  private async startCompensating(failure: StepFailure): Promise<void> {
+    const planned = planCompensationSteps(this.definition, this.params, await this.getSteps());
+
+    await withTransaction(this.pool, async (client) => {
+      await transitionOperation(
+        client,
+        this.operationId,
+        OperationStatus.COMPENSATING,
+        { actor: WORKER_ACTOR, reason: failure.message },
+        { errorMessage: failure.message || null, errorCode: failure.errorCode || null }
+      );
+
+      if (planned.length > 0) {
+        await insertSteps(client, this.operationId, planned, { compensation: true });
+      }
+    });
+  }
+
+  /**
+   * Undo the completed steps of a failed operation
+   * Compensation steps are planned from the definition when none exist yet (they are
+   * normally inserted with the change to COMPENSATING) and appended after the
+   * regular steps; the operation ends COMPENSATED, or FAILED if there is nothing
+   * to compensate or a compensation step fails.
+   * @returns Outcome
+   */
+  async compensate(): Promise<ExecutionOutcome> {
+    // 1. Plan compensation steps once
+    let steps = await this.getSteps();
+
+    if (!steps.some((step) => step.compensation)) {
+      const planned = planCompensationSteps(this.definition, this.params, steps);
+
+      if (planned.length === 0) {
+        console.log(`✓ Nothing to compensate for operation ${this.operationId}`);
+        await this.setOperationStatus(OperationStatus.FAILED, 'Nothing to compensate');
+        return { status: OperationStatus.FAILED };
+      }
+
+      await insertSteps(this.pool, this.operationId, planned, { compensation: true });
+      steps = await this.getSteps();
+    }
+
+    // 2. Run compensation steps (the failure message is kept)
+    console.log(`↺ Compensating operation ${this.operationId}`);
+    await this.setOperationStatus(OperationStatus.COMPENSATING);
+
+    const result = await this.runSteps(steps.filter((step) => step.compensation));
+
+    if (result.waiting) {
+      return result.waiting;
+    }
+
+    if (result.failure) {
+      await this.updateOperationStatus(
+        OperationStatus.FAILED,
+        `Compensation failed: ${result.failure.message}`,
+        result.failure.errorCode
+      );
+      return { status: OperationStatus.FAILED };
+    }
+
+    // 3. All compensation steps succeeded
+    console.log(`✓ Operation ${this.operationId} compensated`);
+    await this.setOperationStatus(OperationStatus.COMPENSATED);
+    return { status: OperationStatus.COMPENSATED };
+  }
+
+  /**
+   * Run steps in order, skipping completed ones
+   * @returns waiting when a step waits for a retry or validation, failure when a step failed
+   */
+  private async runSteps(
+    steps: OperationStep[]
+  ): Promise<{ waiting?: ExecutionOutcome; failure?: StepFailure }> {
     for (const step of steps) {
-      if (step.status === StepStatus.VALIDATED_SUCCESS) {
+      if (COMPLETED_STEP_STATUSES.includes(step.status)) {
         console.log(`✓ Step ${step.stepNo} is already completed. Skipping.`);
         continue; // Skip already completed steps
       }
 
+      if (
+        step.status === StepStatus.VALIDATED_FAILED ||
+        step.status === StepStatus.TIMEOUT
+      ) {
+        // Failed before an interruption: never resubmit a failed step
+        console.error(`✗ Step ${step.stepNo} had already failed`);
+        return { failure: describeStepFailure(step) };
+      }
+
+      if (step.nextRetryAt && new Date(step.nextRetryAt) > new Date()) {
+        // Claimed before its retry time (e.g. resumed on startup)
+        return { waiting: { status: OperationStatus.IN_PROGRESS, retryAt: new Date(step.nextRetryAt) } };
+      }
+
+      this.checkAborted();
+
       console.log(`→ Executing step ${step.stepNo}: ${step.kind}`);
-      await this.executeStep(step);
+      try {
+        await this.executeStep(step);
+      } catch (error: any) {
+        if (error instanceof ExecutionAbortedError) {
+          throw error;
+        }
+        if (error instanceof StepRetryScheduled) {
+          console.log(`↻ ${error.message}`);
+          return { waiting: { status: OperationStatus.IN_PROGRESS, retryAt: error.retryAt } };
+        }
+        if (error instanceof StepAwaitingValidation) {
+          // The validation poller re-queues the operation once the transaction is validated
+          console.log(`⏳ ${error.message}`);
+          return { waiting: { status: OperationStatus.IN_PROGRESS, awaitingValidation: true } };
+        }
+        // The step status records the outcome; it is checked below
+        console.error(`✗ Step ${step.stepNo} threw:`, error.message);
+      }
 
       // Get latest state of step
       const updatedStep = await this.getStepById(step.id!);
 
-      // Mark operation as failed if step failed
+      // Stop if step failed
       if (
         updatedStep.status === StepStatus.VALIDATED_FAILED ||
         updatedStep.status === StepStatus.TIMEOUT
       ) {
         console.error(`✗ Step ${step.stepNo} failed`);
-        await this.updateOperationStatus(
-          OperationStatus.FAILED,
-          `Step ${step.stepNo} failed: ${updatedStep.status}`
-        );
-        return;
+        return { failure: describeStepFailure(updatedStep) };
       }
 
       console.log(`✓ Step ${step.stepNo} succeeded`);
     }
 
-    // 4. If all steps succeeded
-    console.log(`✓ All steps succeeded. Completing operation.`);
-    await this.updateOperationStatus(OperationStatus.SUCCESS);
+    return {};
+  }
+
+  /**
+   * Prepare, submit and validate a step, persisting each stage
+   * Errors before the transaction was accepted are classified with parseXrplError;
+   * retriable ones are scheduled for another attempt with backoff (StepRetryScheduled).
+   * The signed transaction is stored before it is submitted; after an ambiguous failure
+   * (network error, timeout) the next attempt looks it up or resubmits it, never signing
+   * a second transaction while the first may still be applied.
+   * A validation timeout leaves the step PENDING_VALIDATION (StepAwaitingValidation).
+   * The onValidated hook runs before VALIDATED_SUCCESS is recorded; if it fails, the
+   * validated transaction is checked again on a scheduled retry.
+   * @param step Step to run
+   * @param executor Executor of the step kind
+   */
+  protected async runStep(step: OperationStep, executor: StepExecutor<P>): Promise<void> {
+    const context: StepContext<P> = {
+      pool: this.pool,
+      operationId: this.operationId,
+      params: this.params
+    };
+
+    let submitted = false;
+    let signed: SignedTransaction | null = null;
+    let resubmitting = false;
+    let ticket: { account: string; sequence: number } | null = null;
+
+    try {
+      let txHash = step.txHash;
+
+      if (
+        txHash &&
+        (step.status === StepStatus.SUBMITTED || step.status === StepStatus.PENDING_VALIDATION)
+      ) {
+        // Submitted before an interruption: re-validate instead of resubmitting
+        submitted = true;
+        console.log(`  → Re-validating submitted transaction: ${txHash}`);
+      } else {
+        let submitResult: { txHash: string; submitResult?: SubmitResponse } | null = null;
+
+        // 1. A transaction signed by an earlier attempt may still be applied: look it up
+        //    or resubmit it as it is (signed again only once it has expired)
+        if (step.txHash && step.signedTxBlob) {
+          signed = {
+            txBlob: step.signedTxBlob,
+            txHash: step.txHash,
+            lastLedgerSequence: step.lastLedgerSequence ?? null
+          };
+          resubmitting = true;
+          submitResult = await this.resubmitSigned(step, executor, signed);
+
+          if (!submitResult) {
+            signed = null;
+            resubmitting = false;
+          }
+        }
+
+        if (!submitResult) {
+          // 2. Record the step as skipped when its effect already exists on ledger
+          const skipStatus = executor.skip ? await executor.skip(context) : null;
+          if (skipStatus) {
+            await this.updateStepStatus(step.id!, skipStatus);
+            console.log(`  → Skipped: ${skipStatus}`);
+            return;
+          }
+
+          // 3. Build transaction and resolve signer
+          const prepared = await executor.prepare(context);
+
+          console.log(`  → ${prepared.description}`);
+          this.checkAborted();
+
+          // 4. Sign, store the signed transaction, then submit: issuer steps use a ticket
+          //    when one is available (the one reserved by an earlier attempt of the step,
+          //    if any); others reserve a sequence and submit it under the signer's lock,
+          //    so sequences of one account reach the network in order
+          const walletId = executor.walletId(this.params);
+          const wallet = await getSignerWallet(this.secretManager, walletId);
+          const ticketSequence = walletId === null
+            ? await this.tickets.reserve(wallet.classicAddress, step.id!)
+            : null;
+          if (ticketSequence !== null) {
+            ticket = { account: wallet.classicAddress, sequence: ticketSequence };
+          }
+          const storeSigned = async (transaction: SignedTransaction) => {
+            await this.updateStepStatus(step.id!, StepStatus.PENDING, {
+              txHash: transaction.txHash,
+              signedTxBlob: transaction.txBlob,
+              lastLedgerSequence: transaction.lastLedgerSequence
+            });
+            signed = transaction;
+          };
+
+          if (ticket !== null) {
+            console.log(`  → Using ticket ${ticket.sequence}`);
+            submitResult = await submitTransaction(
+              { ...prepared.tx, Sequence: 0, TicketSequence: ticket.sequence },
+              wallet,
+              storeSigned
+            );
+          } else {
+            submitResult = await this.walletLocks.withLock(
+              wallet.classicAddress,
+              () => this.sequences.submit(prepared.tx, wallet, walletId, storeSigned)
+            );
+          }
+        }
+
+        // 5. Update step to SUBMITTED
+        submitted = true;
+        await this.updateStepStatus(step.id!, StepStatus.SUBMITTED, {
+          txHash: submitResult.txHash,
+          submitResult: submitResult.submitResult
+        });
+
+        console.log(`  → Transaction submitted: ${submitResult.txHash}`);
+        txHash = submitResult.txHash;
+
+        if (submitResult.submitResult?.result.engine_result === 'terPRE_SEQ') {
+          // Held until the preceding sequence arrives (the allocator has resynchronized the
+          // account, so skipped sequences get filled): left to the validation poller
+          await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
+          throw new StepAwaitingValidation(step.stepNo, txHash);
+        }
+      }
+
+      // 6. Wait for validation
+      const validationResult = await waitForValidation(txHash);
+
+      // 7. Update step based on validation result
+      if (validationResult.status === ValidationStatus.SUCCESS) {
+        // The hook runs before the terminal status, so a failing hook is retried
+        // against the validated transaction instead of failing the step
+        if (executor.onValidated) {
+          await this.runOnValidated(step, executor, context, validationResult.details);
+        }
+
+        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_SUCCESS, {
+          validatedResult: validationResult.details,
+          engineResult: validationResult.transactionResult
+        });
+      } else if (validationResult.status === ValidationStatus.FAILED) {
+        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED, {
+          validatedResult: validationResult.details,
+          engineResult: validationResult.transactionResult,
+          reason: validationResult.transactionResult
+        });
+        throw parseXrplError({
+          data: {
+            error: validationResult.transactionResult,
+            error_message: `Transaction validation failed: ${validationResult.transactionResult}`
+          }
+        });
+      } else {
+        // TIMEOUT: the transaction may still be validated in a later ledger
+        await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
+        throw new StepAwaitingValidation(step.stepNo, txHash);
+      }
+    } catch (error: any) {
+      if (
+        error instanceof StepAwaitingValidation ||
+        error instanceof StepRetryScheduled ||
+        error instanceof ExecutionAbortedError
+      ) {
+        throw error;
+      }
+
+      console.error(`  ✗ Step ${step.stepNo} error:`, error);
+
+      // A signer lock that stayed busy is retried like a timed out request
+      const xrplError: XrplError = error instanceof WalletLockTimeoutError
+        ? new XrplError(XrplErrorCode.TIMEOUT, error.message, error)
+        : parseXrplError(error);
+      const engineResult = getEngineResult(xrplError) ?? undefined;
+      const attempts = (step.attempts ?? 0) + 1;
+      const policy = getRetryPolicy();
+      const pending: SignedTransaction | null = signed;
+
+      // The signed transaction may have reached the network: keep it for the next attempt
+      if (!submitted && pending && (resubmitting || xrplError.isAmbiguous())) {
+        if (attempts < policy.maxAttempts) {
+          const retryAt = new Date(Date.now() + computeBackoff(attempts, policy));
+          await this.updateStepStatus(step.id!, StepStatus.PENDING, {
+            attempts,
+            lastErrorCode: xrplError.code,
+            nextRetryAt: retryAt,
+            reason: xrplError.message
+          });
+          throw new StepRetryScheduled(step.stepNo, retryAt);
+        }
+
+        // Out of attempts: the validation poller settles the transaction, failing the
+        // step once the ledger has passed its LastLedgerSequence
+        await this.updateStepStatus(step.id!, StepStatus.SUBMITTED, {
+          attempts,
+          lastErrorCode: xrplError.code,
+          nextRetryAt: null,
+          reason: xrplError.message
+        });
+        await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
+        throw new StepAwaitingValidation(step.stepNo, pending.txHash);
+      }
+
+      // The ledger no longer holds the ticket: drop it, so the next attempt reserves another
+      if (ticket && xrplError.code === XrplErrorCode.TEF_NO_TICKET) {
+        await this.tickets.discard(ticket.account, ticket.sequence);
+      }
+
+      // A submitted transaction may still be applied, so only unsubmitted steps are retried
+      // (an unapplied ticket stays reserved by the step and is reused by the next attempt)
+      if (!submitted && xrplError.isRetriable() && attempts < policy.maxAttempts) {
+        const retryAt = new Date(Date.now() + computeBackoff(attempts, policy));
+        await this.updateStepStatus(step.id!, StepStatus.PENDING, {
+          attempts,
+          lastErrorCode: xrplError.code,
+          engineResult,
+          nextRetryAt: retryAt,
+          reason: xrplError.message,
+          // Rejected without being applied: the next attempt signs a new transaction
+          txHash: null,
+          signedTxBlob: null,
+          lastLedgerSequence: null
+        });
+        throw new StepRetryScheduled(step.stepNo, retryAt);
+      }
+
+      // Failed without being applied: the ticket goes back to the pool
+      if (!submitted && ticket) {
+        await this.tickets.release(ticket.account, ticket.sequence, step.id!);
+      }
+
+      await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED, {
+        attempts,
+        lastErrorCode: xrplError.code,
+        engineResult,
+        nextRetryAt: null,
+        reason: xrplError.message
+      });
+      throw xrplError;
+    }
+  }
+
+  /**
+   * Settle a transaction signed by an earlier attempt whose submission had an ambiguous outcome
+   * A validated transaction is taken as submitted; one that is not validated yet is
+   * submitted again as it is (a rejection of the resubmission is not final, since the
+   * first submission may still be applied, so it is left to validation).
+   * @returns Submit result, or null once the transaction has expired (sign a new one)
+   */
+  private async resubmitSigned(
+    step: OperationStep,
+    executor: StepExecutor<P>,
+    signed: SignedTransaction
+  ): Promise<{ txHash: string; submitResult?: SubmitResponse } | null> {
+    const lookup = await checkValidation(signed.txHash, signed.lastLedgerSequence);
+
+    if (lookup.status === ValidationStatus.EXPIRED) {
+      // Never applied: free its sequence or ticket and sign a new transaction
+      console.log(`  → Signed transaction ${signed.txHash} expired, signing again`);
+      const { Account, Sequence, TicketSequence } = decode(signed.txBlob) as {
+        Account: string;
+        Sequence?: number;
+        TicketSequence?: number;
+      };
+      if (TicketSequence) {
+        await this.tickets.release(Account, TicketSequence, step.id!);
+      } else if (Sequence) {
+        await this.sequences.release(Account, Sequence, executor.walletId(this.params), signed.txHash);
+      }
+      await this.updateStepStatus(step.id!, StepStatus.PENDING, {
+        txHash: null,
+        signedTxBlob: null,
+        lastLedgerSequence: null
+      });
+      return null;
+    }
+
+    if (lookup.status === ValidationStatus.PENDING) {
+      console.log(`  → Resubmitting signed transaction: ${signed.txHash}`);
+      try {
+        return await submitSignedTransaction(signed);
+      } catch (error: any) {
+        if (parseXrplError(error).isAmbiguous()) {
+          throw error;
+        }
+        console.log(`  → Resubmission rejected (${getEngineResult(parseXrplError(error))}), validating`);
+      }
+    }
+
+    return { txHash: signed.txHash };
+  }
+
+  /**
+   * Run the onValidated hook of a step whose transaction was validated successfully
+   * On failure the step keeps its submitted status and tx hash, and a retry is scheduled:
+   * the next attempt re-validates the transaction and runs the hook again.
+   * @throws StepRetryScheduled if the hook failed
+   */
+  private async runOnValidated(
+    step: OperationStep,
+    executor: StepExecutor<P>,
+    context: StepContext<P>,
+    details: any
+  ): Promise<void> {
+    try {
+      await executor.onValidated!(context, details);
+    } catch (error: any) {
+      console.error(`  ✗ Step ${step.stepNo} onValidated failed:`, error);
+
+      const current = await this.getStepById(step.id!);
+      const attempts = (current.attempts ?? 0) + 1;
+      const retryAt = new Date(Date.now() + computeBackoff(attempts, getRetryPolicy()));
+      await this.updateStepStatus(step.id!, current.status, { attempts, nextRetryAt: retryAt });
+      throw new StepRetryScheduled(step.stepNo, retryAt);
+    }
   }
 
   /**
    * Update operation status
    * @param status New status
-   * @param errorMessage Error message (optional)
+   * @param errorMessage Error message (optional, also recorded as the event reason)
+   * @param errorCode XrplErrorCode of the failure (optional)
    */
   protected async updateOperationStatus(
     status: OperationStatus,
-    errorMessage?: string
+    errorMessage?: string,
+    errorCode?: string
   ): Promise<void> {
-    await this.pool.query(
-      `UPDATE operations
-       SET status = $1,
-           error_message = $2,
-           updated_at = NOW()
-       WHERE id = $3`,
-      [status, errorMessage || null, this.operationId]
+    await transitionOperation(
+      this.pool,
+      this.operationId,
+      status,
+      { actor: WORKER_ACTOR, reason: errorMessage },
+      { errorMessage: errorMessage || null, errorCode: errorCode || null }
+    );
+  }
+
+  /**
+   * Get the stored operation status
+   */
+  protected async getOperationStatus(): Promise<OperationStatus> {
+    const result = await this.pool.query(
+      'SELECT status FROM operations WHERE id = $1',
+      [this.operationId]
     );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Operation not found: ${this.operationId}`);
+    }
+
+    return result.rows[0].status;
+  }
+
+  /**
+   * Update operation status, keeping the recorded error code and message
+   * @param status New status
+   * @param reason Event reason (optional)
+   */
+  protected async setOperationStatus(status: OperationStatus, reason?: string): Promise<void> {
+    await transitionOperation(this.pool, this.operationId, status, {
+      actor: WORKER_ACTOR,
+      reason
+    });
   }
 
   /**
    * Update step status and results
    * @param stepId Step ID
    * @param status New status
-   * @param updates Fields to update
+   * @param updates Fields to update (reason is recorded with the event only)
    */
   protected async updateStepStatus(
     stepId: string,
     status: StepStatus,
     updates?: {
-      txHash?: string;
+      txHash?: string | null;
+      signedTxBlob?: string | null;
+      lastLedgerSequence?: number | null;
       submitResult?: any;
       validatedResult?: any;
+      attempts?: number;
+      lastErrorCode?: string;
+      engineResult?: string;
+      nextRetryAt?: Date | null;
+      reason?: string;
     }
   ): Promise<void> {
-    const fields: string[] = ['status = $1', 'updated_at = NOW()'];
-    const values: any[] = [status];
-    let paramIndex = 2;
+    const fields: Record<string, unknown> = {};
+
+    if (updates?.txHash !== undefined) {
+      fields.tx_hash = updates.txHash;
+    }
 
-    if (updates?.txHash) {
-      fields.push(`tx_hash = $${paramIndex++}`);
-      values.push(updates.txHash);
+    if (updates?.signedTxBlob !== undefined) {
+      fields.signed_tx_blob = updates.signedTxBlob;
+    }
+
+    if (updates?.lastLedgerSequence !== undefined) {
+      fields.last_ledger_sequence = updates.lastLedgerSequence;
     }
 
     if (updates?.submitResult) {
-      fields.push(`submit_result = $${paramIndex++}`);
-      values.push(JSON.stringify(updates.submitResult));
+      fields.submit_result = JSON.stringify(updates.submitResult);
     }
 
     if (updates?.validatedResult) {
-      fields.push(`validated_result = $${paramIndex++}`);
-      values.push(JSON.stringify(updates.validatedResult));
+      fields.validated_result = JSON.stringify(updates.validatedResult);
+    }
+
+    if (updates?.attempts !== undefined) {
+      fields.attempts = updates.attempts;
+    }
+
+    if (updates?.lastErrorCode) {
+      fields.last_error_code = updates.lastErrorCode;
     }
 
-    fields.push(`last_checked_at = NOW()`);
-    values.push(stepId);
+    if (updates?.engineResult) {
+      fields.engine_result = updates.engineResult;
+    }
+
+    if (updates?.nextRetryAt !== undefined) {
+      fields.next_retry_at = updates.nextRetryAt;
+    }
 
-    await this.pool.query(
-      `UPDATE operation_steps
-       SET ${fields.join(', ')}
-       WHERE id = $${paramIndex}`,
-      values
+    await transitionStep(
+      this.pool,
+      stepId,
+      status,
+      { actor: WORKER_ACTOR, reason: updates?.reason },
+      { ...fields, last_checked_at: new Date() }
     );
   }
 
+  /**
+   * Throw ExecutionAbortedError once the execution signal is aborted
+   */
+  private checkAborted(): void {
+    if (this.signal?.aborted) {
+      throw new ExecutionAbortedError(this.operationId);
+    }
+  }
+
   /**
    * Get step by step ID
    * @param stepId Step ID
@@ -185,6 +892,43 @@ export abstract class BaseOperation {
       throw new Error(`Step not found: ${stepId}`);
     }
 
-    return result.rows[0];
+    return toOperationStep(result.rows[0]);
   }
 }
+
+function toOperationStep(row: any): OperationStep {
+  return {
+    id: row.id,
+    operationId: row.operation_id,
+    stepNo: row.step_no,
+    kind: row.kind,
+    walletId: row.wallet_id,
+    txType: row.tx_type,
+    txHash: row.tx_hash,
+    signedTxBlob: row.signed_tx_blob,
+    lastLedgerSequence: row.last_ledger_sequence != null ? Number(row.last_ledger_sequence) : null,
+    submitResult: row.submit_result,
+    validatedResult: row.validated_result,
+    status: row.status,
+    compensation: row.compensation,
+    attempts: row.attempts,
+    lastErrorCode: row.last_error_code,
+    engineResult: row.engine_result,
+    nextRetryAt: row.next_retry_at
+  };
+}
+
+/**
+ * Classify a failed step: its XrplErrorCode and a human-readable message
+ * naming the step and the engine result
+ */
+function describeStepFailure(step: OperationStep): StepFailure {
+  const errorCode = step.lastErrorCode ?? XrplErrorCode.UNKNOWN;
+  const cause = step.engineResult ?? step.lastErrorCode ?? step.status;
+  const message = getErrorMessage(new XrplError(errorCode as XrplErrorCode, cause));
+
+  return {
+    errorCode,
+    message: `Step ${step.stepNo} (${step.kind}) failed with ${cause}: ${message}`
+  };
+}
@@ -0,0 +1,158 @@
+import { Pool } from 'pg';
+import type { SubmittableTransaction } from 'xrpl';
+import { xrplClient } from '../xrpl/client';
+import { getReserveSettings } from '../xrpl/account';
+import { OperationType, StepStatus } from './base-operation';
+import {
+  OperationDefinition,
+  StepContext,
+  planSteps,
+  getSignerAddress
+} from './operation-definition';
+
+export interface DryRunStep {
+  stepNo: number;
+  kind: string;
+  txType: string;
+  signer: string;                      // Signing account address
+  skipped: StepStatus | null;          // Set when the step would not submit a transaction
+  tx: SubmittableTransaction | null;   // Autofilled, unsigned transaction
+  feeDrops: string;
+  ownerObjectDelta: number;            // Ledger objects added to (negative: removed from) the signer
+  reserveDrops: string;                // Owner reserve locked (negative: released) by the step
+}
+
+export interface DryRunSigner {
+  address: string;
+  feeDrops: string;
+  reserveDrops: string;
+}
+
+export interface DryRunResult {
+  type: OperationType;
+  steps: DryRunStep[];
+  signers: DryRunSigner[];
+  totalFeeDrops: string;
+  totalReserveDrops: string;
+}
+
+/**
+ * Build and autofill the transactions of an operation without signing, submitting
+ * or persisting anything
+ * Later transactions of the same signer get consecutive sequences; params are
+ * projected between steps (e.g. the issuance ID a mint will create).
+ * @param pool Database pool (read only)
+ * @param definition Operation definition
+ * @param operationId Operation ID the steps would run under (not stored)
+ * @param params Operation parameters
+ * @returns Would-be transactions with signers, fees and reserve impact
+ */
+export async function dryRunOperation<P>(
+  pool: Pool,
+  definition: OperationDefinition<P>,
+  operationId: string,
+  params: P
+): Promise<DryRunResult> {
+  const client = xrplClient.getClient();
+  const reserves = await getReserveSettings();
+  const nextSequence = new Map<string, number>();
+  const signers = new Map<string, { fee: bigint; reserve: bigint }>();
+  const steps: DryRunStep[] = [];
+  let current = params;
+
+  for (const planned of planSteps(definition, params)) {
+    const executor = definition.steps[planned.stepNo - 1]!;
+    const context: StepContext<P> = { pool, operationId, params: current };
+    const signer = await getSignerAddress(pool, executor.walletId(current));
+
+    // 1. Steps whose effect already exists on ledger are not submitted
+    const skipped = executor.skip ? await executor.skip(context) : null;
+    if (skipped) {
+      steps.push({
+        stepNo: planned.stepNo,
+        kind: planned.kind,
+        txType: planned.txType,
+        signer,
+        skipped,
+        tx: null,
+        feeDrops: '0',
+        ownerObjectDelta: 0,
+        reserveDrops: '0'
+      });
+      continue;
+    }
+
+    // 2. Build and autofill (Fee, Sequence, LastLedgerSequence)
+    const prepared = await executor.prepare(context);
+    const tx = await client.autofill(prepared.tx);
+
+    const sequence = nextSequence.get(tx.Account);
+    if (sequence !== undefined) {
+      tx.Sequence = sequence;
+    }
+    nextSequence.set(tx.Account, tx.Sequence! + 1);
+
+    if (executor.projectParams) {
+      current = executor.projectParams(current, tx);
+    }
+
+    // 3. Fee and reserve impact
+    const fee = BigInt(tx.Fee ?? '0');
+    const objectDelta = getOwnerObjectDelta(tx);
+    const reserve = BigInt(objectDelta) * reserves.incrementDrops;
+
+    const totals = signers.get(signer) ?? { fee: 0n, reserve: 0n };
+    signers.set(signer, { fee: totals.fee + fee, reserve: totals.reserve + reserve });
+
+    steps.push({
+      stepNo: planned.stepNo,
+      kind: planned.kind,
+      txType: planned.txType,
+      signer,
+      skipped: null,
+      tx,
+      feeDrops: fee.toString(),
+      ownerObjectDelta: objectDelta,
+      reserveDrops: reserve.toString()
+    });
+  }
+
+  const signerTotals = [...signers.entries()];
+
+  return {
+    type: definition.type,
+    steps,
+    signers: signerTotals.map(([address, totals]) => ({
+      address,
+      feeDrops: totals.fee.toString(),
+      reserveDrops: totals.reserve.toString()
+    })),
+    totalFeeDrops: signerTotals.reduce((sum, [, totals]) => sum + totals.fee, 0n).toString(),
+    totalReserveDrops: signerTotals.reduce((sum, [, totals]) => sum + totals.reserve, 0n).toString()
+  };
+}
+
+/**
+ * Ledger objects a transaction adds to its signer's owner directory
+ */
+function getOwnerObjectDelta(tx: SubmittableTransaction): number {
+  switch (tx.TransactionType) {
+    case 'MPTokenIssuanceCreate':
+      return 1;
+    case 'MPTokenIssuanceDestroy':
+      return -1;
+    case 'MPTokenAuthorize': {
+      // Issuer-side authorization (Holder set) does not create an object
+      if (tx.Holder) {
+        return 0;
+      }
+      // tfMPTUnauthorize (0x01) deletes the MPToken
+      const unauthorize = typeof tx.Flags === 'number'
+        ? (tx.Flags & 1) !== 0
+        : tx.Flags?.tfMPTUnauthorize === true;
+      return unauthorize ? -1 : 1;
+    }
+    default:
+      return 0;
+  }
+}
@@ -3,13 +3,49 @@ export {
   BaseOperation,
   OperationType,
   OperationStatus,
+  UNSUCCESSFUL_OPERATION_STATUSES,
+  OPERATION_TRANSITIONS,
+  STEP_TRANSITIONS,
   StepStatus,
-  OperationStep
+  OperationStep,
+  ExecutionOutcome,
+  ExecutionAbortedError
 } from './base-operation';
 
-export { MintOperation, MintOperationParams } from './mint-operation';
+export {
+  OperationDefinition,
+  StepExecutor,
+  CompensationExecutor,
+  StepContext,
+  PreparedStep,
+  PlannedStep,
+  StoredOperation,
+  planSteps,
+  planCompensationSteps,
+  insertSteps
+} from './operation-definition';
+
+export { MintOperation, MintOperationParams, MINT_OPERATION } from './mint-operation';
 export {
   TransferOperation,
-  TransferOperationParams
+  TransferOperationParams,
+  TRANSFER_OPERATION
 } from './transfer-operation';
-export { BurnOperation, BurnOperationParams } from './burn-operation';
+export { BurnOperation, BurnOperationParams, BURN_OPERATION } from './burn-operation';
+export { RetireOperation, RetireOperationParams, RETIRE_OPERATION } from './retire-operation';
+export {
+  InvalidTransitionError,
+  TransitionEvent,
+  OperationEvent,
+  transitionOperation,
+  transitionStep,
+  recordOperationCreated,
+  listOperationEvents,
+  withTransaction
+} from './state-machine';
+export { dryRunOperation, DryRunResult, DryRunStep, DryRunSigner } from './dry-run';
+export {
+  getOperationDefinition,
+  getStoredOperation,
+  instantiateOperation
+} from './registry';
@@ -1,19 +1,25 @@
 import { Pool } from 'pg';
-import { Wallet } from 'xrpl';
 import {
   BaseOperation,
-  OperationType,
-  OperationStep,
-  StepStatus
+  OperationType
 } from './base-operation';
-import { submitTransaction, SubmitResult } from '../xrpl/submit';
-import { waitForValidation, ValidationStatus } from '../xrpl/validation';
+import {
+  OperationDefinition,
+  StepContext,
+  getIssuerWallet,
+  getWalletAddress,
+  skipIfAuthorized
+} from './operation-definition';
 import {
   buildMPTokenIssuanceCreate,
+  buildMPTokenIssuanceDestroy,
   buildMPTokenAuthorize,
   buildMPTPayment
 } from '../xrpl/builders';
 import { WalletSecretManager } from '../services/wallet-secret-manager';
+import { IssuanceService } from '../services/issuance-service';
+import { decodeGcMetadata, encodeGcMetadata } from '../certificates';
+import { computeMPTIssuanceId } from '../xrpl/mptoken';
 
 export interface MintOperationParams {
   operationId: string;
@@ -27,311 +33,220 @@ export interface MintOperationParams {
 }
 
 /**
- * Mint operation (3 steps)
+ * Mint operation definition (3 steps)
  * 1. Issuer mints MPT (MPTokenIssuanceCreate)
- * 2. User authorizes (MPTokenAuthorize)
+ * 2. User authorizes (MPTokenAuthorize, skipped if already authorized)
  * 3. Issuer transfers to user (Payment)
+ *
+ * Compensation when the transfer never completed:
+ * - User releases its MPToken (MPTokenAuthorize with tfMPTUnauthorize)
+ * - Issuer destroys the empty issuance (MPTokenIssuanceDestroy)
  */
-export class MintOperation extends BaseOperation {
-  constructor(
-    pool: Pool,
-    private params: MintOperationParams,
-    private secretManager: WalletSecretManager
-  ) {
-    super(pool, params.operationId, OperationType.MINT);
-  }
-
-  async getSteps(): Promise<OperationStep[]> {
-    const result = await this.pool.query(
-      `SELECT * FROM operation_steps
-       WHERE operation_id = $1
-       ORDER BY step_no ASC`,
-      [this.operationId]
-    );
-    return result.rows.map((row) => ({
-      id: row.id,
-      operationId: row.operation_id,
-      stepNo: row.step_no,
-      kind: row.kind,
-      walletId: row.wallet_id,
-      txType: row.tx_type,
-      txHash: row.tx_hash,
-      submitResult: row.submit_result,
-      validatedResult: row.validated_result,
-      status: row.status
-    }));
-  }
-
-  async executeStep(step: OperationStep): Promise<void> {
-    switch (step.stepNo) {
-      case 1:
-        await this.executeIssuerMint(step);
-        break;
-      case 2:
-        await this.executeUserAuthorize(step);
-        break;
-      case 3:
-        await this.executeIssuerTransfer(step);
-        break;
-      default:
-        throw new Error(`Unknown step number: ${step.stepNo}`);
-    }
-  }
-
-  /**
-   * Step 1: Issuer mints MPT
-   */
-  private async executeIssuerMint(step: OperationStep): Promise<void> {
-    try {
-      // 1. Get issuer's wallet from environment variable
-      const issuerSeed = process.env.ISSUER_SEED;
-      if (!issuerSeed) {
-        throw new Error('ISSUER_SEED is not configured in .env');
-      }
-      const issuerWallet = Wallet.fromSeed(issuerSeed);
-
-      // 2. Build MPTokenIssuanceCreate transaction
-      const tx = buildMPTokenIssuanceCreate({
-        account: issuerWallet.address,
-        assetScale: this.params.assetScale,
-        maximumAmount: this.params.maximumAmount,
-        transferFee: this.params.transferFee,
-        metadata: this.params.metadata
-      });
-
-      console.log(`  → Issuer minting MPT: ${issuerWallet.address}`);
-
-      // 3. Submit transaction
-      const submitResult: SubmitResult = await submitTransaction(
-        tx,
-        issuerWallet
-      );
-
-      // 4. Update step to SUBMITTED
-      await this.updateStepStatus(step.id!, StepStatus.SUBMITTED, {
-        txHash: submitResult.txHash,
-        submitResult: submitResult.submitResult
-      });
-
-      console.log(`  → Transaction submitted: ${submitResult.txHash}`);
-
-      // 5. Wait for validation
-      const validationResult = await waitForValidation(submitResult.txHash);
-
-      // 6. Update step based on validation result
-      if (validationResult.status === ValidationStatus.SUCCESS) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_SUCCESS, {
-          validatedResult: validationResult.details
-        });
-
+export const MINT_OPERATION: OperationDefinition<MintOperationParams> = {
+  type: OperationType.MINT,
+  async loadParams(_pool, operation) {
+    return {
+      operationId: operation.id,
+      issuanceId: operation.issuanceId ?? '', // Set once step 1 is validated
+      userWalletId: operation.toWalletId!,
+      amount: operation.amount,
+      assetScale: 0,
+      maximumAmount: operation.amount,
+      transferFee: 0,
+      metadata: operation.metadata ? encodeGcMetadata(operation.metadata) : undefined
+    };
+  },
+  steps: [
+    {
+      kind: 'issuer_mint',
+      txType: 'MPTokenIssuanceCreate',
+      walletId: () => null, // Issuer is determined from environment variable
+      async prepare({ params }) {
+        const issuerWallet = getIssuerWallet();
+
+        return {
+          tx: buildMPTokenIssuanceCreate({
+            account: issuerWallet.address,
+            assetScale: params.assetScale,
+            maximumAmount: params.maximumAmount,
+            transferFee: params.transferFee,
+            metadata: params.metadata
+          }),
+          description: `Issuer minting MPT: ${issuerWallet.address}`
+        };
+      },
+      projectParams(params, tx) {
+        // The issuance ID is derived from the issuer and the transaction sequence
+        return { ...params, issuanceId: computeMPTIssuanceId(tx.Account, tx.Sequence!) };
+      },
+      async onValidated({ pool, operationId }, details) {
         // Extract MPT Issuance ID and save to operations table
-        const mptIssuanceId = this.extractMPTIssuanceId(
-          validationResult.details
-        );
+        const mptIssuanceId = extractMPTIssuanceId(details);
         if (mptIssuanceId) {
-          await this.pool.query(
+          await pool.query(
             `UPDATE operations SET issuance_id = $1 WHERE id = $2`,
-            [mptIssuanceId, this.operationId]
+            [mptIssuanceId, operationId]
           );
           console.log(`  → MPT Issuance ID: ${mptIssuanceId}`);
+
+          await recordIssuance(pool, operationId, mptIssuanceId, details);
         }
-      } else if (validationResult.status === ValidationStatus.FAILED) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED, {
-          validatedResult: validationResult.details
-        });
-        throw new Error(
-          `Transaction validation failed: ${validationResult.transactionResult}`
-        );
-      } else {
-        // TIMEOUT
-        await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
-        throw new Error('Transaction validation timeout');
       }
-    } catch (error: any) {
-      console.error(`  ✗ Step 1 error:`, error);
-      await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED);
-      throw error;
-    }
-  }
-
-  /**
-   * Step 2: User authorizes
-   */
-  private async executeUserAuthorize(step: OperationStep): Promise<void> {
-    try {
-      // 1. Get user's secret key
-      const userSecret = await this.secretManager.retrieveSecret(
-        this.params.userWalletId
-      );
-      const userWallet = Wallet.fromSeed(userSecret);
-
-      // 2. Get MPT Issuance ID
-      const mptIssuanceId = await this.getMPTIssuanceId();
-
-      // 3. Build MPTokenAuthorize transaction
-      const tx = buildMPTokenAuthorize({
-        account: userWallet.address,
-        mptIssuanceId
-      });
-
-      console.log(`  → User authorizing MPT: ${userWallet.address}`);
-
-      // 4. Submit transaction
-      const submitResult: SubmitResult = await submitTransaction(
-        tx,
-        userWallet
-      );
-
-      // 5. Update step to SUBMITTED
-      await this.updateStepStatus(step.id!, StepStatus.SUBMITTED, {
-        txHash: submitResult.txHash,
-        submitResult: submitResult.submitResult
-      });
-
-      console.log(`  → Transaction submitted: ${submitResult.txHash}`);
-
-      // 6. Wait for validation
-      const validationResult = await waitForValidation(submitResult.txHash);
-
-      // 7. Update step based on validation result
-      if (validationResult.status === ValidationStatus.SUCCESS) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_SUCCESS, {
-          validatedResult: validationResult.details
-        });
-      } else if (validationResult.status === ValidationStatus.FAILED) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED, {
-          validatedResult: validationResult.details
-        });
-        throw new Error(
-          `Transaction validation failed: ${validationResult.transactionResult}`
+    },
+    {
+      kind: 'user_authorize',
+      txType: 'MPTokenAuthorize',
+      walletId: (params) => params.userWalletId,
+      async skip(context) {
+        return skipIfAuthorized(
+          await getWalletAddress(context.pool, context.params.userWalletId),
+          await getMPTIssuanceId(context)
         );
-      } else {
-        await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
-        throw new Error('Transaction validation timeout');
+      },
+      async prepare(context) {
+        const userAddress = await getWalletAddress(context.pool, context.params.userWalletId);
+
+        return {
+          tx: buildMPTokenAuthorize({
+            account: userAddress,
+            mptIssuanceId: await getMPTIssuanceId(context)
+          }),
+          description: `User authorizing MPT: ${userAddress}`
+        };
+      }
+    },
+    {
+      kind: 'issuer_transfer',
+      txType: 'Payment',
+      walletId: () => null, // Issuer is determined from environment variable
+      async prepare(context) {
+        const issuerWallet = getIssuerWallet();
+
+        return {
+          tx: buildMPTPayment({
+            account: issuerWallet.address,
+            destination: await getWalletAddress(context.pool, context.params.userWalletId),
+            mptIssuanceId: await getMPTIssuanceId(context),
+            amount: context.params.amount
+          }),
+          description: `Issuer transferring MPT to User: ${context.params.amount}`
+        };
       }
-    } catch (error: any) {
-      console.error(`  ✗ Step 2 error:`, error);
-      await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED);
-      throw error;
     }
-  }
-
-  /**
-   * Step 3: Issuer transfers to user
-   */
-  private async executeIssuerTransfer(step: OperationStep): Promise<void> {
-    try {
-      // 1. Get issuer's wallet from environment variable
-      const issuerSeed = process.env.ISSUER_SEED;
-      if (!issuerSeed) {
-        throw new Error('ISSUER_SEED is not configured in .env');
+  ],
+  compensations: [
+    {
+      kind: 'user_unauthorize',
+      txType: 'MPTokenAuthorize',
+      walletId: (params) => params.userWalletId,
+      isNeeded: (completed) => completed.has('user_authorize') && !completed.has('issuer_transfer'),
+      async prepare(context) {
+        const userAddress = await getWalletAddress(context.pool, context.params.userWalletId);
+
+        return {
+          tx: buildMPTokenAuthorize({
+            account: userAddress,
+            mptIssuanceId: await getMPTIssuanceId(context),
+            unauthorize: true
+          }),
+          description: `User releasing orphan MPToken: ${userAddress}`
+        };
       }
-      const issuerWallet = Wallet.fromSeed(issuerSeed);
-
-      // 2. Get user's address
-      const userAddress = await this.getUserAddress();
-
-      // 3. Get MPT Issuance ID
-      const mptIssuanceId = await this.getMPTIssuanceId();
-
-      // 4. Build Payment transaction
-      const tx = buildMPTPayment({
-        account: issuerWallet.address,
-        destination: userAddress,
-        mptIssuanceId,
-        amount: this.params.amount
-      });
-
-      console.log(
-        `  → Issuer transferring MPT to User: ${this.params.amount}`
-      );
-
-      // 5. Submit transaction
-      const submitResult: SubmitResult = await submitTransaction(
-        tx,
-        issuerWallet
-      );
-
-      // 6. Update step to SUBMITTED
-      await this.updateStepStatus(step.id!, StepStatus.SUBMITTED, {
-        txHash: submitResult.txHash,
-        submitResult: submitResult.submitResult
-      });
-
-      console.log(`  → Transaction submitted: ${submitResult.txHash}`);
-
-      // 7. Wait for validation
-      const validationResult = await waitForValidation(submitResult.txHash);
-
-      // 8. Update step based on validation result
-      if (validationResult.status === ValidationStatus.SUCCESS) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_SUCCESS, {
-          validatedResult: validationResult.details
-        });
-      } else if (validationResult.status === ValidationStatus.FAILED) {
-        await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED, {
-          validatedResult: validationResult.details
-        });
-        throw new Error(
-          `Transaction validation failed: ${validationResult.transactionResult}`
+    },
+    {
+      kind: 'issuer_destroy_issuance',
+      txType: 'MPTokenIssuanceDestroy',
+      walletId: () => null, // Issuer is determined from environment variable
+      isNeeded: (completed) => completed.has('issuer_mint') && !completed.has('issuer_transfer'),
+      async prepare(context) {
+        const issuerWallet = getIssuerWallet();
+        const mptIssuanceId = await getMPTIssuanceId(context);
+
+        return {
+          tx: buildMPTokenIssuanceDestroy({
+            account: issuerWallet.address,
+            mptIssuanceId
+          }),
+          description: `Issuer destroying orphan issuance: ${mptIssuanceId}`
+        };
+      },
+      async onValidated(context) {
+        await context.pool.query(
+          `UPDATE mpt_issuances SET destroyed_at = NOW() WHERE issuance_id = $1`,
+          [await getMPTIssuanceId(context)]
         );
-      } else {
-        await this.updateStepStatus(step.id!, StepStatus.PENDING_VALIDATION);
-        throw new Error('Transaction validation timeout');
       }
-    } catch (error: any) {
-      console.error(`  ✗ Step 3 error:`, error);
-      await this.updateStepStatus(step.id!, StepStatus.VALIDATED_FAILED);
-      throw error;
     }
+  ]
+};
+
+/**
+ * Mint operation (3 steps, see MINT_OPERATION)
+ */
+export class MintOperation extends BaseOperation<MintOperationParams> {
+  constructor(
+    pool: Pool,
+    params: MintOperationParams,
+    secretManager: WalletSecretManager
+  ) {
+    super(pool, params.operationId, MINT_OPERATION, params, secretManager);
   }
+}
 
-  /**
-   * Get MPT Issuance ID
-   */
-  private async getMPTIssuanceId(): Promise<string> {
-    const result = await this.pool.query(
-      'SELECT issuance_id FROM operations WHERE id = $1',
-      [this.operationId]
-    );
+/**
+ * Get MPT Issuance ID (set once step 1 is validated; projected in dry runs)
+ */
+async function getMPTIssuanceId({ pool, operationId, params }: StepContext<MintOperationParams>): Promise<string> {
+  if (params.issuanceId) {
+    return params.issuanceId;
+  }
 
-    if (result.rows.length === 0 || !result.rows[0].issuance_id) {
-      throw new Error('MPT Issuance ID not found');
-    }
+  const result = await pool.query(
+    'SELECT issuance_id FROM operations WHERE id = $1',
+    [operationId]
+  );
 
-    return result.rows[0].issuance_id;
+  if (result.rows.length === 0 || !result.rows[0].issuance_id) {
+    throw new Error('MPT Issuance ID not found');
   }
 
-  /**
-   * Get user's address
-   */
-  private async getUserAddress(): Promise<string> {
-    const result = await this.pool.query(
-      'SELECT xrpl_address FROM wallets WHERE id = $1',
-      [this.params.userWalletId]
-    );
-
-    if (result.rows.length === 0) {
-      throw new Error(`User wallet not found: ${this.params.userWalletId}`);
-    }
+  return result.rows[0].issuance_id;
+}
 
-    return result.rows[0].xrpl_address;
-  }
+/**
+ * Record the created issuance in mpt_issuances
+ */
+async function recordIssuance(
+  pool: Pool,
+  operationId: string,
+  mptIssuanceId: string,
+  details: any
+): Promise<void> {
+  const tx = details?.tx_json ?? details ?? {};
+  const issuanceService = new IssuanceService(pool);
+
+  await issuanceService.recordIssuance({
+    issuanceId: mptIssuanceId,
+    flags: tx.Flags ?? 0,
+    metadata: tx.MPTokenMetadata ? decodeGcMetadata(tx.MPTokenMetadata) : null,
+    maximumAmount: tx.MaximumAmount ?? null,
+    issuerAddress: tx.Account,
+    txHash: details?.hash ?? tx.hash,
+    operationId
+  });
+}
 
-  /**
-   * Extract MPT Issuance ID from validation result
-   */
-  private extractMPTIssuanceId(details: any): string | null {
-    try {
-      if (details?.meta?.mpt_issuance_id) {
-        return details.meta.mpt_issuance_id;
-      }
-      return null;
-    } catch (error) {
-      console.error('Failed to extract MPT Issuance ID:', error);
-      return null;
+/**
+ * Extract MPT Issuance ID from validation result
+ */
+function extractMPTIssuanceId(details: any): string | null {
+  try {
+    if (details?.meta?.mpt_issuance_id) {
+      return details.meta.mpt_issuance_id;
     }
+    return null;
+  } catch (error) {
+    console.error('Failed to extract MPT Issuance ID:', error);
+    return null;
   }
 }
-
-
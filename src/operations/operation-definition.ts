@@ -0,0 +1,226 @@
+import { Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { Wallet } from 'xrpl';
+import type { SubmittableTransaction } from 'xrpl';
+import { OperationType, OperationStatus, StepStatus } from './base-operation';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+import { hasMPToken } from '../xrpl/mptoken';
+
+/**
+ * Context passed to a step executor
+ */
+export interface StepContext<P> {
+  pool: Pool;
+  operationId: string;
+  params: P;
+}
+
+/**
+ * Unsigned transaction prepared by a step executor
+ * It is signed with the wallet of the executor's walletId.
+ */
+export interface PreparedStep {
+  tx: SubmittableTransaction;
+  description: string;   // Log line (e.g. 'Issuer minting MPT: rXXX')
+}
+
+/**
+ * Step executor
+ * Builds the transaction of one step; signing, submission, validation and
+ * persistence are shared by BaseOperation (and dry runs).
+ */
+export interface StepExecutor<P> {
+  kind: string;                               // Stored in operation_steps.kind
+  txType: string;                             // XRPL transaction type
+  walletId(params: P): string | null;         // Signing wallet (null for issuer steps)
+  prepare(context: StepContext<P>): Promise<PreparedStep>;
+  skip?(context: StepContext<P>): Promise<StepStatus | null>;  // Status to record instead of submitting (null = submit)
+  onValidated?(context: StepContext<P>, details: any): Promise<void>;
+  projectParams?(params: P, tx: SubmittableTransaction): P;  // Dry run: params of later steps as if this step were validated
+}
+
+/**
+ * Compensation step executor
+ * Undoes the effect of completed regular steps after the operation failed
+ */
+export interface CompensationExecutor<P> extends StepExecutor<P> {
+  isNeeded(completedKinds: Set<string>): boolean;  // Given the kinds of validated regular steps
+}
+
+/**
+ * Operation as stored in the operations table
+ */
+export interface StoredOperation {
+  id: string;
+  type: OperationType;
+  status: OperationStatus;
+  issuanceId: string | null;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  amount: string;
+  metadata: any;
+}
+
+/**
+ * Declarative operation definition: steps run in list order
+ */
+export interface OperationDefinition<P> {
+  type: OperationType;
+  steps: StepExecutor<P>[];
+  compensations?: CompensationExecutor<P>[];  // Run in list order when the operation fails
+  loadParams(pool: Pool, operation: StoredOperation): Promise<P>;  // Rebuild params from the stored operation
+}
+
+export interface PlannedStep {
+  stepNo: number;
+  kind: string;
+  walletId: string | null;
+  txType: string;
+}
+
+/**
+ * Plan the steps of an operation from its definition
+ * @param definition Operation definition
+ * @param params Operation parameters
+ * @returns Steps numbered from 1
+ */
+export function planSteps<P>(definition: OperationDefinition<P>, params: P): PlannedStep[] {
+  return definition.steps.map((executor, index) => ({
+    stepNo: index + 1,
+    kind: executor.kind,
+    walletId: executor.walletId(params),
+    txType: executor.txType
+  }));
+}
+
+/**
+ * Plan the compensation steps of a failed operation
+ * @param definition Operation definition
+ * @param params Operation parameters
+ * @param steps Existing steps of the operation
+ * @returns Needed compensation steps, numbered after the existing steps
+ */
+export function planCompensationSteps<P>(
+  definition: OperationDefinition<P>,
+  params: P,
+  steps: { stepNo: number; kind: string; status: StepStatus }[]
+): PlannedStep[] {
+  // Skipped steps changed nothing on ledger, so only validated ones are undone
+  const completedKinds = new Set(
+    steps.filter((step) => step.status === StepStatus.VALIDATED_SUCCESS).map((step) => step.kind)
+  );
+  const lastStepNo = Math.max(0, ...steps.map((step) => step.stepNo));
+
+  return (definition.compensations ?? [])
+    .filter((executor) => executor.isNeeded(completedKinds))
+    .map((executor, index) => ({
+      stepNo: lastStepNo + index + 1,
+      kind: executor.kind,
+      walletId: executor.walletId(params),
+      txType: executor.txType
+    }));
+}
+
+/**
+ * Insert planned steps as PENDING
+ * @param pool Database pool or client
+ * @param operationId Operation ID
+ * @param steps Planned steps
+ * @param options compensation: mark the steps as compensation steps
+ */
+export async function insertSteps(
+  pool: Pool | PoolClient,
+  operationId: string,
+  steps: PlannedStep[],
+  options: { compensation?: boolean } = {}
+): Promise<void> {
+  for (const step of steps) {
+    await pool.query(
+      `INSERT INTO operation_steps
+       (id, operation_id, step_no, kind, wallet_id, tx_type, status, compensation, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW(), NOW())`,
+      [
+        uuidv4(),
+        operationId,
+        step.stepNo,
+        step.kind,
+        step.walletId,
+        step.txType,
+        StepStatus.PENDING,
+        options.compensation ?? false
+      ]
+    );
+  }
+}
+
+/**
+ * Skip an authorize step when the holder already has the MPToken object
+ * (a second MPTokenAuthorize would fail on ledger)
+ * @param account Holder account address
+ * @param mptIssuanceId MPT Issuance ID
+ */
+export async function skipIfAuthorized(
+  account: string,
+  mptIssuanceId: string
+): Promise<StepStatus | null> {
+  return (await hasMPToken(account, mptIssuanceId))
+    ? StepStatus.SKIPPED_ALREADY_AUTHORIZED
+    : null;
+}
+
+/**
+ * Get issuer's wallet from environment variable
+ */
+export function getIssuerWallet(): Wallet {
+  const issuerSeed = process.env.ISSUER_SEED;
+
+  if (!issuerSeed) {
+    throw new Error('ISSUER_SEED is not configured in .env');
+  }
+
+  return Wallet.fromSeed(issuerSeed);
+}
+
+/**
+ * Get a user wallet from its stored secret
+ */
+export async function getUserWallet(
+  secretManager: WalletSecretManager,
+  walletId: string
+): Promise<Wallet> {
+  const secret = await secretManager.retrieveSecret(walletId);
+  return Wallet.fromSeed(secret);
+}
+
+/**
+ * Get the signing wallet of a step (null wallet ID = issuer)
+ */
+export async function getSignerWallet(
+  secretManager: WalletSecretManager,
+  walletId: string | null
+): Promise<Wallet> {
+  return walletId ? getUserWallet(secretManager, walletId) : getIssuerWallet();
+}
+
+/**
+ * Get the signing address of a step (null wallet ID = issuer), without its secret
+ */
+export async function getSignerAddress(pool: Pool, walletId: string | null): Promise<string> {
+  return walletId ? getWalletAddress(pool, walletId) : getIssuerWallet().address;
+}
+
+/**
+ * Get wallet address
+ */
+export async function getWalletAddress(pool: Pool, walletId: string): Promise<string> {
+  const result = await pool.query(
+    'SELECT xrpl_address FROM wallets WHERE id = $1',
+    [walletId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new Error(`Wallet not found: ${walletId}`);
+  }
+
+  return result.rows[0].xrpl_address;
+}
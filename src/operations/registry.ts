@@ -0,0 +1,85 @@
+import { Pool } from 'pg';
+import { BaseOperation, OperationType } from './base-operation';
+import { OperationDefinition, StoredOperation } from './operation-definition';
+import { MintOperation, MINT_OPERATION } from './mint-operation';
+import { TransferOperation, TRANSFER_OPERATION } from './transfer-operation';
+import { BurnOperation, BURN_OPERATION } from './burn-operation';
+import { RetireOperation, RETIRE_OPERATION } from './retire-operation';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+
+type OperationClass = new (
+  pool: Pool,
+  params: any,
+  secretManager: WalletSecretManager
+) => BaseOperation<any>;
+
+// Operation type -> definition and implementing class
+const OPERATIONS: Record<OperationType, { definition: OperationDefinition<any>; operationClass: OperationClass }> = {
+  [OperationType.MINT]: { definition: MINT_OPERATION, operationClass: MintOperation },
+  [OperationType.TRANSFER]: { definition: TRANSFER_OPERATION, operationClass: TransferOperation },
+  [OperationType.BURN]: { definition: BURN_OPERATION, operationClass: BurnOperation },
+  [OperationType.RETIRE]: { definition: RETIRE_OPERATION, operationClass: RetireOperation }
+};
+
+/**
+ * Get the definition of an operation type
+ */
+export function getOperationDefinition(type: OperationType): OperationDefinition<any> {
+  const entry = OPERATIONS[type];
+
+  if (!entry) {
+    throw new Error(`Unknown operation type: ${type}`);
+  }
+
+  return entry.definition;
+}
+
+/**
+ * Load a stored operation
+ * @param pool Database pool
+ * @param operationId Operation ID
+ * @returns Stored operation (null if not found)
+ */
+export async function getStoredOperation(
+  pool: Pool,
+  operationId: string
+): Promise<StoredOperation | null> {
+  const result = await pool.query(
+    `SELECT id, type, status, issuance_id, from_wallet_id, to_wallet_id,
+            amount::TEXT AS amount, metadata
+     FROM operations
+     WHERE id = $1`,
+    [operationId]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    issuanceId: row.issuance_id,
+    fromWalletId: row.from_wallet_id,
+    toWalletId: row.to_wallet_id,
+    amount: row.amount,
+    metadata: row.metadata
+  };
+}
+
+/**
+ * Instantiate the executable operation for a stored operation
+ * Parameters are rebuilt from the database, so any process can resume the operation.
+ */
+export async function instantiateOperation(
+  pool: Pool,
+  operation: StoredOperation,
+  secretManager: WalletSecretManager
+): Promise<BaseOperation<any>> {
+  const definition = getOperationDefinition(operation.type);
+  const params = await definition.loadParams(pool, operation);
+
+  return new OPERATIONS[operation.type].operationClass(pool, params, secretManager);
+}
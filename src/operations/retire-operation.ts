@@ -0,0 +1,90 @@
+import { Pool } from 'pg';
+import {
+  BaseOperation,
+  OperationType
+} from './base-operation';
+import {
+  OperationDefinition,
+  getIssuerWallet,
+  getWalletAddress
+} from './operation-definition';
+import { buildMPTPayment } from '../xrpl/builders';
+import { WalletSecretManager } from '../services/wallet-secret-manager';
+
+export interface RetireOperationParams {
+  operationId: string;
+  retirementId: string;
+  issuanceId: string;
+  holderWalletId: string;
+  amount: string;
+}
+
+/**
+ * Retire operation definition (1 step)
+ * 1. Holder redeems MPT to the issuer (Payment), removing it from circulation
+ *
+ * Unlike burn (issuer clawback), the holder signs the removal and the
+ * consumption claim is recorded in the retirements table
+ */
+export const RETIRE_OPERATION: OperationDefinition<RetireOperationParams> = {
+  type: OperationType.RETIRE,
+  async loadParams(pool, operation) {
+    const result = await pool.query(
+      'SELECT id FROM retirements WHERE operation_id = $1',
+      [operation.id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Retirement not found for operation: ${operation.id}`);
+    }
+
+    return {
+      operationId: operation.id,
+      retirementId: result.rows[0].id,
+      issuanceId: operation.issuanceId!,
+      holderWalletId: operation.fromWalletId!,
+      amount: operation.amount
+    };
+  },
+  steps: [
+    {
+      kind: 'holder_redeem',
+      txType: 'Payment',
+      walletId: (params) => params.holderWalletId,
+      async prepare({ pool, params }) {
+        const holderAddress = await getWalletAddress(pool, params.holderWalletId);
+
+        // Payment to issuer reduces outstanding amount
+        return {
+          tx: buildMPTPayment({
+            account: holderAddress,
+            destination: getIssuerWallet().address,
+            mptIssuanceId: params.issuanceId,
+            amount: params.amount
+          }),
+          description: `Holder retiring MPT: ${params.amount} (retirement: ${params.retirementId})`
+        };
+      },
+      async onValidated({ pool, params }) {
+        // Mark retirement record as retired
+        await pool.query(
+          `UPDATE retirements SET retired_at = NOW() WHERE id = $1`,
+          [params.retirementId]
+        );
+      }
+    }
+  ]
+};
+
+/**
+ * Retire operation (1 step, see RETIRE_OPERATION)
+ */
+export class RetireOperation extends BaseOperation<RetireOperationParams> {
+  constructor(
+    pool: Pool,
+    params: RetireOperationParams,
+    secretManager: WalletSecretManager
+  ) {
+    super(pool, params.operationId, RETIRE_OPERATION, params, secretManager);
+  }
+}
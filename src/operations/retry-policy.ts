@@ -0,0 +1,44 @@
+/**
+ * Step retry policy
+ * Retriable step failures are retried with exponential backoff and jitter
+ */
+
+export interface RetryPolicy {
+  maxAttempts: number;  // Attempts per step including the first (env STEP_MAX_ATTEMPTS, default 5)
+  baseDelayMs: number;  // Delay after the first failed attempt (env STEP_RETRY_BASE_MS, default 2000)
+  maxDelayMs: number;   // Upper bound of the delay (env STEP_RETRY_MAX_MS, default 60000)
+}
+
+/**
+ * Retry policy from environment variables
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: positiveInteger(process.env.STEP_MAX_ATTEMPTS, 5),
+    baseDelayMs: positiveInteger(process.env.STEP_RETRY_BASE_MS, 2000),
+    maxDelayMs: positiveInteger(process.env.STEP_RETRY_MAX_MS, 60000)
+  };
+}
+
+/**
+ * Backoff before the next attempt ("equal jitter": half fixed, half random)
+ * @param attempt Failed attempts so far (1 after the first failure)
+ * @param policy Retry policy
+ * @param random Random source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+  const half = exponential / 2;
+
+  return Math.round(half + random() * half);
+}
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? fallback);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
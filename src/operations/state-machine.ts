@@ -0,0 +1,269 @@
+import { Pool, PoolClient } from 'pg';
+import {
+  OperationStatus,
+  StepStatus,
+  OPERATION_TRANSITIONS,
+  STEP_TRANSITIONS
+} from './base-operation';
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public entity: 'operation' | 'step',
+    public id: string,
+    public from: string,
+    public to: string
+  ) {
+    super(`Invalid ${entity} transition ${from} → ${to} (${id})`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Who made a transition and why
+ */
+export interface TransitionEvent {
+  actor: string;            // e.g. 'api', 'worker', 'admin', 'expiry-job'
+  reason?: string | null;
+}
+
+export interface OperationEvent {
+  id: string;
+  operationId: string;
+  stepId: string | null;
+  stepNo: number | null;
+  entity: 'operation' | 'step';
+  fromStatus: string | null;  // NULL for the creation event
+  toStatus: string;
+  actor: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Record the creation of an operation (NULL → PENDING, or SCHEDULED)
+ * @param pool Database pool or client
+ * @param operationId Operation ID
+ * @param actor Creator
+ * @param status Initial status
+ */
+export async function recordOperationCreated(
+  pool: Pool | PoolClient,
+  operationId: string,
+  actor: string,
+  status: OperationStatus = OperationStatus.PENDING
+): Promise<void> {
+  await insertEvent(pool, operationId, null, null, 'operation', null, status, { actor });
+}
+
+/**
+ * Move an operation to a new status and record the event
+ * Given a client, runs in the caller's transaction.
+ * @param pool Database pool or client
+ * @param operationId Operation ID
+ * @param to New status
+ * @param event Actor and reason
+ * @param options errorMessage / errorCode: new error message and code (undefined keeps
+ *                the current one); expected: only transition from this status
+ * @returns false if the operation is not in the expected status
+ * @throws InvalidTransitionError if the transition is not allowed
+ */
+export async function transitionOperation(
+  pool: Pool | PoolClient,
+  operationId: string,
+  to: OperationStatus,
+  event: TransitionEvent,
+  options: {
+    errorMessage?: string | null;
+    errorCode?: string | null;
+    expected?: OperationStatus;
+  } = {}
+): Promise<boolean> {
+  return inTransaction(pool, async (client) => {
+    // 1. Lock the operation
+    const result = await client.query(
+      'SELECT status FROM operations WHERE id = $1 FOR UPDATE',
+      [operationId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Operation not found: ${operationId}`);
+    }
+
+    const from: OperationStatus = result.rows[0].status;
+
+    if (options.expected && from !== options.expected) {
+      return false;
+    }
+
+    if (from !== to && !OPERATION_TRANSITIONS[from].includes(to)) {
+      throw new InvalidTransitionError('operation', operationId, from, to);
+    }
+
+    // 2. Update
+    const fields = ['status = $1', 'updated_at = NOW()'];
+    const values: any[] = [to];
+
+    if (options.errorMessage !== undefined) {
+      fields.push(`error_message = $${values.length + 1}`);
+      values.push(options.errorMessage);
+    }
+
+    if (options.errorCode !== undefined) {
+      fields.push(`error_code = $${values.length + 1}`);
+      values.push(options.errorCode);
+    }
+
+    values.push(operationId);
+    await client.query(
+      `UPDATE operations SET ${fields.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+
+    // 3. Record the event
+    if (from !== to) {
+      await insertEvent(client, operationId, null, null, 'operation', from, to, event);
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Move a step to a new status, update its fields and record the event
+ * @param pool Database pool
+ * @param stepId Step ID
+ * @param to New status
+ * @param event Actor and reason
+ * @param fields Other columns to set (column name → value)
+ * @throws InvalidTransitionError if the transition is not allowed
+ */
+export async function transitionStep(
+  pool: Pool,
+  stepId: string,
+  to: StepStatus,
+  event: TransitionEvent,
+  fields: Record<string, unknown> = {}
+): Promise<void> {
+  await withTransaction(pool, async (client) => {
+    // 1. Lock the step
+    const result = await client.query(
+      'SELECT operation_id, step_no, status FROM operation_steps WHERE id = $1 FOR UPDATE',
+      [stepId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error(`Step not found: ${stepId}`);
+    }
+
+    const { operation_id: operationId, step_no: stepNo } = result.rows[0];
+    const from: StepStatus = result.rows[0].status;
+
+    if (from !== to && !STEP_TRANSITIONS[from].includes(to)) {
+      throw new InvalidTransitionError('step', stepId, from, to);
+    }
+
+    // 2. Update
+    const assignments = ['status = $1', 'updated_at = NOW()'];
+    const values: any[] = [to];
+
+    for (const [column, value] of Object.entries(fields)) {
+      values.push(value);
+      assignments.push(`${column} = $${values.length}`);
+    }
+
+    values.push(stepId);
+    await client.query(
+      `UPDATE operation_steps SET ${assignments.join(', ')} WHERE id = $${values.length}`,
+      values
+    );
+
+    // 3. Record the event
+    if (from !== to) {
+      await insertEvent(client, operationId, stepId, stepNo, 'step', from, to, event);
+    }
+  });
+}
+
+/**
+ * List the events of an operation, oldest first
+ * @param pool Database pool
+ * @param operationId Operation ID
+ */
+export async function listOperationEvents(
+  pool: Pool,
+  operationId: string
+): Promise<OperationEvent[]> {
+  const result = await pool.query(
+    `SELECT id, operation_id, step_id, step_no, entity, from_status, to_status, actor, reason, created_at
+     FROM operation_events
+     WHERE operation_id = $1
+     ORDER BY id ASC`,
+    [operationId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    operationId: row.operation_id,
+    stepId: row.step_id,
+    stepNo: row.step_no,
+    entity: row.entity,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actor: row.actor,
+    reason: row.reason,
+    createdAt: row.created_at
+  }));
+}
+
+async function insertEvent(
+  db: Pool | PoolClient,
+  operationId: string,
+  stepId: string | null,
+  stepNo: number | null,
+  entity: 'operation' | 'step',
+  from: string | null,
+  to: string,
+  event: TransitionEvent
+): Promise<void> {
+  await db.query(
+    `INSERT INTO operation_events
+     (operation_id, step_id, step_no, entity, from_status, to_status, actor, reason, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())`,
+    [operationId, stepId, stepNo, entity, from, to, event.actor, event.reason ?? null]
+  );
+}
+
+/**
+ * Run a function in a transaction on a dedicated client
+ * (committed when it returns, rolled back when it throws)
+ * @param pool Database pool
+ * @param fn Function to run with the client
+ */
+export async function withTransaction<T>(
+  pool: Pool,
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run in the caller's transaction when given a client, otherwise in a new one
+ */
+async function inTransaction<T>(
+  db: Pool | PoolClient,
+  fn: (client: PoolClient) => Promise<T>
+): Promise<T> {
+  return 'release' in db ? fn(db) : withTransaction(db, fn);
+}
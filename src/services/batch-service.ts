@@ -0,0 +1,169 @@
+import { Pool } from 'pg';
+import { OperationType, OperationStatus } from '../operations/base-operation';
+
+export enum BatchStatus {
+  IN_PROGRESS = 'IN_PROGRESS',                     // Some operations are not finished
+  COMPLETED = 'COMPLETED',                         // Every item succeeded
+  COMPLETED_WITH_ERRORS = 'COMPLETED_WITH_ERRORS'  // Finished; some items were rejected or failed
+}
+
+// Status reported for items that did not create an operation
+export const REJECTED_ITEM_STATUS = 'REJECTED';
+
+export interface BatchItemRecord {
+  itemNo: number;
+  type: OperationType | null;
+  idempotencyKey: string | null;
+  operationId: string | null;
+  httpStatus: number;
+  error: any | null;
+}
+
+export interface BatchItemStatus extends BatchItemRecord {
+  status: OperationStatus | typeof REJECTED_ITEM_STATUS;
+  errorCode: string | null;     // Operation error code (failed operations)
+  errorMessage: string | null;
+}
+
+export interface BatchProgress {
+  total: number;
+  completed: number;    // succeeded + failed + cancelled + rejected
+  pending: number;
+  succeeded: number;
+  failed: number;       // FAILED or COMPENSATED
+  cancelled: number;
+  rejected: number;
+}
+
+export interface BatchInfo {
+  batchId: string;
+  status: BatchStatus;
+  progress: BatchProgress;
+  items: BatchItemStatus[];
+  createdAt: Date;
+}
+
+/**
+ * Batch service
+ * Records operations submitted together and reports their aggregate progress
+ */
+export class BatchService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create a batch record
+   * @param itemCount Number of items in the request
+   * @returns Batch ID
+   */
+  async createBatch(itemCount: number): Promise<string> {
+    const result = await this.pool.query(
+      `INSERT INTO operation_batches (item_count, created_at)
+       VALUES ($1, NOW())
+       RETURNING id`,
+      [itemCount]
+    );
+
+    return result.rows[0].id;
+  }
+
+  /**
+   * Record the outcome of one item
+   * @param batchId Batch ID
+   * @param item Item outcome
+   */
+  async recordItem(batchId: string, item: BatchItemRecord): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO batch_items
+       (batch_id, item_no, type, idempotency_key, operation_id, http_status, error, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+      [
+        batchId,
+        item.itemNo,
+        item.type,
+        item.idempotencyKey,
+        item.operationId,
+        item.httpStatus,
+        item.error ? JSON.stringify(item.error) : null
+      ]
+    );
+  }
+
+  /**
+   * Get a batch with the current status of each item and completion counts
+   * @param batchId Batch ID
+   * @returns Batch (null if not found)
+   */
+  async getBatch(batchId: string): Promise<BatchInfo | null> {
+    const batch = await this.pool.query(
+      'SELECT id, item_count, created_at FROM operation_batches WHERE id::TEXT = $1',
+      [batchId]
+    );
+
+    if (batch.rows.length === 0) {
+      return null;
+    }
+
+    const result = await this.pool.query(
+      `SELECT i.item_no, i.type, i.idempotency_key, i.operation_id, i.http_status, i.error,
+              o.status, o.error_code, o.error_message
+       FROM batch_items i
+       LEFT JOIN operations o ON o.id = i.operation_id
+       WHERE i.batch_id = $1
+       ORDER BY i.item_no ASC`,
+      [batch.rows[0].id]
+    );
+
+    const items: BatchItemStatus[] = result.rows.map((row) => ({
+      itemNo: row.item_no,
+      type: row.type,
+      idempotencyKey: row.idempotency_key,
+      operationId: row.operation_id,
+      status: row.operation_id ? row.status : REJECTED_ITEM_STATUS,
+      httpStatus: row.http_status,
+      error: row.error,
+      errorCode: row.error_code ?? null,
+      errorMessage: row.error_message ?? null
+    }));
+
+    const progress = summarize(items, Number(batch.rows[0].item_count));
+
+    return {
+      batchId: batch.rows[0].id,
+      status: progress.pending > 0
+        ? BatchStatus.IN_PROGRESS
+        : progress.succeeded === progress.total
+          ? BatchStatus.COMPLETED
+          : BatchStatus.COMPLETED_WITH_ERRORS,
+      progress,
+      items,
+      createdAt: batch.rows[0].created_at
+    };
+  }
+}
+
+/**
+ * Count items by outcome
+ * Items of the batch that have no recorded outcome count as pending.
+ * @param items Recorded items
+ * @param total Number of items in the request
+ */
+function summarize(items: BatchItemStatus[], total: number): BatchProgress {
+  const count = (statuses: string[]) =>
+    items.filter((item) => statuses.includes(item.status)).length;
+
+  const succeeded = count([OperationStatus.SUCCESS]);
+  const failed = count([OperationStatus.FAILED, OperationStatus.COMPENSATED]);
+  const cancelled = count([OperationStatus.CANCELLED]);
+  const rejected = count([REJECTED_ITEM_STATUS]);
+  const completed = succeeded + failed + cancelled + rejected;
+
+  return {
+    total,
+    completed,
+    pending: total - completed,
+    succeeded,
+    failed,
+    cancelled,
+    rejected
+  };
+}
@@ -0,0 +1,300 @@
+import { Pool } from 'pg';
+import { GcAttributes, EnergySource, FieldError } from '../certificates';
+import { Coordinates } from '../matching/grid-zones';
+
+export enum DeviceStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended',
+  DECOMMISSIONED = 'decommissioned'
+}
+
+export interface Device {
+  id: string;
+  name: string;
+  ownerWalletId: string;
+  energySource: EnergySource;
+  technology: string;
+  capacityKw: string;         // Decimal string (up to 3 fraction digits)
+  commissioningDate: string;  // 'YYYY-MM-DD'
+  country: string;
+  gridZone: string;
+  location: Coordinates | null;
+  status: DeviceStatus;
+  decommissionedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface RegisterDeviceParams {
+  id?: string;
+  name: string;
+  ownerWalletId: string;
+  energySource: EnergySource;
+  technology: string;
+  capacityKw: string;
+  commissioningDate: string;
+  country: string;
+  gridZone: string;
+  location?: Coordinates;
+}
+
+export interface UpdateDeviceParams {
+  name?: string;
+  ownerWalletId?: string;
+  capacityKw?: string;
+  location?: Coordinates | null;
+  status?: DeviceStatus.ACTIVE | DeviceStatus.SUSPENDED;
+}
+
+export interface DeviceFilters {
+  ownerWalletId?: string;
+  status?: DeviceStatus;
+  gridZone?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Device registry
+ * Manages production devices and checks mints against them
+ */
+export class DeviceRegistry {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Register a production device
+   * @param params Device attributes
+   * @returns Registered device
+   */
+  async registerDevice(params: RegisterDeviceParams): Promise<Device> {
+    const result = await this.pool.query(
+      `INSERT INTO devices
+       (id, name, owner_wallet_id, energy_source, technology, capacity_kw, commissioning_date,
+        country, grid_zone, latitude, longitude, status, created_at, updated_at)
+       VALUES (COALESCE($1, gen_random_uuid()::TEXT), $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW(), NOW())
+       RETURNING *`,
+      [
+        params.id ?? null,
+        params.name,
+        params.ownerWalletId,
+        params.energySource,
+        params.technology,
+        params.capacityKw,
+        params.commissioningDate,
+        params.country,
+        params.gridZone,
+        params.location?.latitude ?? null,
+        params.location?.longitude ?? null,
+        DeviceStatus.ACTIVE
+      ]
+    );
+
+    return this.toDevice(result.rows[0]);
+  }
+
+  /**
+   * Get device
+   * @param deviceId Device ID
+   * @returns Device (null if not found)
+   */
+  async getDevice(deviceId: string): Promise<Device | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM devices WHERE id = $1',
+      [deviceId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toDevice(result.rows[0]);
+  }
+
+  /**
+   * List devices
+   * @param filters Owner, status and grid zone filters with pagination
+   * @returns Devices (newest first)
+   */
+  async listDevices(filters: DeviceFilters = {}): Promise<Device[]> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (filters.ownerWalletId) {
+      values.push(filters.ownerWalletId);
+      conditions.push(`owner_wallet_id = $${values.length}`);
+    }
+    if (filters.status) {
+      values.push(filters.status);
+      conditions.push(`status = $${values.length}`);
+    }
+    if (filters.gridZone) {
+      values.push(filters.gridZone);
+      conditions.push(`grid_zone = $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    values.push(filters.limit ?? 50, filters.offset ?? 0);
+
+    const result = await this.pool.query(
+      `SELECT * FROM devices ${where}
+       ORDER BY created_at DESC, id ASC
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    );
+
+    return result.rows.map((row) => this.toDevice(row));
+  }
+
+  /**
+   * Update mutable device attributes
+   * Decommissioned devices cannot be updated
+   * @param deviceId Device ID
+   * @param params Attributes to update
+   * @returns Updated device (null if not found or decommissioned)
+   */
+  async updateDevice(deviceId: string, params: UpdateDeviceParams): Promise<Device | null> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+    const set = (column: string, value: unknown) => {
+      values.push(value);
+      sets.push(`${column} = $${values.length}`);
+    };
+
+    if (params.name !== undefined) set('name', params.name);
+    if (params.ownerWalletId !== undefined) set('owner_wallet_id', params.ownerWalletId);
+    if (params.capacityKw !== undefined) set('capacity_kw', params.capacityKw);
+    if (params.status !== undefined) set('status', params.status);
+    if (params.location !== undefined) {
+      set('latitude', params.location?.latitude ?? null);
+      set('longitude', params.location?.longitude ?? null);
+    }
+
+    values.push(deviceId, DeviceStatus.DECOMMISSIONED);
+    const result = await this.pool.query(
+      `UPDATE devices
+       SET ${[...sets, 'updated_at = NOW()'].join(', ')}
+       WHERE id = $${values.length - 1} AND status <> $${values.length}
+       RETURNING *`,
+      values
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toDevice(result.rows[0]);
+  }
+
+  /**
+   * Decommission a device (the record is kept for existing GCs)
+   * @param deviceId Device ID
+   * @returns Decommissioned device (null if not found)
+   */
+  async decommissionDevice(deviceId: string): Promise<Device | null> {
+    const result = await this.pool.query(
+      `UPDATE devices
+       SET status = $2,
+           decommissioned_at = COALESCE(decommissioned_at, NOW()),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [deviceId, DeviceStatus.DECOMMISSIONED]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toDevice(result.rows[0]);
+  }
+
+  /**
+   * Check a mint against the registered device
+   * - amount must not exceed capacity × 1 hour
+   * - production hour must not precede the commissioning date
+   * - GC attributes must match the device
+   * @param device Registered device
+   * @param attributes Normalized GC attributes
+   * @param amount Mint amount (kWh)
+   * @returns Field-level errors (empty if consistent)
+   */
+  validateIssuance(device: Device, attributes: GcAttributes, amount: string): FieldError[] {
+    const errors: FieldError[] = [];
+
+    // 1. Capacity: amount (kWh) <= capacity (kW) × 1 h, compared in Wh
+    const maxWh = toMilli(device.capacityKw);
+    if (BigInt(amount) * 1000n > maxWh) {
+      errors.push({
+        field: 'amount',
+        message: `Exceeds device capacity (max ${maxWh / 1000n} kWh per production hour)`
+      });
+    }
+
+    // 2. Commissioning date
+    if (attributes.productionStart.slice(0, 10) < device.commissioningDate) {
+      errors.push({
+        field: 'metadata.productionStart',
+        message: `Before device commissioning date (${device.commissioningDate})`
+      });
+    }
+
+    // 3. Attributes registered with the device
+    const registered: [keyof GcAttributes, string][] = [
+      ['energySource', device.energySource],
+      ['technology', device.technology],
+      ['country', device.country],
+      ['gridZone', device.gridZone]
+    ];
+    for (const [key, value] of registered) {
+      if (attributes[key] !== value) {
+        errors.push({
+          field: `metadata.${key}`,
+          message: `Does not match registered device (${value})`
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  private toDevice(row: any): Device {
+    return {
+      id: row.id,
+      name: row.name,
+      ownerWalletId: row.owner_wallet_id,
+      energySource: row.energy_source,
+      technology: row.technology,
+      capacityKw: row.capacity_kw,
+      commissioningDate: formatDate(row.commissioning_date),
+      country: row.country,
+      gridZone: row.grid_zone,
+      location: row.latitude !== null && row.longitude !== null
+        ? { latitude: row.latitude, longitude: row.longitude }
+        : null,
+      status: row.status,
+      decommissionedAt: row.decommissioned_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+}
+
+/**
+ * Decimal string to integer thousandths (e.g. '2.5' -> 2500n)
+ */
+function toMilli(value: string): bigint {
+  const [whole = '0', fraction = ''] = value.split('.');
+  return BigInt(whole) * 1000n + BigInt(fraction.padEnd(3, '0').slice(0, 3));
+}
+
+/**
+ * DATE column (parsed as local midnight by pg) to 'YYYY-MM-DD'
+ */
+function formatDate(value: Date | string): string {
+  if (typeof value === 'string') {
+    return value.slice(0, 10);
+  }
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+}
@@ -2,7 +2,68 @@
 export { WalletSecretManager } from './wallet-secret-manager';
 export { WalletManager, WalletInfo, CreateWalletParams } from './wallet-manager';
 export { IdempotencyValidator } from './idempotency-validator';
+export {
+  IssuanceService,
+  IssuanceInfo,
+  IssuanceSupply,
+  IssuanceFilters,
+  IssuanceProvenance,
+  ExpiringHolding,
+  ProvenanceEvent,
+  ProvenanceTransaction
+} from './issuance-service';
 export {
   WalletLockManager,
-  walletLockManager
+  WalletLockOptions,
+  WalletLockTimeoutError
 } from './wallet-lock-manager';
+export { TicketPool, TicketPoolOptions, TicketStatus } from './ticket-pool';
+export { SequenceAllocator } from './sequence-allocator';
+export {
+  MatchingService,
+  ConsumptionSite,
+  MatchingRun,
+  MatchingRunParams,
+  CreateSiteParams
+} from './matching-service';
+export {
+  DeviceRegistry,
+  DeviceStatus,
+  Device,
+  RegisterDeviceParams,
+  UpdateDeviceParams,
+  DeviceFilters
+} from './device-registry';
+export {
+  OperationService,
+  DuplicateIssuanceError,
+  DuplicateOperationError,
+  CreateMintParams,
+  CreateBurnParams,
+  CreateTransferParams,
+  CreateRetireParams,
+  CreatedOperation,
+  CreatedRetirement,
+  StepSummary,
+  ScheduledOperation,
+  validateAmount,
+  validateExecuteAt
+} from './operation-service';
+export { OperationQueue, OperationJobStatus } from './operation-queue';
+export {
+  BatchService,
+  BatchStatus,
+  BatchItemRecord,
+  BatchItemStatus,
+  BatchProgress,
+  BatchInfo,
+  REJECTED_ITEM_STATUS
+} from './batch-service';
+export { PreflightValidator, PreflightCode, PreflightViolation } from './preflight-validator';
+export {
+  MeterIngestionService,
+  IngestionResult,
+  MintedHour,
+  SkippedHour,
+  RejectedReadings
+} from './meter-ingestion-service';
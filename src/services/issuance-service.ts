@@ -0,0 +1,488 @@
+import { Pool } from 'pg';
+import { GcAttributes, computeExpiry } from '../certificates';
+
+// MPTokenIssuanceCreate flags
+const MPT_FLAG_CAN_TRANSFER = 32;  // 0x20
+const MPT_FLAG_CAN_CLAWBACK = 64;  // 0x40
+
+export interface RecordIssuanceParams {
+  issuanceId: string;
+  flags: number;
+  metadata: GcAttributes | null;
+  maximumAmount: string | null;
+  issuerAddress: string;
+  txHash: string;
+  operationId: string;
+}
+
+export interface IssuanceInfo {
+  issuanceId: string;
+  flags: number;
+  canTransfer: boolean;
+  canClawback: boolean;
+  metadata: GcAttributes | null;
+  maximumAmount: string | null;
+  issuerAddress: string | null;
+  txHash: string | null;
+  operationId: string | null;
+  expiresAt: Date | null;  // null when the issuance carries no production hour
+  destroyedAt: Date | null;  // Set when a failed mint was compensated
+  createdAt: Date;
+}
+
+export interface IssuanceSupply {
+  minted: string;
+  outstanding: string;
+  clawedBack: string;
+  retired: string;
+  holderCount: number;
+}
+
+export interface ProvenanceTransaction {
+  stepNo: number;
+  kind: string;
+  txType: string;
+  txHash: string | null;
+  ledgerIndex: number | null;
+  transactionIndex: number | null;
+  closeTime: string | null;
+}
+
+export interface ProvenanceEvent {
+  sequence: number;               // 1-based position in the history
+  operationId: string;
+  type: 'mint' | 'transfer' | 'burn' | 'retire';
+  fromWalletId: string;           // 'issuer' for mint
+  toWalletId: string;             // 'issuer' for burn/retire
+  amount: string;
+  txHash: string | null;          // Transaction that moved the tokens
+  ledgerIndex: number | null;
+  closeTime: string | null;
+  retirementId?: string;
+  transactions: ProvenanceTransaction[];  // All validated transactions of the operation
+}
+
+export interface IssuanceProvenance {
+  issuanceId: string;
+  events: ProvenanceEvent[];
+  balances: { walletId: string; balance: string }[];
+}
+
+export interface ExpiringHolding {
+  issuanceId: string;
+  balance: string;
+  expiresAt: Date;
+  expired: boolean;
+  metadata: GcAttributes | null;
+}
+
+export interface IssuanceFilters {
+  deviceId?: string;
+  energySource?: string;
+  technology?: string;
+  country?: string;
+  gridZone?: string;
+  issuingBody?: string;
+  productionFrom?: string;  // productionStart >= (ISO 8601)
+  productionTo?: string;    // productionStart < (ISO 8601)
+  limit?: number;
+  offset?: number;
+}
+
+// Filters matched against metadata attributes (filter name -> attribute key)
+const METADATA_FILTERS: (keyof GcAttributes & keyof IssuanceFilters)[] = [
+  'deviceId',
+  'energySource',
+  'technology',
+  'country',
+  'gridZone',
+  'issuingBody'
+];
+
+/**
+ * Issuance service
+ * Persists MPT issuances and derives supply figures from successful operations
+ */
+export class IssuanceService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Record a validated MPTokenIssuanceCreate
+   * Does nothing if the issuance is already recorded
+   * The expiry is derived from the production hour and the validity policy.
+   * @param params Issuance details
+   */
+  async recordIssuance(params: RecordIssuanceParams): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO mpt_issuances
+       (issuance_id, flags, can_transfer, can_clawback, metadata, maximum_amount,
+        issuer_address, tx_hash, operation_id, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+       ON CONFLICT (issuance_id) DO NOTHING`,
+      [
+        params.issuanceId,
+        params.flags,
+        (params.flags & MPT_FLAG_CAN_TRANSFER) !== 0,
+        (params.flags & MPT_FLAG_CAN_CLAWBACK) !== 0,
+        params.metadata ? JSON.stringify(params.metadata) : null,
+        params.maximumAmount,
+        params.issuerAddress,
+        params.txHash,
+        params.operationId,
+        params.metadata?.productionStart ? computeExpiry(params.metadata.productionStart) : null
+      ]
+    );
+  }
+
+  /**
+   * Get issuance by MPT Issuance ID
+   * @param issuanceId MPT Issuance ID
+   * @returns Issuance info (null if not found)
+   */
+  async getIssuance(issuanceId: string): Promise<IssuanceInfo | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM mpt_issuances WHERE issuance_id = $1`,
+      [issuanceId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toIssuanceInfo(result.rows[0]);
+  }
+
+  /**
+   * List issuances filtered by metadata attributes
+   * @param filters Metadata filters and paging
+   * @returns Array of issuance info (newest first)
+   */
+  async listIssuances(filters: IssuanceFilters = {}): Promise<IssuanceInfo[]> {
+    const conditions: string[] = [];
+    const values: any[] = [];
+
+    for (const key of METADATA_FILTERS) {
+      if (filters[key]) {
+        values.push(filters[key]);
+        conditions.push(`metadata->>'${key}' = $${values.length}`);
+      }
+    }
+
+    if (filters.productionFrom) {
+      values.push(filters.productionFrom);
+      conditions.push(`(metadata->>'productionStart')::timestamptz >= $${values.length}`);
+    }
+
+    if (filters.productionTo) {
+      values.push(filters.productionTo);
+      conditions.push(`(metadata->>'productionStart')::timestamptz < $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    values.push(filters.limit ?? 50);
+    const limitParam = values.length;
+    values.push(filters.offset ?? 0);
+    const offsetParam = values.length;
+
+    const result = await this.pool.query(
+      `SELECT * FROM mpt_issuances
+       ${where}
+       ORDER BY created_at DESC
+       LIMIT $${limitParam} OFFSET $${offsetParam}`,
+      values
+    );
+
+    return result.rows.map((row) => this.toIssuanceInfo(row));
+  }
+
+  /**
+   * Derive supply figures of an issuance from successful operations
+   * @param issuanceId MPT Issuance ID
+   * @returns Minted, outstanding, clawed-back and retired amounts and holder count
+   */
+  async getSupply(issuanceId: string): Promise<IssuanceSupply> {
+    const totals = await this.pool.query(
+      `SELECT
+         COALESCE(SUM(amount) FILTER (WHERE type = 'mint'), 0)::TEXT AS minted,
+         COALESCE(SUM(amount) FILTER (WHERE type = 'burn'), 0)::TEXT AS clawed_back,
+         COALESCE(SUM(amount) FILTER (WHERE type = 'retire'), 0)::TEXT AS retired
+       FROM operations
+       WHERE issuance_id = $1 AND status = 'SUCCESS'`,
+      [issuanceId]
+    );
+
+    const minted = BigInt(totals.rows[0].minted);
+    const clawedBack = BigInt(totals.rows[0].clawed_back);
+    const retired = BigInt(totals.rows[0].retired);
+
+    const balances = await this.getHolderBalances(issuanceId);
+    const holderCount = [...balances.values()].filter((balance) => balance > 0n).length;
+
+    return {
+      minted: minted.toString(),
+      outstanding: (minted - clawedBack - retired).toString(),
+      clawedBack: clawedBack.toString(),
+      retired: retired.toString(),
+      holderCount
+    };
+  }
+
+  /**
+   * Derive per-holder balances of an issuance from successful operations
+   * @param issuanceId MPT Issuance ID
+   * @returns Map of wallet ID to balance
+   */
+  async getHolderBalances(issuanceId: string): Promise<Map<string, bigint>> {
+    const result = await this.pool.query(
+      `SELECT type, from_wallet_id, to_wallet_id, amount::TEXT AS amount
+       FROM operations
+       WHERE issuance_id = $1 AND status = 'SUCCESS'
+       ORDER BY created_at ASC`,
+      [issuanceId]
+    );
+
+    const balances = new Map<string, bigint>();
+    for (const row of result.rows) {
+      applyToBalances(balances, row.type, row.from_wallet_id, row.to_wallet_id, BigInt(row.amount));
+    }
+
+    return balances;
+  }
+
+  /**
+   * Chain-of-custody history of an issuance from successful operations
+   * Events are ordered by the ledger position of the transaction that moved the tokens.
+   * @param issuanceId MPT Issuance ID
+   * @returns Ordered events with tx hashes and ledger indexes, and the implied balances
+   */
+  async getProvenance(issuanceId: string): Promise<IssuanceProvenance> {
+    const result = await this.pool.query(
+      `SELECT o.id, o.type, o.from_wallet_id, o.to_wallet_id, o.amount::TEXT AS amount,
+              o.created_at, r.id AS retirement_id,
+              json_agg(json_build_object(
+                'stepNo', s.step_no,
+                'kind', s.kind,
+                'txType', s.tx_type,
+                'txHash', COALESCE(s.tx_hash, s.validated_result->>'hash'),
+                'ledgerIndex', (s.validated_result->>'ledger_index')::BIGINT,
+                'transactionIndex', (s.validated_result->'meta'->>'TransactionIndex')::INTEGER,
+                'closeTime', s.validated_result->>'close_time_iso'
+              ) ORDER BY s.step_no) AS transactions
+       FROM operations o
+       JOIN operation_steps s ON s.operation_id = o.id AND s.status = 'VALIDATED_SUCCESS'
+       LEFT JOIN retirements r ON r.operation_id = o.id
+       WHERE o.issuance_id = $1 AND o.status = 'SUCCESS'
+       GROUP BY o.id, r.id`,
+      [issuanceId]
+    );
+
+    // 1. Build events (the last step of each operation is the one moving tokens)
+    const events = result.rows.map((row) => {
+      const transactions: ProvenanceTransaction[] = row.transactions;
+      const settlement = transactions[transactions.length - 1]!;
+      const [fromWalletId, toWalletId] = custodyOf(row.type, row.from_wallet_id, row.to_wallet_id);
+
+      return {
+        event: {
+          sequence: 0,
+          operationId: row.id,
+          type: row.type,
+          fromWalletId,
+          toWalletId,
+          amount: row.amount,
+          txHash: settlement.txHash,
+          ledgerIndex: settlement.ledgerIndex,
+          closeTime: settlement.closeTime,
+          ...(row.retirement_id && { retirementId: row.retirement_id }),
+          transactions
+        } as ProvenanceEvent,
+        transactionIndex: settlement.transactionIndex ?? 0,
+        createdAt: new Date(row.created_at).getTime(),
+        row
+      };
+    });
+
+    // 2. Order by ledger position (operations without ledger data last, by creation time)
+    events.sort((a, b) =>
+      (a.event.ledgerIndex ?? Infinity) - (b.event.ledgerIndex ?? Infinity) ||
+      a.transactionIndex - b.transactionIndex ||
+      a.createdAt - b.createdAt
+    );
+
+    // 3. Replay the history into balances
+    const balances = new Map<string, bigint>();
+    events.forEach(({ event, row }, index) => {
+      event.sequence = index + 1;
+      applyToBalances(balances, row.type, row.from_wallet_id, row.to_wallet_id, BigInt(row.amount));
+    });
+
+    return {
+      issuanceId,
+      events: events.map(({ event }) => event),
+      balances: [...balances.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([walletId, balance]) => ({ walletId, balance: balance.toString() }))
+    };
+  }
+
+  /**
+   * Derive balances held by a wallet across issuances from successful operations
+   * @param walletId Wallet ID
+   * @returns Map of MPT Issuance ID to positive balance
+   */
+  async getWalletBalances(walletId: string): Promise<Map<string, bigint>> {
+    const result = await this.pool.query(
+      `SELECT issuance_id,
+              SUM(CASE
+                    WHEN type IN ('mint', 'transfer') AND to_wallet_id = $1 THEN amount
+                    ELSE 0
+                  END)
+              - SUM(CASE
+                      WHEN type IN ('transfer', 'retire') AND from_wallet_id = $1 THEN amount
+                      WHEN type = 'burn' AND to_wallet_id = $1 THEN amount
+                      ELSE 0
+                    END) AS balance
+       FROM operations
+       WHERE status = 'SUCCESS'
+         AND issuance_id IS NOT NULL
+         AND (from_wallet_id = $1 OR to_wallet_id = $1)
+       GROUP BY issuance_id`,
+      [walletId]
+    );
+
+    const balances = new Map<string, bigint>();
+    for (const row of result.rows) {
+      const balance = BigInt(row.balance);
+      if (balance > 0n) {
+        balances.set(row.issuance_id, balance);
+      }
+    }
+
+    return balances;
+  }
+
+  /**
+   * Find expired clawback-enabled issuances with outstanding holder balances
+   * @param limit Maximum number of issuances
+   * @returns Issuance IDs (earliest expiry first)
+   */
+  async findExpiredIssuances(limit: number = 50): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT i.issuance_id
+       FROM mpt_issuances i
+       JOIN operations o ON o.issuance_id = i.issuance_id AND o.status = 'SUCCESS'
+       WHERE i.expires_at <= NOW()
+         AND i.can_clawback = TRUE
+       GROUP BY i.issuance_id, i.expires_at
+       HAVING COALESCE(SUM(o.amount) FILTER (WHERE o.type = 'mint'), 0)
+            > COALESCE(SUM(o.amount) FILTER (WHERE o.type IN ('burn', 'retire')), 0)
+       ORDER BY i.expires_at ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    return result.rows.map((row) => row.issuance_id);
+  }
+
+  /**
+   * Holdings of a wallet that expire within the given window (already expired included)
+   * @param walletId Wallet ID
+   * @param withinDays Window in days from now
+   * @returns Holdings ordered by expiry
+   */
+  async getExpiringHoldings(walletId: string, withinDays: number): Promise<ExpiringHolding[]> {
+    const balances = await this.getWalletBalances(walletId);
+    if (balances.size === 0) {
+      return [];
+    }
+
+    const result = await this.pool.query(
+      `SELECT issuance_id, metadata, expires_at, expires_at <= NOW() AS expired
+       FROM mpt_issuances
+       WHERE issuance_id = ANY($1)
+         AND expires_at <= NOW() + make_interval(days => $2)
+       ORDER BY expires_at ASC, issuance_id ASC`,
+      [[...balances.keys()], withinDays]
+    );
+
+    return result.rows.map((row) => ({
+      issuanceId: row.issuance_id,
+      balance: balances.get(row.issuance_id)!.toString(),
+      expiresAt: row.expires_at,
+      expired: row.expired,
+      metadata: row.metadata
+    }));
+  }
+
+  private toIssuanceInfo(row: any): IssuanceInfo {
+    return {
+      issuanceId: row.issuance_id,
+      flags: row.flags,
+      canTransfer: row.can_transfer,
+      canClawback: row.can_clawback,
+      metadata: row.metadata,
+      maximumAmount: row.maximum_amount,
+      issuerAddress: row.issuer_address,
+      txHash: row.tx_hash,
+      operationId: row.operation_id,
+      expiresAt: row.expires_at ?? null,
+      destroyedAt: row.destroyed_at ?? null,
+      createdAt: row.created_at
+    };
+  }
+}
+
+/**
+ * Apply a successful operation to per-holder balances
+ */
+function applyToBalances(
+  balances: Map<string, bigint>,
+  type: string,
+  fromWalletId: string | null,
+  toWalletId: string | null,
+  amount: bigint
+): void {
+  const add = (walletId: string | null, delta: bigint) => {
+    if (!walletId) return;
+    balances.set(walletId, (balances.get(walletId) ?? 0n) + delta);
+  };
+
+  switch (type) {
+    case 'mint':
+      add(toWalletId, amount);
+      break;
+    case 'transfer':
+      add(fromWalletId, -amount);
+      add(toWalletId, amount);
+      break;
+    case 'burn':
+      // Burn stores the holder in to_wallet_id
+      add(toWalletId, -amount);
+      break;
+    case 'retire':
+      add(fromWalletId, -amount);
+      break;
+  }
+}
+
+/**
+ * Direction of custody for an operation ([from, to], issuer as 'issuer')
+ */
+function custodyOf(
+  type: string,
+  fromWalletId: string | null,
+  toWalletId: string | null
+): [string, string] {
+  switch (type) {
+    case 'mint':
+      return ['issuer', toWalletId!];
+    case 'burn':
+      // Burn stores the holder in to_wallet_id
+      return [toWalletId!, 'issuer'];
+    case 'retire':
+      return [fromWalletId!, 'issuer'];
+    default:
+      return [fromWalletId!, toWalletId!];
+  }
+}
@@ -0,0 +1,365 @@
+import { Pool } from 'pg';
+import { createHash } from 'crypto';
+import { IssuanceService } from './issuance-service';
+import {
+  runTimeMatching,
+  CertificateSupply,
+  HourlyLoad,
+  MatchingResult,
+  SupplySource,
+  GeoMode,
+  GeoOptions
+} from '../matching/time-matching';
+import { getGridZoneTaxonomy, Coordinates } from '../matching/grid-zones';
+
+export interface ConsumptionSite {
+  id: string;
+  name: string;
+  walletId: string | null;
+  gridZone: string | null;
+  location: Coordinates | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateSiteParams {
+  name: string;
+  walletId?: string;
+  gridZone?: string;
+  location?: Coordinates;
+}
+
+export interface MatchingRunParams {
+  siteId: string;
+  walletId: string;
+  periodStart: string;  // inclusive (ISO 8601)
+  periodEnd: string;    // exclusive (ISO 8601)
+  sources: SupplySource[];
+  geoMode: GeoMode;
+}
+
+export interface MatchingInputs {
+  supply: CertificateSupply[];
+  load: HourlyLoad[];
+  geo?: GeoOptions;  // Absent for runs created before geographic matching
+}
+
+export interface MatchingRun {
+  id: string;
+  siteId: string;
+  walletId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  sources: SupplySource[];
+  geoMode: GeoMode;
+  inputHash: string;
+  inputs: MatchingInputs;
+  result: MatchingResult;
+  createdAt: Date;
+}
+
+/**
+ * Matching service
+ * Manages consumption sites and load profiles, and runs hourly time-matching
+ */
+export class MatchingService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Create a consumption site
+   * @param params Name, wallet holding GCs for this site, grid zone and coordinates
+   * @returns Created site
+   */
+  async createSite(params: CreateSiteParams): Promise<ConsumptionSite> {
+    const result = await this.pool.query(
+      `INSERT INTO consumption_sites
+       (name, wallet_id, grid_zone, latitude, longitude, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+       RETURNING *`,
+      [
+        params.name,
+        params.walletId ?? null,
+        params.gridZone ?? null,
+        params.location?.latitude ?? null,
+        params.location?.longitude ?? null
+      ]
+    );
+
+    return this.toSite(result.rows[0]);
+  }
+
+  /**
+   * Get consumption site
+   * @param siteId Site ID
+   * @returns Site (null if not found)
+   */
+  async getSite(siteId: string): Promise<ConsumptionSite | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM consumption_sites WHERE id = $1',
+      [siteId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toSite(result.rows[0]);
+  }
+
+  /**
+   * Store hourly loads for a site (re-uploaded hours are replaced)
+   * @param siteId Site ID
+   * @param loads Hourly loads
+   */
+  async upsertLoads(siteId: string, loads: HourlyLoad[]): Promise<void> {
+    if (loads.length === 0) {
+      return;
+    }
+
+    await this.pool.query(
+      `INSERT INTO consumption_loads (site_id, hour_start, load_kwh, updated_at)
+       SELECT $1, hour_start, load_kwh, NOW()
+       FROM UNNEST($2::timestamptz[], $3::numeric[]) AS t(hour_start, load_kwh)
+       ON CONFLICT (site_id, hour_start)
+       DO UPDATE SET load_kwh = EXCLUDED.load_kwh, updated_at = NOW()`,
+      [siteId, loads.map(l => l.hourStart), loads.map(l => l.kwh)]
+    );
+  }
+
+  /**
+   * Run hourly time-matching and store the run with its input snapshot
+   * @param params Site, wallet, period and certificate sources
+   * @returns Stored matching run
+   */
+  async runMatching(params: MatchingRunParams): Promise<MatchingRun> {
+    const site = await this.getSite(params.siteId);
+    if (!site) {
+      throw new Error(`Consumption site not found: ${params.siteId}`);
+    }
+
+    // 1. Collect inputs
+    const load = await this.getLoads(params.siteId, params.periodStart, params.periodEnd);
+    const supply = await this.collectSupply(site, params);
+    const geo: GeoOptions = {
+      mode: params.geoMode,
+      ...(site.gridZone && { siteZone: site.gridZone }),
+      ...(site.location && { siteLocation: site.location }),
+      zones: getGridZoneTaxonomy().listZones()
+    };
+    const inputs: MatchingInputs = { supply, load, geo };
+
+    // 2. Run engine
+    const result = runTimeMatching(supply, load, { geo });
+
+    // 3. Store run (inputs kept so the result can be reproduced)
+    const stored = await this.pool.query(
+      `INSERT INTO matching_runs
+       (site_id, wallet_id, period_start, period_end, sources, geo_mode, input_hash, inputs, result, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+       RETURNING *`,
+      [
+        params.siteId,
+        params.walletId,
+        params.periodStart,
+        params.periodEnd,
+        params.sources,
+        params.geoMode,
+        hashInputs(inputs),
+        JSON.stringify(inputs),
+        JSON.stringify(result)
+      ]
+    );
+
+    return this.toRun(stored.rows[0]);
+  }
+
+  /**
+   * Get a stored matching run
+   * @param runId Run ID
+   * @returns Run (null if not found)
+   */
+  async getRun(runId: string): Promise<MatchingRun | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM matching_runs WHERE id = $1',
+      [runId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toRun(result.rows[0]);
+  }
+
+  /**
+   * Re-run the engine on a stored input snapshot
+   * @param run Stored run
+   * @returns true if inputs hash and result are reproduced exactly
+   */
+  verifyRun(run: MatchingRun): boolean {
+    const recomputed = runTimeMatching(run.inputs.supply, run.inputs.load, { geo: run.inputs.geo });
+    return (
+      hashInputs(run.inputs) === run.inputHash &&
+      canonicalJson(recomputed) === canonicalJson(run.result)
+    );
+  }
+
+  /**
+   * Get hourly loads of a site within a period
+   */
+  private async getLoads(
+    siteId: string,
+    periodStart: string,
+    periodEnd: string
+  ): Promise<HourlyLoad[]> {
+    const result = await this.pool.query(
+      `SELECT hour_start, load_kwh::TEXT AS load_kwh
+       FROM consumption_loads
+       WHERE site_id = $1 AND hour_start >= $2 AND hour_start < $3
+       ORDER BY hour_start ASC`,
+      [siteId, periodStart, periodEnd]
+    );
+
+    return result.rows.map((row) => ({
+      hourStart: new Date(row.hour_start).toISOString(),
+      kwh: Number(row.load_kwh)
+    }));
+  }
+
+  /**
+   * Collect held and/or retired GCs of a wallet produced within the period
+   */
+  private async collectSupply(
+    site: ConsumptionSite,
+    params: MatchingRunParams
+  ): Promise<CertificateSupply[]> {
+    const supply: CertificateSupply[] = [];
+
+    // 1. Held GCs (current balances derived from operations)
+    if (params.sources.includes('held')) {
+      const issuanceService = new IssuanceService(this.pool);
+      const balances = await issuanceService.getWalletBalances(params.walletId);
+
+      if (balances.size > 0) {
+        const result = await this.pool.query(
+          `SELECT issuance_id, metadata->>'productionStart' AS production_start,
+                  metadata->>'gridZone' AS grid_zone, metadata->'location' AS location
+           FROM mpt_issuances
+           WHERE issuance_id = ANY($1)
+             AND (metadata->>'productionStart')::timestamptz >= $2
+             AND (metadata->>'productionStart')::timestamptz < $3`,
+          [[...balances.keys()], params.periodStart, params.periodEnd]
+        );
+
+        for (const row of result.rows) {
+          supply.push({
+            issuanceId: row.issuance_id,
+            source: 'held',
+            productionStart: row.production_start,
+            availableKwh: Number(balances.get(row.issuance_id)),
+            ...toSupplyGeo(row)
+          });
+        }
+      }
+    }
+
+    // 2. Retired GCs claimed for this site
+    if (params.sources.includes('retired')) {
+      const result = await this.pool.query(
+        `SELECT r.issuance_id, i.metadata->>'productionStart' AS production_start,
+                i.metadata->>'gridZone' AS grid_zone, i.metadata->'location' AS location,
+                SUM(r.amount)::TEXT AS amount
+         FROM retirements r
+         JOIN mpt_issuances i ON i.issuance_id = r.issuance_id
+         WHERE r.holder_wallet_id = $1
+           AND r.retired_at IS NOT NULL
+           AND r.consumption_site IN ($2, $3)
+           AND (i.metadata->>'productionStart')::timestamptz >= $4
+           AND (i.metadata->>'productionStart')::timestamptz < $5
+         GROUP BY r.issuance_id, i.metadata->>'productionStart',
+                  i.metadata->>'gridZone', i.metadata->'location'`,
+        [params.walletId, site.id, site.name, params.periodStart, params.periodEnd]
+      );
+
+      for (const row of result.rows) {
+        supply.push({
+          issuanceId: row.issuance_id,
+          source: 'retired',
+          productionStart: row.production_start,
+          availableKwh: Number(row.amount),
+          ...toSupplyGeo(row)
+        });
+      }
+    }
+
+    return supply;
+  }
+
+  private toSite(row: any): ConsumptionSite {
+    return {
+      id: row.id,
+      name: row.name,
+      walletId: row.wallet_id,
+      gridZone: row.grid_zone,
+      location: row.latitude !== null && row.longitude !== null
+        ? { latitude: row.latitude, longitude: row.longitude }
+        : null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private toRun(row: any): MatchingRun {
+    return {
+      id: row.id,
+      siteId: row.site_id,
+      walletId: row.wallet_id,
+      periodStart: row.period_start,
+      periodEnd: row.period_end,
+      sources: row.sources,
+      geoMode: row.geo_mode,
+      inputHash: row.input_hash,
+      inputs: row.inputs,
+      result: row.result,
+      createdAt: row.created_at
+    };
+  }
+}
+
+/**
+ * Grid zone and coordinates of a GC from issuance metadata columns
+ */
+function toSupplyGeo(row: any): Pick<CertificateSupply, 'gridZone' | 'location'> {
+  return {
+    ...(row.grid_zone && { gridZone: row.grid_zone }),
+    ...(row.location && {
+      location: { latitude: row.location.latitude, longitude: row.location.longitude }
+    })
+  };
+}
+
+/**
+ * SHA-256 of canonical (sorted) matching inputs
+ */
+function hashInputs(inputs: MatchingInputs): string {
+  const canonical = {
+    supply: [...inputs.supply].sort((a, b) =>
+      `${a.source}:${a.issuanceId}`.localeCompare(`${b.source}:${b.issuanceId}`)
+    ),
+    load: [...inputs.load].sort((a, b) => a.hourStart.localeCompare(b.hourStart)),
+    ...(inputs.geo && { geo: inputs.geo })
+  };
+
+  return createHash('sha256').update(canonicalJson(canonical)).digest('hex');
+}
+
+/**
+ * JSON with object keys sorted (JSONB does not preserve key order)
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
@@ -0,0 +1,302 @@
+import { Pool } from 'pg';
+import { DeviceRegistry, Device, DeviceStatus } from './device-registry';
+import {
+  OperationService,
+  DuplicateIssuanceError,
+  DuplicateOperationError
+} from './operation-service';
+import {
+  GcAttributes,
+  validateGcAttributes,
+  normalizeGcAttributes
+} from '../certificates';
+import {
+  MeterReading,
+  HourlyProduction,
+  aggregateHourly,
+  toMintAmount
+} from '../metering';
+import { OperationType, UNSUCCESSFUL_OPERATION_STATUSES } from '../operations/base-operation';
+
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+export interface MintedHour {
+  deviceId: string;
+  hourStart: string;
+  amount: string;
+  operationId: string;
+  idempotencyKey: string;
+  intervals: number;  // Uploaded intervals in this hour
+}
+
+export interface SkippedHour {
+  deviceId: string;
+  hourStart: string;
+  reason: string;
+  intervals: number;
+  operationId?: string;
+}
+
+export interface RejectedReadings {
+  row?: number;        // Set for row-level errors
+  deviceId?: string;
+  hourStart?: string;
+  reason: string;
+  intervals: number;
+}
+
+export interface IngestionResult {
+  summary: {
+    acceptedIntervals: number;
+    skippedIntervals: number;
+    rejectedIntervals: number;
+    mintedHours: number;
+  };
+  minted: MintedHour[];
+  skipped: SkippedHour[];
+  rejected: RejectedReadings[];
+}
+
+/**
+ * Meter ingestion service
+ * Stores interval readings and creates one mint operation per complete device-hour
+ */
+export class MeterIngestionService {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Idempotency key of the mint for a device-hour
+   * Re-uploading the same hour maps to the same operation; once that mint has failed
+   * or was cancelled, the next upload mints the hour again under the next attempt's key
+   * @param attempt Mint attempt of the hour (1: first)
+   */
+  static idempotencyKey(deviceId: string, hourStart: string, attempt: number = 1): string {
+    const key = `meter:${deviceId}:${hourStart}`;
+    return attempt > 1 ? `${key}#${attempt}` : key;
+  }
+
+  /**
+   * Ingest parsed readings
+   * @param readings Valid interval readings
+   * @returns Minted, skipped and rejected hours
+   */
+  async ingest(readings: MeterReading[]): Promise<IngestionResult> {
+    const result: IngestionResult = {
+      summary: { acceptedIntervals: 0, skippedIntervals: 0, rejectedIntervals: 0, mintedHours: 0 },
+      minted: [],
+      skipped: [],
+      rejected: []
+    };
+
+    const deviceRegistry = new DeviceRegistry(this.pool);
+    const devices = new Map<string, Device | null>();
+
+    const operationService = new OperationService(this.pool, 'meter-ingestion');
+
+    for (const uploaded of aggregateHourly(readings)) {
+      const intervals = uploaded.readings.length;
+
+      // 1. Device must be registered and active
+      if (!devices.has(uploaded.deviceId)) {
+        devices.set(uploaded.deviceId, await deviceRegistry.getDevice(uploaded.deviceId));
+      }
+      const device = devices.get(uploaded.deviceId)!;
+
+      if (!device) {
+        this.reject(result, uploaded, 'Device is not registered');
+        continue;
+      }
+      if (device.status !== DeviceStatus.ACTIVE) {
+        this.reject(result, uploaded, `Device is ${device.status}`);
+        continue;
+      }
+
+      // 2. Already issued hours are never re-minted (a mint that failed or was cancelled
+      //    does not count: the hour is minted again under the next attempt's key)
+      const issued = await operationService.findDeviceHourMint(uploaded.deviceId, uploaded.hourStart);
+      if (issued) {
+        this.skip(result, uploaded, 'Hour already issued', issued);
+        continue;
+      }
+
+      const idempotencyKey = MeterIngestionService.idempotencyKey(
+        uploaded.deviceId,
+        uploaded.hourStart,
+        await this.nextAttempt(uploaded.deviceId, uploaded.hourStart)
+      );
+
+      // 3. Store readings and aggregate the whole stored hour (may span earlier uploads)
+      await this.storeReadings(uploaded.readings);
+      const hour = aggregateHourly(await this.getHourReadings(uploaded.deviceId, uploaded.hourStart))[0]!;
+
+      if (hour.coverage === 'overlapping') {
+        this.reject(result, uploaded, 'Intervals overlap within the hour');
+        continue;
+      }
+      if (hour.coverage === 'incomplete') {
+        this.skip(result, uploaded, `Incomplete hour (${hour.coveredMinutes} of 60 minutes)`);
+        continue;
+      }
+
+      const amount = toMintAmount(hour.kwh);
+      if (amount === '0') {
+        this.skip(result, uploaded, `Below 1 kWh (${hour.kwh} kWh)`);
+        continue;
+      }
+
+      // 4. GC attributes from the device registry
+      const attributes = this.buildAttributes(device, hour.hourStart, amount);
+      const errors = [
+        ...validateGcAttributes(attributes, amount),
+        ...deviceRegistry.validateIssuance(device, normalizeGcAttributes(attributes), amount)
+      ];
+      if (errors.length > 0) {
+        this.reject(result, uploaded, errors.map(e => `${e.field}: ${e.message}`).join('; '));
+        continue;
+      }
+
+      // 5. Create mint (a concurrent upload of the same hour loses on the unique key)
+      try {
+        const operation = await operationService.createMint({
+          idempotencyKey,
+          userWalletId: device.ownerWalletId,
+          amount,
+          attributes: normalizeGcAttributes(attributes)
+        });
+
+        await this.pool.query(
+          `UPDATE meter_readings SET operation_id = $1, updated_at = NOW()
+           WHERE device_id = $2 AND interval_start >= $3 AND interval_start < $4`,
+          [operation.operationId, hour.deviceId, hour.hourStart, hourEnd(hour.hourStart)]
+        );
+
+        result.minted.push({
+          deviceId: hour.deviceId,
+          hourStart: hour.hourStart,
+          amount,
+          operationId: operation.operationId,
+          idempotencyKey,
+          intervals
+        });
+        result.summary.acceptedIntervals += intervals;
+        result.summary.mintedHours++;
+      } catch (error: any) {
+        if (error instanceof DuplicateIssuanceError) {
+          // Issued by a mint with another idempotency key (corrections use the correction flow)
+          this.skip(result, uploaded, 'Hour already issued', error.originalOperationId);
+          continue;
+        }
+        if (!(error instanceof DuplicateOperationError)) {
+          throw error;
+        }
+        this.skip(result, uploaded, 'Hour already issued', error.operationId);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Upsert readings (readings of an already issued hour are left unchanged; those of
+   * a mint that failed or was cancelled are replaced before the hour is minted again)
+   */
+  private async storeReadings(readings: MeterReading[]): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO meter_readings (device_id, interval_start, interval_minutes, kwh, created_at, updated_at)
+       SELECT device_id, interval_start, interval_minutes, kwh, NOW(), NOW()
+       FROM UNNEST($1::text[], $2::timestamptz[], $3::smallint[], $4::numeric[])
+         AS t(device_id, interval_start, interval_minutes, kwh)
+       ON CONFLICT (device_id, interval_start)
+       DO UPDATE SET interval_minutes = EXCLUDED.interval_minutes, kwh = EXCLUDED.kwh, updated_at = NOW()
+       WHERE meter_readings.operation_id IS NULL
+          OR meter_readings.operation_id IN (SELECT id FROM operations WHERE status = ANY($5))`,
+      [
+        readings.map(r => r.deviceId),
+        readings.map(r => r.intervalStart),
+        readings.map(r => r.intervalMinutes),
+        readings.map(r => r.kwh),
+        UNSUCCESSFUL_OPERATION_STATUSES
+      ]
+    );
+  }
+
+  /**
+   * Attempt number of the next mint of a device-hour (one more than its unsuccessful mints)
+   */
+  private async nextAttempt(deviceId: string, hourStart: string): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*) AS attempts FROM operations
+       WHERE type = $1 AND device_id = $2 AND production_hour = $3
+         AND issuance_revision = 0 AND status = ANY($4)`,
+      [OperationType.MINT, deviceId, hourStart, UNSUCCESSFUL_OPERATION_STATUSES]
+    );
+
+    return Number(result.rows[0].attempts) + 1;
+  }
+
+  /**
+   * Get stored readings of a device-hour
+   */
+  private async getHourReadings(deviceId: string, hourStart: string): Promise<MeterReading[]> {
+    const result = await this.pool.query(
+      `SELECT device_id, interval_start, interval_minutes, kwh::TEXT AS kwh
+       FROM meter_readings
+       WHERE device_id = $1 AND interval_start >= $2 AND interval_start < $3
+       ORDER BY interval_start ASC`,
+      [deviceId, hourStart, hourEnd(hourStart)]
+    );
+
+    return result.rows.map((row) => ({
+      row: 0,
+      deviceId: row.device_id,
+      intervalStart: new Date(row.interval_start).toISOString(),
+      intervalMinutes: row.interval_minutes,
+      kwh: Number(row.kwh)
+    }));
+  }
+
+  private buildAttributes(device: Device, hourStart: string, amount: string): GcAttributes {
+    return {
+      deviceId: device.id,
+      productionStart: hourStart,
+      productionEnd: hourEnd(hourStart),
+      energySource: device.energySource,
+      technology: device.technology,
+      country: device.country,
+      gridZone: device.gridZone,
+      volumeKwh: amount,
+      issuingBody: process.env.GC_ISSUING_BODY || 'GRPL',
+      ...(device.location && { location: device.location })
+    };
+  }
+
+  private skip(
+    result: IngestionResult,
+    hour: HourlyProduction,
+    reason: string,
+    operationId?: string
+  ): void {
+    result.skipped.push({
+      deviceId: hour.deviceId,
+      hourStart: hour.hourStart,
+      reason,
+      intervals: hour.readings.length,
+      ...(operationId && { operationId })
+    });
+    result.summary.skippedIntervals += hour.readings.length;
+  }
+
+  private reject(result: IngestionResult, hour: HourlyProduction, reason: string): void {
+    result.rejected.push({
+      deviceId: hour.deviceId,
+      hourStart: hour.hourStart,
+      reason,
+      intervals: hour.readings.length
+    });
+    result.summary.rejectedIntervals += hour.readings.length;
+  }
+}
+
+function hourEnd(hourStart: string): string {
+  return new Date(Date.parse(hourStart) + ONE_HOUR_MS).toISOString().replace('.000Z', 'Z');
+}
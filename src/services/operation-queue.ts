@@ -0,0 +1,161 @@
+import { Pool, PoolClient } from 'pg';
+import { OperationStatus } from '../operations/base-operation';
+
+export enum OperationJobStatus {
+  QUEUED = 'QUEUED',
+  LEASED = 'LEASED',
+  DONE = 'DONE'
+}
+
+/**
+ * Operation queue
+ * Postgres-backed work queue with leased claims; an expired lease makes the job claimable again
+ * (constructed with a client, its writes join the client's transaction)
+ */
+export class OperationQueue {
+  constructor(private pool: Pool | PoolClient) {}
+
+  /**
+   * Queue an operation for execution
+   * A job that is already queued or leased is left unchanged.
+   * @param operationId Operation ID
+   * @param delayMs Delay before the job becomes claimable
+   */
+  async enqueue(operationId: string, delayMs: number = 0): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO operation_jobs (operation_id, status, available_at, created_at, updated_at)
+       VALUES ($1, $2, NOW() + make_interval(secs => $3), NOW(), NOW())
+       ON CONFLICT (operation_id) DO UPDATE
+       SET status = EXCLUDED.status,
+           available_at = EXCLUDED.available_at,
+           leased_by = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE operation_jobs.status = $4`,
+      [operationId, OperationJobStatus.QUEUED, delayMs / 1000, OperationJobStatus.DONE]
+    );
+  }
+
+  /**
+   * Claim due jobs (queued, or leased with an expired lease)
+   * @param workerId Claiming worker
+   * @param limit Maximum number of jobs
+   * @param leaseMs Lease duration
+   * @returns Claimed operation IDs
+   */
+  async claim(workerId: string, limit: number, leaseMs: number): Promise<string[]> {
+    const result = await this.pool.query(
+      `UPDATE operation_jobs
+       SET status = $1,
+           leased_by = $2,
+           lease_expires_at = NOW() + make_interval(secs => $3),
+           attempts = attempts + 1,
+           updated_at = NOW()
+       WHERE operation_id IN (
+         SELECT operation_id FROM operation_jobs
+         WHERE (status = $4 AND available_at <= NOW())
+            OR (status = $1 AND lease_expires_at < NOW())
+         ORDER BY available_at ASC
+         LIMIT $5
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING operation_id`,
+      [OperationJobStatus.LEASED, workerId, leaseMs / 1000, OperationJobStatus.QUEUED, limit]
+    );
+
+    return result.rows.map((row) => row.operation_id);
+  }
+
+  /**
+   * Extend the lease of a job held by the worker
+   * @returns false if the lease was lost
+   */
+  async renew(operationId: string, workerId: string, leaseMs: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE operation_jobs
+       SET lease_expires_at = NOW() + make_interval(secs => $3), updated_at = NOW()
+       WHERE operation_id = $1 AND leased_by = $2 AND status = $4`,
+      [operationId, workerId, leaseMs / 1000, OperationJobStatus.LEASED]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark a job as done
+   */
+  async complete(operationId: string, workerId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE operation_jobs
+       SET status = $3, leased_by = NULL, lease_expires_at = NULL, updated_at = NOW()
+       WHERE operation_id = $1 AND leased_by = $2`,
+      [operationId, workerId, OperationJobStatus.DONE]
+    );
+  }
+
+  /**
+   * Return a job to the queue after a failed attempt
+   * @param delayMs Delay before the job becomes claimable again
+   */
+  async release(operationId: string, workerId: string, error: string, delayMs: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE operation_jobs
+       SET status = $3,
+           available_at = NOW() + make_interval(secs => $4),
+           leased_by = NULL,
+           lease_expires_at = NULL,
+           last_error = $5,
+           updated_at = NOW()
+       WHERE operation_id = $1 AND leased_by = $2`,
+      [operationId, workerId, OperationJobStatus.QUEUED, delayMs / 1000, error]
+    );
+  }
+
+  /**
+   * Put a leased job back in the queue until a scheduled step retry is due
+   * The claim count is reset, since a retry wait is not an execution failure
+   */
+  async reschedule(operationId: string, workerId: string, delayMs: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE operation_jobs
+       SET status = $3,
+           available_at = NOW() + make_interval(secs => $4),
+           leased_by = NULL,
+           lease_expires_at = NULL,
+           attempts = 0,
+           updated_at = NOW()
+       WHERE operation_id = $1 AND leased_by = $2`,
+      [operationId, workerId, OperationJobStatus.QUEUED, Math.max(delayMs, 0) / 1000]
+    );
+  }
+
+  /**
+   * Queue every unfinished operation that has no live job
+   * Used on startup to resume operations interrupted by a restart.
+   * @returns Number of operations queued
+   */
+  async recoverUnfinished(): Promise<number> {
+    const result = await this.pool.query(
+      `INSERT INTO operation_jobs (operation_id, status, available_at, created_at, updated_at)
+       SELECT id, $1, NOW(), NOW(), NOW()
+       FROM operations
+       WHERE status IN ($3, $4, $5)
+       ON CONFLICT (operation_id) DO UPDATE
+       SET status = EXCLUDED.status,
+           available_at = NOW(),
+           leased_by = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE operation_jobs.status = $2`,
+      [
+        OperationJobStatus.QUEUED,
+        OperationJobStatus.DONE,
+        OperationStatus.PENDING,
+        OperationStatus.IN_PROGRESS,
+        OperationStatus.COMPENSATING
+      ]
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,713 @@
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { OperationQueue } from './operation-queue';
+import { MintOperationParams, MINT_OPERATION } from '../operations/mint-operation';
+import { BurnOperationParams, BURN_OPERATION } from '../operations/burn-operation';
+import { TransferOperationParams, TRANSFER_OPERATION } from '../operations/transfer-operation';
+import { RetireOperationParams, RETIRE_OPERATION } from '../operations/retire-operation';
+import {
+  StoredOperation,
+  planSteps,
+  planCompensationSteps,
+  insertSteps
+} from '../operations/operation-definition';
+import { getOperationDefinition } from '../operations/registry';
+import { dryRunOperation, DryRunResult } from '../operations/dry-run';
+import {
+  transitionOperation,
+  recordOperationCreated,
+  withTransaction
+} from '../operations/state-machine';
+import {
+  OperationType,
+  OperationStatus,
+  StepStatus,
+  UNSUCCESSFUL_OPERATION_STATUSES
+} from '../operations/base-operation';
+import { GcAttributes, FieldError, encodeGcMetadata } from '../certificates';
+
+export interface CreateMintParams {
+  idempotencyKey: string;
+  userWalletId: string;
+  amount: string;
+  attributes: GcAttributes;  // Validated and normalized GC attributes
+  correction?: {
+    revision: number;        // > 0
+    correctsOperationId: string;
+    reason: string;
+  };
+  executeAt?: Date;          // Scheduled execution time (omitted: execute immediately)
+}
+
+export interface CreateBurnParams {
+  idempotencyKey: string;
+  holderWalletId: string;
+  issuanceId: string;
+  amount: string;
+  reason?: string;           // e.g. 'expired' for expiry clawbacks
+  executeAt?: Date;          // Scheduled execution time (omitted: execute immediately)
+}
+
+export interface CreateTransferParams {
+  idempotencyKey: string;
+  fromWalletId: string;
+  toWalletId: string;
+  issuanceId: string;
+  amount: string;
+  executeAt?: Date;          // Scheduled execution time (omitted: execute immediately)
+}
+
+export interface CreateRetireParams {
+  idempotencyKey: string;
+  holderWalletId: string;
+  issuanceId: string;
+  amount: string;
+  beneficiaryName: string;
+  consumptionSite: string;
+  consumptionPeriodStart: string;
+  consumptionPeriodEnd: string;
+  claimPurpose: string;
+  executeAt?: Date;          // Scheduled execution time (omitted: execute immediately)
+}
+
+export interface StepSummary {
+  stepNo: number;
+  kind: string;
+  status: StepStatus;
+}
+
+export interface CreatedOperation {
+  operationId: string;
+  status: OperationStatus;
+  executeAt: Date | null;
+  steps: StepSummary[];
+}
+
+export interface CreatedRetirement extends CreatedOperation {
+  retirementId: string;
+}
+
+export interface ScheduledOperation {
+  operationId: string;
+  type: OperationType;
+  idempotencyKey: string;
+  issuanceId: string | null;
+  fromWalletId: string | null;
+  toWalletId: string | null;
+  amount: string;
+  executeAt: Date;
+  createdAt: Date;
+}
+
+// Partial unique index enforcing one mint per device, production hour and revision
+const MINT_DEVICE_HOUR_INDEX = 'idx_operations_mint_device_hour';
+
+// Unique constraint on operations.idempotency_key
+const IDEMPOTENCY_KEY_CONSTRAINT = 'operations_idempotency_key_key';
+
+/**
+ * Raised when an operation with the same idempotency key was created concurrently
+ */
+export class DuplicateOperationError extends Error {
+  constructor(
+    public operationId: string,
+    public status: OperationStatus,
+    public issuanceId: string | null,
+    public idempotencyKey: string
+  ) {
+    super(`Idempotency key already used: ${idempotencyKey} (operation: ${operationId})`);
+    this.name = 'DuplicateOperationError';
+  }
+}
+
+/**
+ * Raised when a device-hour (and revision) already has a non-failed mint
+ */
+export class DuplicateIssuanceError extends Error {
+  constructor(
+    public originalOperationId: string,
+    public deviceId: string,
+    public productionHour: string
+  ) {
+    super(`Production hour already issued: ${deviceId} ${productionHour}`);
+    this.name = 'DuplicateIssuanceError';
+  }
+}
+
+/**
+ * Operation service
+ * Creates operations with their steps and queues them for the operation worker
+ * (actor is recorded in the event history of the operations it creates or changes)
+ */
+export class OperationService {
+  constructor(private pool: Pool, private actor: string = 'api') {}
+
+  /**
+   * Create a mint operation and queue it for execution
+   * The operation, its steps and its job are created in one transaction.
+   * @param params Recipient, amount and GC attributes
+   * @returns Created operation with step summary
+   * @throws DuplicateIssuanceError if the device-hour is already issued
+   * @throws DuplicateOperationError if the idempotency key is already used
+   */
+  async createMint(params: CreateMintParams): Promise<CreatedOperation> {
+    const operationId = uuidv4();
+    const status = initialStatus(params.executeAt);
+    const steps = planSteps(MINT_OPERATION, toMintParams(operationId, params));
+
+    try {
+      await withTransaction(this.pool, async (client) => {
+        // 1. Create operation (the device-hour guard is enforced by the database)
+        await client.query(
+          `INSERT INTO operations
+           (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount, metadata,
+            device_id, production_hour, issuance_revision, corrects_operation_id, correction_reason,
+            status, execute_at, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())`,
+          [
+            operationId,
+            OperationType.MINT,
+            params.idempotencyKey,
+            null, // issuance_id is set after first step completes
+            null, // Issuer is determined from environment variable
+            params.userWalletId,
+            params.amount,
+            JSON.stringify(params.attributes),
+            params.attributes.deviceId,
+            params.attributes.productionStart,
+            params.correction?.revision ?? 0,
+            params.correction?.correctsOperationId ?? null,
+            params.correction?.reason ?? null,
+            status,
+            params.executeAt ?? null
+          ]
+        );
+
+        // 2. Create steps
+        await recordOperationCreated(client, operationId, this.actor, status);
+        await insertSteps(client, operationId, steps);
+
+        // 3. Queue for execution by the operation worker (scheduled: queued by the scheduler when due)
+        if (!params.executeAt) {
+          await new OperationQueue(client).enqueue(operationId);
+        }
+      });
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === MINT_DEVICE_HOUR_INDEX) {
+        const original = await this.findDeviceHourMint(
+          params.attributes.deviceId,
+          params.attributes.productionStart,
+          params.correction?.revision ?? 0
+        );
+        throw new DuplicateIssuanceError(
+          original ?? '',
+          params.attributes.deviceId,
+          params.attributes.productionStart
+        );
+      }
+      throw await this.toDuplicateOperationError(error, params.idempotencyKey);
+    }
+
+    return {
+      operationId,
+      status,
+      executeAt: params.executeAt ?? null,
+      steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+    };
+  }
+
+  /**
+   * Create a burn (issuer clawback) operation and queue it for execution
+   * The operation, its step and its job are created in one transaction.
+   * @param params Holder, issuance, amount and optional reason
+   * @returns Created operation with step summary
+   * @throws DuplicateOperationError if the idempotency key is already used
+   */
+  async createBurn(params: CreateBurnParams): Promise<CreatedOperation> {
+    const operationId = uuidv4();
+    const status = initialStatus(params.executeAt);
+    const steps = planSteps(BURN_OPERATION, toBurnParams(operationId, params));
+
+    try {
+      await withTransaction(this.pool, async (client) => {
+        // 1. Create operation
+        await client.query(
+          `INSERT INTO operations
+           (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount, reason,
+            status, execute_at, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())`,
+          [
+            operationId,
+            OperationType.BURN,
+            params.idempotencyKey,
+            params.issuanceId,
+            null, // Issuer is determined from environment variable
+            params.holderWalletId,
+            params.amount,
+            params.reason ?? null,
+            status,
+            params.executeAt ?? null
+          ]
+        );
+
+        // 2. Create step
+        await recordOperationCreated(client, operationId, this.actor, status);
+        await insertSteps(client, operationId, steps);
+
+        // 3. Queue for execution by the operation worker (scheduled: queued by the scheduler when due)
+        if (!params.executeAt) {
+          await new OperationQueue(client).enqueue(operationId);
+        }
+      });
+    } catch (error: any) {
+      throw await this.toDuplicateOperationError(error, params.idempotencyKey);
+    }
+
+    return {
+      operationId,
+      status,
+      executeAt: params.executeAt ?? null,
+      steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+    };
+  }
+
+  /**
+   * Create a transfer operation and queue it for execution
+   * The operation, its steps and its job are created in one transaction.
+   * @param params Sender, recipient, issuance and amount
+   * @returns Created operation with step summary
+   * @throws DuplicateOperationError if the idempotency key is already used
+   */
+  async createTransfer(params: CreateTransferParams): Promise<CreatedOperation> {
+    const operationId = uuidv4();
+    const status = initialStatus(params.executeAt);
+    const steps = planSteps(TRANSFER_OPERATION, toTransferParams(operationId, params));
+
+    try {
+      await withTransaction(this.pool, async (client) => {
+        // 1. Create operation
+        await client.query(
+          `INSERT INTO operations
+           (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount,
+            status, execute_at, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())`,
+          [
+            operationId,
+            OperationType.TRANSFER,
+            params.idempotencyKey,
+            params.issuanceId,
+            params.fromWalletId,
+            params.toWalletId,
+            params.amount,
+            status,
+            params.executeAt ?? null
+          ]
+        );
+
+        // 2. Create steps
+        await recordOperationCreated(client, operationId, this.actor, status);
+        await insertSteps(client, operationId, steps);
+
+        // 3. Queue for execution by the operation worker (scheduled: queued by the scheduler when due)
+        if (!params.executeAt) {
+          await new OperationQueue(client).enqueue(operationId);
+        }
+      });
+    } catch (error: any) {
+      throw await this.toDuplicateOperationError(error, params.idempotencyKey);
+    }
+
+    return {
+      operationId,
+      status,
+      executeAt: params.executeAt ?? null,
+      steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+    };
+  }
+
+  /**
+   * Create a retire operation with its retirement record and queue it for execution
+   * The operation, retirement, step and job are created in one transaction.
+   * @param params Holder, issuance, amount and consumption claim
+   * @returns Created operation with retirement ID and step summary
+   * @throws DuplicateOperationError if the idempotency key is already used
+   */
+  async createRetire(params: CreateRetireParams): Promise<CreatedRetirement> {
+    const operationId = uuidv4();
+    const retirementId = uuidv4();
+    const status = initialStatus(params.executeAt);
+    const steps = planSteps(RETIRE_OPERATION, toRetireParams(operationId, retirementId, params));
+
+    try {
+      await withTransaction(this.pool, async (client) => {
+        // 1. Create operation
+        await client.query(
+          `INSERT INTO operations
+           (id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount,
+            status, execute_at, created_at, updated_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())`,
+          [
+            operationId,
+            OperationType.RETIRE,
+            params.idempotencyKey,
+            params.issuanceId,
+            params.holderWalletId,
+            null, // GCs are redeemed to the issuer
+            params.amount,
+            status,
+            params.executeAt ?? null
+          ]
+        );
+
+        // 2. Create retirement record and step
+        await client.query(
+          `INSERT INTO retirements
+           (id, operation_id, issuance_id, holder_wallet_id, amount, beneficiary_name, consumption_site,
+            consumption_period_start, consumption_period_end, claim_purpose, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
+          [
+            retirementId,
+            operationId,
+            params.issuanceId,
+            params.holderWalletId,
+            params.amount,
+            params.beneficiaryName,
+            params.consumptionSite,
+            params.consumptionPeriodStart,
+            params.consumptionPeriodEnd,
+            params.claimPurpose
+          ]
+        );
+        await recordOperationCreated(client, operationId, this.actor, status);
+        await insertSteps(client, operationId, steps);
+
+        // 3. Queue for execution by the operation worker (scheduled: queued by the scheduler when due)
+        if (!params.executeAt) {
+          await new OperationQueue(client).enqueue(operationId);
+        }
+      });
+    } catch (error: any) {
+      throw await this.toDuplicateOperationError(error, params.idempotencyKey);
+    }
+
+    return {
+      operationId,
+      retirementId,
+      status,
+      executeAt: params.executeAt ?? null,
+      steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+    };
+  }
+
+  /**
+   * Build the transactions a mint would submit, without persisting anything
+   * @param params Recipient, amount and GC attributes
+   * @returns Autofilled unsigned transactions with signers, fees and reserve impact
+   */
+  async dryRunMint(params: CreateMintParams): Promise<DryRunResult> {
+    const operationId = uuidv4(); // Never stored
+    return dryRunOperation(this.pool, MINT_OPERATION, operationId, toMintParams(operationId, params));
+  }
+
+  /**
+   * Build the transaction a burn would submit, without persisting anything
+   * @param params Holder, issuance and amount
+   * @returns Autofilled unsigned transaction with signer, fee and reserve impact
+   */
+  async dryRunBurn(params: CreateBurnParams): Promise<DryRunResult> {
+    const operationId = uuidv4(); // Never stored
+    return dryRunOperation(this.pool, BURN_OPERATION, operationId, toBurnParams(operationId, params));
+  }
+
+  /**
+   * Build the transactions a transfer would submit, without persisting anything
+   * @param params Sender, recipient, issuance and amount
+   * @returns Autofilled unsigned transactions with signers, fees and reserve impact
+   */
+  async dryRunTransfer(params: CreateTransferParams): Promise<DryRunResult> {
+    const operationId = uuidv4(); // Never stored
+    return dryRunOperation(
+      this.pool,
+      TRANSFER_OPERATION,
+      operationId,
+      toTransferParams(operationId, params)
+    );
+  }
+
+  /**
+   * Start compensating a failed operation and queue it for execution
+   * Only a FAILED operation without compensation steps is compensated; the status
+   * change to COMPENSATING is conditional, so concurrent requests start it once.
+   * @param operation Stored operation
+   * @returns Operation with its compensation steps (null if there is nothing to compensate)
+   */
+  async startCompensation(operation: StoredOperation): Promise<CreatedOperation | null> {
+    // 1. Plan compensation steps from the validated regular steps
+    const definition = getOperationDefinition(operation.type);
+    const params = await definition.loadParams(this.pool, operation);
+
+    const stepsResult = await this.pool.query(
+      `SELECT step_no, kind, status, compensation
+       FROM operation_steps
+       WHERE operation_id = $1
+       ORDER BY step_no ASC`,
+      [operation.id]
+    );
+    const existing = stepsResult.rows.map(row => ({
+      stepNo: row.step_no,
+      kind: row.kind,
+      status: row.status,
+      compensation: row.compensation
+    }));
+
+    if (existing.some(step => step.compensation)) {
+      return null;
+    }
+
+    const steps = planCompensationSteps(definition, params, existing);
+    if (steps.length === 0) {
+      return null;
+    }
+
+    // 2. Claim the operation, create steps and queue for execution by the operation
+    //    worker in one transaction, so it is never COMPENSATING without steps or a job
+    const claimed = await withTransaction(this.pool, async (client) => {
+      const transitioned = await transitionOperation(
+        client,
+        operation.id,
+        OperationStatus.COMPENSATING,
+        { actor: this.actor, reason: 'Compensation requested' },
+        { expected: OperationStatus.FAILED }
+      );
+
+      if (transitioned) {
+        await insertSteps(client, operation.id, steps, { compensation: true });
+        await new OperationQueue(client).enqueue(operation.id);
+      }
+      return transitioned;
+    });
+
+    if (!claimed) {
+      return null;
+    }
+
+    return {
+      operationId: operation.id,
+      status: OperationStatus.COMPENSATING,
+      executeAt: null,
+      steps: steps.map(s => ({ stepNo: s.stepNo, kind: s.kind, status: StepStatus.PENDING }))
+    };
+  }
+
+  /**
+   * List scheduled operations that have not started, earliest first
+   * @param filter type: operation type; limit / offset: paging (default 50 / 0)
+   */
+  async listScheduled(
+    filter: { type?: OperationType; limit?: number; offset?: number } = {}
+  ): Promise<ScheduledOperation[]> {
+    const result = await this.pool.query(
+      `SELECT id, type, idempotency_key, issuance_id, from_wallet_id, to_wallet_id, amount,
+              execute_at, created_at
+       FROM operations
+       WHERE status = $1 AND ($2::TEXT IS NULL OR type::TEXT = $2)
+       ORDER BY execute_at ASC, created_at ASC
+       LIMIT $3 OFFSET $4`,
+      [OperationStatus.SCHEDULED, filter.type ?? null, filter.limit ?? 50, filter.offset ?? 0]
+    );
+
+    return result.rows.map((row) => ({
+      operationId: row.id,
+      type: row.type,
+      idempotencyKey: row.idempotency_key,
+      issuanceId: row.issuance_id,
+      fromWalletId: row.from_wallet_id,
+      toWalletId: row.to_wallet_id,
+      amount: row.amount,
+      executeAt: row.execute_at,
+      createdAt: row.created_at
+    }));
+  }
+
+  /**
+   * Cancel a scheduled operation that has not started
+   * The status change is conditional, so an operation the scheduler has already
+   * queued is not cancelled.
+   * @param operationId Operation ID
+   * @param reason Cancellation reason (optional)
+   * @returns false if the operation is no longer SCHEDULED
+   */
+  async cancelScheduled(operationId: string, reason?: string): Promise<boolean> {
+    return transitionOperation(
+      this.pool,
+      operationId,
+      OperationStatus.CANCELLED,
+      { actor: this.actor, reason: reason ?? 'Cancelled before execution' },
+      { expected: OperationStatus.SCHEDULED }
+    );
+  }
+
+  /**
+   * Map a unique violation on the idempotency key to the operation that holds the key
+   * (a concurrent request with the same key committed first)
+   * @returns DuplicateOperationError, or the original error for any other failure
+   */
+  private async toDuplicateOperationError(error: any, idempotencyKey: string): Promise<Error> {
+    if (error.code !== '23505' || error.constraint !== IDEMPOTENCY_KEY_CONSTRAINT) {
+      return error;
+    }
+
+    const result = await this.pool.query(
+      'SELECT id, status, issuance_id FROM operations WHERE idempotency_key = $1',
+      [idempotencyKey]
+    );
+
+    if (result.rows.length === 0) {
+      return error;
+    }
+
+    const existing = result.rows[0];
+    return new DuplicateOperationError(existing.id, existing.status, existing.issuance_id, idempotencyKey);
+  }
+
+  /**
+   * Find the non-failed mint of a device-hour revision
+   * @returns Operation ID (null if not found)
+   */
+  async findDeviceHourMint(
+    deviceId: string,
+    productionHour: string,
+    revision: number = 0
+  ): Promise<string | null> {
+    const result = await this.pool.query(
+      `SELECT id FROM operations
+       WHERE type = $1 AND device_id = $2 AND production_hour = $3
+         AND issuance_revision = $4 AND status <> ALL($5)`,
+      [OperationType.MINT, deviceId, productionHour, revision, UNSUCCESSFUL_OPERATION_STATUSES]
+    );
+
+    return result.rows[0]?.id ?? null;
+  }
+
+  /**
+   * Issued amount and latest revision of a device-hour over non-failed mints
+   */
+  async getDeviceHourIssuance(
+    deviceId: string,
+    productionHour: string
+  ): Promise<{ issuedAmount: bigint; latestRevision: number }> {
+    const result = await this.pool.query(
+      `SELECT COALESCE(SUM(amount), 0)::TEXT AS issued_amount,
+              COALESCE(MAX(issuance_revision), -1) AS latest_revision
+       FROM operations
+       WHERE type = $1 AND device_id = $2 AND production_hour = $3 AND status <> ALL($4)`,
+      [OperationType.MINT, deviceId, productionHour, UNSUCCESSFUL_OPERATION_STATUSES]
+    );
+
+    return {
+      issuedAmount: BigInt(result.rows[0].issued_amount),
+      latestRevision: Number(result.rows[0].latest_revision)
+    };
+  }
+}
+
+/**
+ * Validate the optional executeAt of an operation request
+ * @param executeAt Requested execution time
+ * @returns Field errors (empty if omitted or valid)
+ */
+export function validateExecuteAt(executeAt: unknown): FieldError[] {
+  if (executeAt === undefined || executeAt === null) {
+    return [];
+  }
+
+  const time = typeof executeAt === 'string' ? Date.parse(executeAt) : NaN;
+
+  if (Number.isNaN(time)) {
+    return [{ field: 'executeAt', message: 'Must be an ISO 8601 timestamp' }];
+  }
+  if (time <= Date.now()) {
+    return [{ field: 'executeAt', message: 'Must be in the future' }];
+  }
+
+  return [];
+}
+
+/**
+ * Validate the amount of an operation request
+ * MPT amounts are integer token counts (assetScale 0), given as a string.
+ * @param amount Requested amount
+ * @returns Field errors (empty if valid)
+ */
+export function validateAmount(amount: unknown): FieldError[] {
+  if (typeof amount !== 'string' || !/^[1-9]\d*$/.test(amount)) {
+    return [{ field: 'amount', message: 'Must be a positive integer string' }];
+  }
+
+  return [];
+}
+
+/**
+ * Status of a new operation: SCHEDULED when an execution time is given
+ */
+function initialStatus(executeAt?: Date): OperationStatus {
+  return executeAt ? OperationStatus.SCHEDULED : OperationStatus.PENDING;
+}
+
+/**
+ * Mint operation parameters of a new mint
+ */
+function toMintParams(operationId: string, params: CreateMintParams): MintOperationParams {
+  return {
+    operationId,
+    issuanceId: '', // Set once step 1 is validated
+    userWalletId: params.userWalletId,
+    amount: params.amount,
+    assetScale: 0,
+    maximumAmount: params.amount,
+    transferFee: 0,
+    metadata: encodeGcMetadata(params.attributes)
+  };
+}
+
+/**
+ * Burn operation parameters of a new burn
+ */
+function toBurnParams(operationId: string, params: CreateBurnParams): BurnOperationParams {
+  return {
+    operationId,
+    issuanceId: params.issuanceId,
+    holderWalletId: params.holderWalletId,
+    amount: params.amount
+  };
+}
+
+/**
+ * Retire operation parameters of a new retirement
+ */
+function toRetireParams(
+  operationId: string,
+  retirementId: string,
+  params: CreateRetireParams
+): RetireOperationParams {
+  return {
+    operationId,
+    retirementId,
+    issuanceId: params.issuanceId,
+    holderWalletId: params.holderWalletId,
+    amount: params.amount
+  };
+}
+
+/**
+ * Transfer operation parameters of a new transfer
+ */
+function toTransferParams(operationId: string, params: CreateTransferParams): TransferOperationParams {
+  return {
+    operationId,
+    issuanceId: params.issuanceId,
+    fromWalletId: params.fromWalletId,
+    toWalletId: params.toWalletId,
+    amount: params.amount
+  };
+}
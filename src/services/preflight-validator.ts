@@ -0,0 +1,271 @@
+import { Pool } from 'pg';
+import { getIssuerWallet } from '../operations/operation-definition';
+import { getAccountXrpState, getReserveSettings, getOpenLedgerFee } from '../xrpl/account';
+import {
+  getMPTokenIssuanceEntry,
+  getMPTokenEntry,
+  MPTokenIssuanceEntry,
+  LSF_MPT_LOCKED,
+  LSF_MPT_CAN_TRANSFER,
+  LSF_MPT_CAN_CLAWBACK
+} from '../xrpl/mptoken';
+
+export enum PreflightCode {
+  WALLET_NOT_FOUND = 'WALLET_NOT_FOUND',
+  ACCOUNT_NOT_FUNDED = 'ACCOUNT_NOT_FUNDED',
+  ISSUANCE_NOT_FOUND = 'ISSUANCE_NOT_FOUND',
+  ISSUANCE_LOCKED = 'ISSUANCE_LOCKED',
+  HOLDER_LOCKED = 'HOLDER_LOCKED',
+  TRANSFER_NOT_ALLOWED = 'TRANSFER_NOT_ALLOWED',
+  CLAWBACK_NOT_ALLOWED = 'CLAWBACK_NOT_ALLOWED',
+  INSUFFICIENT_MPT_BALANCE = 'INSUFFICIENT_MPT_BALANCE',
+  INSUFFICIENT_XRP_RESERVE = 'INSUFFICIENT_XRP_RESERVE'
+}
+
+export interface PreflightViolation {
+  code: PreflightCode;
+  field: string;    // Request field the precondition belongs to
+  message: string;
+}
+
+interface LedgerCosts {
+  baseReserveDrops: bigint;
+  ownerReserveDrops: bigint;
+  feeDrops: bigint;
+}
+
+/**
+ * Pre-flight validator
+ * Checks the preconditions of an operation against the database and the validated
+ * ledger before it is accepted, so violations are reported without paying fees.
+ * Every check runs; all violations are returned together.
+ */
+export class PreflightValidator {
+  constructor(private pool: Pool) {}
+
+  /**
+   * Check a mint: recipient wallet, and XRP of the issuer (new issuance, 2 transactions)
+   * and of the recipient (new MPToken, 1 transaction)
+   */
+  async validateMint(params: { userWalletId: string }): Promise<PreflightViolation[]> {
+    const violations: PreflightViolation[] = [];
+    const costs = await this.getLedgerCosts();
+
+    await this.checkXrpReserve(getIssuerWallet().address, 'issuer', 1, 2, costs, violations);
+
+    const userAddress = await this.resolveWallet(params.userWalletId, 'userWalletId', violations);
+    if (userAddress) {
+      await this.checkXrpReserve(userAddress, 'userWalletId', 1, 1, costs, violations);
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check a transfer: wallets, issuance (exists, CanTransfer, not locked),
+   * sender balance and lock, receiver lock, and XRP of both signers
+   */
+  async validateTransfer(params: {
+    fromWalletId: string;
+    toWalletId: string;
+    issuanceId: string;
+    amount: string;
+  }): Promise<PreflightViolation[]> {
+    const violations: PreflightViolation[] = [];
+
+    // 1. Wallets
+    const senderAddress = await this.resolveWallet(params.fromWalletId, 'fromWalletId', violations);
+    const receiverAddress = await this.resolveWallet(params.toWalletId, 'toWalletId', violations);
+
+    // 2. Issuance
+    const issuance = await this.resolveIssuance(params.issuanceId, violations);
+    if (issuance) {
+      if ((issuance.flags & LSF_MPT_CAN_TRANSFER) === 0) {
+        violations.push({
+          code: PreflightCode.TRANSFER_NOT_ALLOWED,
+          field: 'issuanceId',
+          message: 'Issuance does not allow transfers (tfMPTCanTransfer not set)'
+        });
+      }
+      if ((issuance.flags & LSF_MPT_LOCKED) !== 0) {
+        violations.push({
+          code: PreflightCode.ISSUANCE_LOCKED,
+          field: 'issuanceId',
+          message: 'Issuance is locked'
+        });
+      }
+    }
+
+    const costs = await this.getLedgerCosts();
+
+    // 3. Sender: balance, lock, fee
+    if (senderAddress) {
+      const token = await getMPTokenEntry(senderAddress, params.issuanceId);
+      this.checkMptBalance(token?.amount ?? 0n, params.amount, 'fromWalletId', violations);
+      this.checkHolderLock(token?.flags ?? 0, 'fromWalletId', violations);
+      await this.checkXrpReserve(senderAddress, 'fromWalletId', 0, 1, costs, violations);
+    }
+
+    // 4. Receiver: lock, and reserve for the MPToken unless already authorized
+    if (receiverAddress) {
+      const token = await getMPTokenEntry(receiverAddress, params.issuanceId);
+      if (token) {
+        this.checkHolderLock(token.flags, 'toWalletId', violations);
+      } else {
+        await this.checkXrpReserve(receiverAddress, 'toWalletId', 1, 1, costs, violations);
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check a burn: holder wallet, issuance (exists, CanClawback), holder balance and issuer XRP
+   */
+  async validateBurn(params: {
+    holderWalletId: string;
+    issuanceId: string;
+    amount: string;
+  }): Promise<PreflightViolation[]> {
+    const violations: PreflightViolation[] = [];
+
+    const holderAddress = await this.resolveWallet(params.holderWalletId, 'holderWalletId', violations);
+
+    const issuance = await this.resolveIssuance(params.issuanceId, violations);
+    if (issuance && (issuance.flags & LSF_MPT_CAN_CLAWBACK) === 0) {
+      violations.push({
+        code: PreflightCode.CLAWBACK_NOT_ALLOWED,
+        field: 'issuanceId',
+        message: 'Issuance does not allow clawback (tfMPTCanClawback not set)'
+      });
+    }
+
+    if (holderAddress && issuance) {
+      const token = await getMPTokenEntry(holderAddress, params.issuanceId);
+      this.checkMptBalance(token?.amount ?? 0n, params.amount, 'holderWalletId', violations);
+    }
+
+    const costs = await this.getLedgerCosts();
+    await this.checkXrpReserve(getIssuerWallet().address, 'issuer', 0, 1, costs, violations);
+
+    return violations;
+  }
+
+  /**
+   * Resolve a wallet ID to its address (records WALLET_NOT_FOUND)
+   */
+  private async resolveWallet(
+    walletId: string,
+    field: string,
+    violations: PreflightViolation[]
+  ): Promise<string | null> {
+    const result = await this.pool.query(
+      'SELECT xrpl_address FROM wallets WHERE id::TEXT = $1',
+      [walletId]
+    );
+
+    if (result.rows.length === 0) {
+      violations.push({
+        code: PreflightCode.WALLET_NOT_FOUND,
+        field,
+        message: `Wallet not found: ${walletId}`
+      });
+      return null;
+    }
+
+    return result.rows[0].xrpl_address;
+  }
+
+  /**
+   * Load the issuance from the ledger (records ISSUANCE_NOT_FOUND)
+   */
+  private async resolveIssuance(
+    issuanceId: string,
+    violations: PreflightViolation[]
+  ): Promise<MPTokenIssuanceEntry | null> {
+    const issuance = await getMPTokenIssuanceEntry(issuanceId);
+
+    if (!issuance) {
+      violations.push({
+        code: PreflightCode.ISSUANCE_NOT_FOUND,
+        field: 'issuanceId',
+        message: `Issuance not found on ledger: ${issuanceId}`
+      });
+    }
+
+    return issuance;
+  }
+
+  private checkMptBalance(
+    balance: bigint,
+    amount: string,
+    field: string,
+    violations: PreflightViolation[]
+  ): void {
+    if (balance < BigInt(amount)) {
+      violations.push({
+        code: PreflightCode.INSUFFICIENT_MPT_BALANCE,
+        field,
+        message: `MPT balance ${balance} is less than amount ${amount}`
+      });
+    }
+  }
+
+  private checkHolderLock(flags: number, field: string, violations: PreflightViolation[]): void {
+    if ((flags & LSF_MPT_LOCKED) !== 0) {
+      violations.push({
+        code: PreflightCode.HOLDER_LOCKED,
+        field,
+        message: 'Holder is locked for this issuance'
+      });
+    }
+  }
+
+  /**
+   * Check that a signer can pay its fees and keep its reserve after creating new objects
+   * @param newObjects Ledger objects the operation adds to the account
+   * @param transactions Transactions the account signs
+   */
+  private async checkXrpReserve(
+    address: string,
+    field: string,
+    newObjects: number,
+    transactions: number,
+    costs: LedgerCosts,
+    violations: PreflightViolation[]
+  ): Promise<void> {
+    const account = await getAccountXrpState(address);
+
+    if (!account) {
+      violations.push({
+        code: PreflightCode.ACCOUNT_NOT_FUNDED,
+        field,
+        message: `Account is not funded: ${address}`
+      });
+      return;
+    }
+
+    const required =
+      costs.baseReserveDrops +
+      BigInt(account.ownerCount + newObjects) * costs.ownerReserveDrops +
+      BigInt(transactions) * costs.feeDrops;
+
+    if (account.balanceDrops < required) {
+      violations.push({
+        code: PreflightCode.INSUFFICIENT_XRP_RESERVE,
+        field,
+        message: `XRP balance ${account.balanceDrops} drops is less than reserve plus fees ${required} drops`
+      });
+    }
+  }
+
+  private async getLedgerCosts(): Promise<LedgerCosts> {
+    const reserves = await getReserveSettings();
+
+    return {
+      baseReserveDrops: reserves.baseDrops,
+      ownerReserveDrops: reserves.incrementDrops,
+      feeDrops: await getOpenLedgerFee()
+    };
+  }
+}
@@ -0,0 +1,377 @@
+import { Pool } from 'pg';
+import { Wallet } from 'xrpl';
+import type { SubmittableTransaction, AccountSet } from 'xrpl';
+import { submitTransaction, SubmitResult, SignedTransaction } from '../xrpl/submit';
+import { xrplClient } from '../xrpl/client';
+import { getNextSequence } from '../xrpl/account';
+import { parseXrplError, XrplErrorCode } from '../xrpl/errors';
+import { getSignerWallet } from '../operations/operation-definition';
+import { WalletSecretManager } from './wallet-secret-manager';
+import { WalletLockManager } from './wallet-lock-manager';
+
+// Released sequences left unused for this long are filled with a no-op AccountSet
+const GAP_FILL_DELAY_SECONDS = 30;
+
+// Gaps filled per run
+const GAP_FILL_BATCH_SIZE = 50;
+
+// Reservations never signed for this long are released (the reserving process stopped)
+const UNSIGNED_RESERVATION_TIMEOUT_SECONDS = 300;
+
+// Results meaning the reserved sequence is already consumed on ledger
+const SEQUENCE_ERRORS = [XrplErrorCode.TEF_PAST_SEQ];
+
+/**
+ * Account sequence allocator
+ * Reserves sequence numbers per signing account in the database instead of autofilling
+ * them on every submit, so several transactions from one account can be in flight.
+ * A reservation is kept until the ledger shows its sequence was consumed; it is released
+ * for reuse only when its transaction was rejected or has passed its LastLedgerSequence.
+ * The counter is never lowered (tefPAST_SEQ raises it to the ledger sequence; terPRE_SEQ
+ * releases the untracked sequences it skipped), and released sequences left unused are
+ * filled with a no-op AccountSet.
+ */
+export class SequenceAllocator {
+  private walletLocks: WalletLockManager;
+
+  constructor(private pool: Pool) {
+    this.walletLocks = new WalletLockManager(pool);
+  }
+
+  /**
+   * Submit a transaction with a reserved sequence
+   * A sequence whose submission had an ambiguous outcome stays reserved: the signed
+   * transaction may still consume it. A transaction held for a preceding sequence
+   * (terPRE_SEQ) resynchronizes the account, so the sequences it waits for are filled.
+   * Called under the signer's wallet lock.
+   * @param tx Transaction (Sequence is set by the allocator)
+   * @param wallet Signing wallet
+   * @param walletId Signing wallet ID (null = issuer), used to fill a released sequence
+   * @param onSigned Called with the signed transaction before it is submitted
+   * @returns Submit result
+   */
+  async submit(
+    tx: SubmittableTransaction,
+    wallet: Wallet,
+    walletId: string | null,
+    onSigned?: (signed: SignedTransaction) => Promise<void>
+  ): Promise<SubmitResult> {
+    const address = wallet.classicAddress;
+    const sequence = await this.allocate(address, walletId);
+    let txHash: string | null = null;
+
+    try {
+      const result = await submitTransaction({ ...tx, Sequence: sequence }, wallet, async (signed) => {
+        await this.attach(address, sequence, signed);
+        txHash = signed.txHash;
+        await onSigned?.(signed);
+      });
+
+      if (result.submitResult.result.engine_result === XrplErrorCode.TER_PRE_SEQ) {
+        await this.resync(address, walletId);
+      }
+      return result;
+    } catch (error: any) {
+      const xrplError = parseXrplError(error);
+
+      if (SEQUENCE_ERRORS.includes(xrplError.code)) {
+        await this.drop(address, sequence, txHash);
+        await this.resync(address, walletId);
+      } else if (!(txHash && xrplError.isAmbiguous())) {
+        await this.release(address, sequence, walletId, txHash);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reserve the next sequence of an account (released sequences first)
+   * @param address Signing account address
+   * @param walletId Signing wallet ID (null = issuer)
+   * @returns Sequence number
+   */
+  async allocate(address: string, walletId: string | null): Promise<number> {
+    // 1. Reuse a released sequence
+    const gap = await this.pool.query(
+      `WITH gap AS (
+         DELETE FROM account_sequence_gaps
+         WHERE (address, sequence) = (
+           SELECT address, sequence FROM account_sequence_gaps
+           WHERE address = $1
+           ORDER BY sequence ASC
+           LIMIT 1
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING address, sequence
+       )
+       INSERT INTO account_sequence_reservations (address, sequence, wallet_id, reserved_at)
+       SELECT address, sequence, $2, NOW() FROM gap
+       ON CONFLICT (address, sequence) DO NOTHING
+       RETURNING sequence`,
+      [address, walletId]
+    );
+
+    if (gap.rows.length > 0) {
+      return Number(gap.rows[0].sequence);
+    }
+
+    while (true) {
+      // 2. Take the next sequence
+      const next = await this.pool.query(
+        `WITH next AS (
+           UPDATE account_sequences
+           SET next_sequence = next_sequence + 1, updated_at = NOW()
+           WHERE address = $1
+           RETURNING next_sequence - 1 AS sequence
+         )
+         INSERT INTO account_sequence_reservations (address, sequence, wallet_id, reserved_at)
+         SELECT $1, sequence, $2, NOW() FROM next
+         RETURNING sequence`,
+        [address, walletId]
+      );
+
+      if (next.rows.length > 0) {
+        return Number(next.rows[0].sequence);
+      }
+
+      // 3. First use of the account: start from the ledger
+      const sequence = await getNextSequence(address);
+      const inserted = await this.pool.query(
+        `WITH account AS (
+           INSERT INTO account_sequences (address, next_sequence, synced_at, updated_at)
+           VALUES ($1, $3::BIGINT + 1, NOW(), NOW())
+           ON CONFLICT (address) DO NOTHING
+           RETURNING address
+         )
+         INSERT INTO account_sequence_reservations (address, sequence, wallet_id, reserved_at)
+         SELECT address, $3, $2, NOW() FROM account
+         RETURNING sequence`,
+        [address, walletId, sequence]
+      );
+
+      if (inserted.rows.length > 0) {
+        return sequence;
+      }
+      // Inserted concurrently: take the next one
+    }
+  }
+
+  /**
+   * Return a reserved sequence whose transaction was not and will not be applied
+   * (rejected, or past its LastLedgerSequence)
+   * Only the reservation of the given transaction is released, so a sequence reserved
+   * again in the meantime is left alone.
+   * @param address Signing account address
+   * @param sequence Sequence number
+   * @param walletId Signing wallet ID (null = issuer)
+   * @param txHash Transaction signed with the sequence (null if never signed)
+   */
+  async release(
+    address: string,
+    sequence: number,
+    walletId: string | null,
+    txHash: string | null
+  ): Promise<void> {
+    await this.pool.query(
+      `WITH released AS (
+         DELETE FROM account_sequence_reservations
+         WHERE address = $1 AND sequence = $2 AND tx_hash IS NOT DISTINCT FROM $4
+         RETURNING address, sequence
+       )
+       INSERT INTO account_sequence_gaps (address, sequence, wallet_id, released_at)
+       SELECT address, sequence, $3, NOW() FROM released
+       ON CONFLICT (address, sequence) DO NOTHING`,
+      [address, sequence, walletId, txHash]
+    );
+  }
+
+  /**
+   * Resynchronize the counter of an account with its sequence in the current ledger
+   * The counter is raised to the ledger sequence but never lowered, so reservations in
+   * flight are never handed out again. Sequences between the ledger and the counter that
+   * are neither reserved nor released (e.g. lost by a crash between allocation and signing
+   * in an older version) hold back every later transaction; they are released as gaps due
+   * for filling at once.
+   * @param address Signing account address
+   * @param walletId Signing wallet ID (null = issuer), used to fill released sequences
+   */
+  async resync(address: string, walletId: string | null): Promise<void> {
+    const sequence = await getNextSequence(address);
+
+    await this.pool.query(
+      `INSERT INTO account_sequences (address, next_sequence, synced_at, updated_at)
+       VALUES ($1, $2, NOW(), NOW())
+       ON CONFLICT (address) DO UPDATE
+         SET next_sequence = GREATEST(account_sequences.next_sequence, EXCLUDED.next_sequence),
+             synced_at = NOW(),
+             updated_at = NOW()`,
+      [address, sequence]
+    );
+
+    const untracked = await this.pool.query(
+      `INSERT INTO account_sequence_gaps (address, sequence, wallet_id, released_at)
+       SELECT $1, s.sequence, $3, NOW() - $4 * INTERVAL '1 second'
+       FROM account_sequences a,
+            generate_series($2::BIGINT, a.next_sequence - 1) AS s(sequence)
+       WHERE a.address = $1
+         AND NOT EXISTS (
+           SELECT 1 FROM account_sequence_reservations r
+           WHERE r.address = $1 AND r.sequence = s.sequence
+         )
+       ON CONFLICT (address, sequence) DO NOTHING`,
+      [address, sequence, walletId, GAP_FILL_DELAY_SECONDS]
+    );
+
+    console.log(
+      `↻ Sequence of ${address} resynchronized with the ledger (${sequence}, ${untracked.rowCount ?? 0} untracked released)`
+    );
+  }
+
+  /**
+   * Settle reservations and released sequences against the validated ledger
+   * Sequences below the validated account sequence are consumed and dropped; reservations
+   * whose transaction is past its LastLedgerSequence (or that were never signed) are released.
+   * @returns Number of released reservations
+   */
+  async settle(): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT address FROM account_sequence_reservations
+       UNION
+       SELECT address FROM account_sequence_gaps`
+    );
+
+    let released = 0;
+
+    for (const { address } of result.rows) {
+      try {
+        // Read the ledger index first: a transaction it includes is reflected in the sequence
+        const validatedLedgerIndex = await xrplClient.getClient().getLedgerIndex();
+        const consumedBelow = await getNextSequence(address, 'validated');
+
+        // 1. Drop consumed sequences
+        await this.pool.query(
+          'DELETE FROM account_sequence_reservations WHERE address = $1 AND sequence < $2',
+          [address, consumedBelow]
+        );
+        await this.pool.query(
+          'DELETE FROM account_sequence_gaps WHERE address = $1 AND sequence < $2',
+          [address, consumedBelow]
+        );
+
+        // 2. Release reservations that can no longer be consumed by their transaction
+        const expired = await this.pool.query(
+          `WITH released AS (
+             DELETE FROM account_sequence_reservations
+             WHERE address = $1
+               AND (last_ledger_sequence < $2
+                    OR (tx_hash IS NULL AND reserved_at < NOW() - $3 * INTERVAL '1 second'))
+             RETURNING address, sequence, wallet_id
+           )
+           INSERT INTO account_sequence_gaps (address, sequence, wallet_id, released_at)
+           SELECT address, sequence, wallet_id, NOW() FROM released
+           ON CONFLICT (address, sequence) DO NOTHING`,
+          [address, validatedLedgerIndex, UNSIGNED_RESERVATION_TIMEOUT_SECONDS]
+        );
+
+        released += expired.rowCount ?? 0;
+      } catch (error: any) {
+        console.error(`  Error settling sequences of ${address}:`, error);
+      }
+    }
+
+    return released;
+  }
+
+  /**
+   * Fill released sequences that stayed unused with a no-op AccountSet, so later
+   * transactions of the account are not held back by the gap
+   * Each filled sequence is reserved like any other until the ledger settles it, and
+   * submitted under the account's wallet lock like any other sequence.
+   * @param secretManager Secret manager to sign with the account's wallet
+   * @returns Number of filled sequences
+   */
+  async fillStaleGaps(secretManager: WalletSecretManager): Promise<number> {
+    const result = await this.pool.query(
+      `WITH taken AS (
+         DELETE FROM account_sequence_gaps
+         WHERE (address, sequence) IN (
+           SELECT address, sequence FROM account_sequence_gaps
+           WHERE released_at < NOW() - $1 * INTERVAL '1 second'
+           ORDER BY address, sequence
+           LIMIT $2
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING address, sequence, wallet_id
+       )
+       INSERT INTO account_sequence_reservations (address, sequence, wallet_id, reserved_at)
+       SELECT address, sequence, wallet_id, NOW() FROM taken
+       ON CONFLICT (address, sequence) DO NOTHING
+       RETURNING address, sequence, wallet_id`,
+      [GAP_FILL_DELAY_SECONDS, GAP_FILL_BATCH_SIZE]
+    );
+
+    const gaps = result.rows
+      .map((row) => ({ address: row.address, sequence: Number(row.sequence), walletId: row.wallet_id }))
+      .sort((a, b) => a.address.localeCompare(b.address) || a.sequence - b.sequence);
+
+    let filled = 0;
+
+    for (const gap of gaps) {
+      let txHash: string | null = null;
+
+      try {
+        const wallet = await getSignerWallet(secretManager, gap.walletId);
+        const tx: AccountSet = {
+          TransactionType: 'AccountSet',
+          Account: gap.address,
+          Sequence: gap.sequence
+        };
+
+        await this.walletLocks.withLock(gap.address, () =>
+          submitTransaction(tx, wallet, async (signed) => {
+            await this.attach(gap.address, gap.sequence, signed);
+            txHash = signed.txHash;
+          })
+        );
+        filled++;
+      } catch (error: any) {
+        const xrplError = parseXrplError(error);
+
+        if (SEQUENCE_ERRORS.includes(xrplError.code)) {
+          await this.drop(gap.address, gap.sequence, txHash); // Consumed in the meantime
+          continue;
+        }
+
+        console.error(`  Error filling sequence ${gap.sequence} of ${gap.address}:`, error);
+        if (!(txHash && xrplError.isAmbiguous())) {
+          await this.release(gap.address, gap.sequence, gap.walletId, txHash);
+        }
+      }
+    }
+
+    return filled;
+  }
+
+  /**
+   * Record the transaction signed with a reserved sequence
+   */
+  private async attach(address: string, sequence: number, signed: SignedTransaction): Promise<void> {
+    await this.pool.query(
+      `UPDATE account_sequence_reservations
+       SET tx_hash = $3, last_ledger_sequence = $4
+       WHERE address = $1 AND sequence = $2`,
+      [address, sequence, signed.txHash, signed.lastLedgerSequence]
+    );
+  }
+
+  /**
+   * Forget the reservation of a sequence that is already consumed on ledger
+   */
+  private async drop(address: string, sequence: number, txHash: string | null): Promise<void> {
+    await this.pool.query(
+      `DELETE FROM account_sequence_reservations
+       WHERE address = $1 AND sequence = $2 AND tx_hash IS NOT DISTINCT FROM $3`,
+      [address, sequence, txHash]
+    );
+  }
+}
@@ -0,0 +1,218 @@
+import { Pool } from 'pg';
+import type { TicketCreate } from 'xrpl';
+import { waitForValidation, ValidationStatus } from '../xrpl/validation';
+import { getTicketSequences } from '../xrpl/account';
+import { getIssuerWallet } from '../operations/operation-definition';
+import { WalletLockManager } from './wallet-lock-manager';
+import { SequenceAllocator } from './sequence-allocator';
+
+export enum TicketStatus {
+  AVAILABLE = 'AVAILABLE',
+  RESERVED = 'RESERVED'
+}
+
+export interface TicketPoolOptions {
+  size?: number;      // Tickets kept on hand (env ISSUER_TICKET_POOL_SIZE, default 20, 0 disables)
+  lowWater?: number;  // Refill when fewer are available (env ISSUER_TICKET_LOW_WATER, default 5)
+}
+
+// Tickets an account may hold (ledger limit)
+const MAX_TICKETS_PER_ACCOUNT = 250;
+
+// Reservations older than this are released if the ticket is still on ledger
+// (well beyond the LastLedgerSequence window of the transaction that used it)
+const RESERVATION_TIMEOUT_MINUTES = 10;
+
+/**
+ * Issuer ticket pool
+ * Keeps TicketCreate tickets on hand for the issuer account, so issuer transactions
+ * use a TicketSequence instead of the next Sequence and independent operations can
+ * be submitted in parallel. The pool is synchronized with the validated ledger:
+ * consumed tickets are removed and tickets of stale reservations are released.
+ */
+export class TicketPool {
+  private size: number;
+  private lowWater: number;
+  private walletLocks: WalletLockManager;
+  private sequences: SequenceAllocator;
+
+  constructor(private pool: Pool, options: TicketPoolOptions = {}) {
+    this.size = Math.min(
+      options.size ?? nonNegativeInteger(process.env.ISSUER_TICKET_POOL_SIZE, 20),
+      MAX_TICKETS_PER_ACCOUNT
+    );
+    this.lowWater = Math.min(
+      options.lowWater ?? nonNegativeInteger(process.env.ISSUER_TICKET_LOW_WATER, 5),
+      this.size
+    );
+    this.walletLocks = new WalletLockManager(pool);
+    this.sequences = new SequenceAllocator(pool);
+  }
+
+  /**
+   * Reserve the lowest available ticket of an account
+   * A step that already holds a reservation (its earlier transaction was not applied)
+   * gets the same ticket back, with the reservation renewed.
+   * @param account Ticket owner address
+   * @param stepId Step whose transaction will use the ticket
+   * @returns Ticket sequence (null if none is available)
+   */
+  async reserve(account: string, stepId: string): Promise<number | null> {
+    const held = await this.pool.query(
+      `UPDATE xrpl_tickets
+       SET reserved_at = NOW()
+       WHERE account = $1 AND status = $3 AND reserved_by = $2
+       RETURNING ticket_sequence`,
+      [account, stepId, TicketStatus.RESERVED]
+    );
+
+    if (held.rows.length > 0) {
+      return Math.min(...held.rows.map((row) => Number(row.ticket_sequence)));
+    }
+
+    const result = await this.pool.query(
+      `UPDATE xrpl_tickets
+       SET status = $3, reserved_by = $2, reserved_at = NOW()
+       WHERE (account, ticket_sequence) = (
+         SELECT account, ticket_sequence FROM xrpl_tickets
+         WHERE account = $1 AND status = $4
+         ORDER BY ticket_sequence ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING ticket_sequence`,
+      [account, stepId, TicketStatus.RESERVED, TicketStatus.AVAILABLE]
+    );
+
+    return result.rows.length > 0 ? Number(result.rows[0].ticket_sequence) : null;
+  }
+
+  /**
+   * Release a step's reservation (its transaction was not applied)
+   * @param account Ticket owner address
+   * @param ticketSequence Reserved ticket
+   * @param stepId Step holding the reservation
+   */
+  async release(account: string, ticketSequence: number, stepId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE xrpl_tickets
+       SET status = $4, reserved_by = NULL, reserved_at = NULL
+       WHERE account = $1 AND ticket_sequence = $2 AND reserved_by = $3`,
+      [account, ticketSequence, stepId, TicketStatus.AVAILABLE]
+    );
+  }
+
+  /**
+   * Remove a ticket the ledger no longer holds (tefNO_TICKET)
+   * @param account Ticket owner address
+   * @param ticketSequence Ticket sequence
+   */
+  async discard(account: string, ticketSequence: number): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM xrpl_tickets WHERE account = $1 AND ticket_sequence = $2',
+      [account, ticketSequence]
+    );
+  }
+
+  /**
+   * Synchronize the issuer's tickets and create new ones below the low-water mark
+   * The TicketCreate is submitted under the issuer's wallet lock, so only one instance
+   * refills at a time; the lock is released before its validation is awaited, so issuer
+   * transactions on the sequence path are not held up meanwhile.
+   * @returns Number of tickets created
+   */
+  async refill(): Promise<number> {
+    if (this.size === 0) {
+      return 0;
+    }
+
+    const wallet = getIssuerWallet();
+
+    const submitted = await this.walletLocks.withLock(wallet.classicAddress, async () => {
+      // 1. Synchronize with the validated ledger
+      const { available, onLedger } = await this.sync(wallet.classicAddress);
+
+      if (available >= this.lowWater) {
+        return null;
+      }
+
+      // 2. Create tickets up to the pool size
+      const count = Math.min(this.size - available, MAX_TICKETS_PER_ACCOUNT - onLedger);
+
+      if (count <= 0) {
+        return null;
+      }
+
+      const tx: TicketCreate = {
+        TransactionType: 'TicketCreate',
+        Account: wallet.classicAddress,
+        TicketCount: count
+      };
+
+      const { txHash } = await this.sequences.submit(tx, wallet, null);
+      return { txHash, count };
+    });
+
+    if (!submitted) {
+      return 0;
+    }
+
+    // 3. Wait for the TicketCreate outside the lock
+    const validation = await waitForValidation(submitted.txHash);
+
+    if (validation.status !== ValidationStatus.SUCCESS) {
+      throw new Error(
+        `TicketCreate ${submitted.txHash} not validated: ${validation.transactionResult ?? validation.status}`
+      );
+    }
+
+    // 4. Add the new tickets
+    await this.sync(wallet.classicAddress);
+
+    return submitted.count;
+  }
+
+  /**
+   * Reconcile stored tickets with the tickets the account holds on ledger
+   * @returns Available tickets and tickets held on ledger
+   */
+  private async sync(account: string): Promise<{ available: number; onLedger: number }> {
+    const tickets = await getTicketSequences(account);
+
+    // 1. Remove consumed tickets
+    await this.pool.query(
+      `DELETE FROM xrpl_tickets
+       WHERE account = $1 AND NOT (ticket_sequence = ANY($2::BIGINT[]))`,
+      [account, tickets]
+    );
+
+    // 2. Add tickets not yet known
+    await this.pool.query(
+      `INSERT INTO xrpl_tickets (account, ticket_sequence, status, created_at)
+       SELECT $1, sequence, $3, NOW() FROM UNNEST($2::BIGINT[]) AS sequence
+       ON CONFLICT (account, ticket_sequence) DO NOTHING`,
+      [account, tickets, TicketStatus.AVAILABLE]
+    );
+
+    // 3. Release stale reservations (their transactions never consumed the ticket)
+    await this.pool.query(
+      `UPDATE xrpl_tickets
+       SET status = $2, reserved_by = NULL, reserved_at = NULL
+       WHERE account = $1 AND status = $3
+         AND reserved_at < NOW() - $4 * INTERVAL '1 minute'`,
+      [account, TicketStatus.AVAILABLE, TicketStatus.RESERVED, RESERVATION_TIMEOUT_MINUTES]
+    );
+
+    const result = await this.pool.query(
+      'SELECT COUNT(*) AS available FROM xrpl_tickets WHERE account = $1 AND status = $2',
+      [account, TicketStatus.AVAILABLE]
+    );
+
+    return { available: Number(result.rows[0].available), onLedger: tickets.length };
+  }
+}
+
+function nonNegativeInteger(value: string | undefined, fallback: number): number {
+  const parsed = Number(value ?? fallback);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
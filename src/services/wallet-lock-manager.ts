@@ -1,70 +1,144 @@
+import { Pool } from 'pg';
+import { hostname } from 'os';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface WalletLockOptions {
+  ttlMs?: number;            // Lock expiry, renewed while held (env WALLET_LOCK_TTL_MS, default 30 seconds)
+  waitMs?: number;           // Maximum wait for a held lock (env WALLET_LOCK_WAIT_MS, default 60 seconds)
+  retryIntervalMs?: number;  // Polling interval while waiting (default 200 ms)
+}
+
+// Identifies this process as lock holder
+const PROCESS_ID = `${hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`;
+
+/**
+ * Raised when a lock could not be acquired within the wait limit
+ */
+export class WalletLockTimeoutError extends Error {
+  constructor(public address: string, public waitMs: number) {
+    super(`Timed out after ${waitMs}ms waiting for the submission lock of ${address}`);
+    this.name = 'WalletLockTimeoutError';
+  }
+}
+
 /**
  * Wallet sequence lock manager
- * Uses in-process mutex to allow only one transaction at a time per wallet
+ * Serializes submissions per signing account with locks in the wallet_locks table, so
+ * concurrent operations (in this or another server instance) never autofill the same
+ * sequence. Locks expire unless renewed; an expired lock is reclaimed by the next acquirer.
  */
 export class WalletLockManager {
-  private locks: Map<string, Promise<void>> = new Map();
+  private ttlMs: number;
+  private waitMs: number;
+  private retryIntervalMs: number;
+
+  constructor(private pool: Pool, options: WalletLockOptions = {}) {
+    this.ttlMs = options.ttlMs ?? (Number(process.env.WALLET_LOCK_TTL_MS) || 30000);
+    this.waitMs = options.waitMs ?? (Number(process.env.WALLET_LOCK_WAIT_MS) || 60000);
+    this.retryIntervalMs = options.retryIntervalMs ?? 200;
+  }
 
   /**
-   * Lock wallet and execute function
-   * @param walletId Wallet ID
+   * Lock a signing account and execute function
+   * The lock is renewed while the function runs and released afterwards.
+   * @param address Signing account address
    * @param fn Function to execute
    * @returns Return value of function
+   * @throws WalletLockTimeoutError if the lock stays held by others for waitMs
    */
-  async withLock<T>(walletId: string, fn: () => Promise<T>): Promise<T> {
-    // Wait if lock already exists
-    while (this.locks.has(walletId)) {
-      await this.locks.get(walletId);
-    }
-
-    // Create lock
-    let releaseLock: () => void;
-    const lockPromise = new Promise<void>((resolve) => {
-      releaseLock = resolve;
-    });
+  async withLock<T>(address: string, fn: () => Promise<T>): Promise<T> {
+    const token = await this.acquire(address);
 
-    this.locks.set(walletId, lockPromise);
+    const heartbeat = setInterval(() => {
+      this.renew(address, token).catch(error => {
+        console.error(`Wallet lock renewal error (${address}):`, error);
+      });
+    }, Math.floor(this.ttlMs / 3));
 
     try {
-      console.log(`🔒 Wallet ${walletId} locked`);
-
-      // Execute function
-      const result = await fn();
-
-      console.log(`🔓 Wallet ${walletId} unlocked`);
-
-      return result;
+      console.log(`🔒 Wallet ${address} locked`);
+      return await fn();
     } finally {
-      // Release lock
-      this.locks.delete(walletId);
-      releaseLock!();
+      clearInterval(heartbeat);
+      await this.release(address, token);
+      console.log(`🔓 Wallet ${address} unlocked`);
     }
   }
 
   /**
-   * Check if specific wallet is locked
-   * @param walletId Wallet ID
+   * Check if a signing account is locked (by anyone, not expired)
+   * @param address Signing account address
    * @returns true: locked, false: unlocked
    */
-  isLocked(walletId: string): boolean {
-    return this.locks.has(walletId);
+  async isLocked(address: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'SELECT 1 FROM wallet_locks WHERE address = $1 AND expires_at > NOW()',
+      [address]
+    );
+
+    return result.rows.length > 0;
   }
 
   /**
-   * Get number of currently locked wallets
-   * @returns Number of locks
+   * Delete expired locks (left by crashed processes)
+   * @returns Number of reclaimed locks
    */
-  getLockedCount(): number {
-    return this.locks.size;
+  async reclaimExpired(): Promise<number> {
+    const result = await this.pool.query(
+      'DELETE FROM wallet_locks WHERE expires_at <= NOW()'
+    );
+
+    return result.rowCount ?? 0;
   }
 
   /**
-   * Clear all locks (for testing)
+   * Take the lock, waiting while someone else holds it
+   * A missing or expired lock is taken in a single statement, so only one acquirer wins.
+   * @returns Token of this acquisition
    */
-  clearAll(): void {
-    this.locks.clear();
+  private async acquire(address: string): Promise<string> {
+    const token = uuidv4();
+    const deadline = Date.now() + this.waitMs;
+
+    while (true) {
+      const result = await this.pool.query(
+        `INSERT INTO wallet_locks (address, lock_token, locked_by, locked_at, expires_at)
+         VALUES ($1, $2, $3, NOW(), NOW() + $4 * INTERVAL '1 millisecond')
+         ON CONFLICT (address) DO UPDATE
+           SET lock_token = EXCLUDED.lock_token,
+               locked_by = EXCLUDED.locked_by,
+               locked_at = EXCLUDED.locked_at,
+               expires_at = EXCLUDED.expires_at
+           WHERE wallet_locks.expires_at <= NOW()
+         RETURNING lock_token`,
+        [address, token, PROCESS_ID, this.ttlMs]
+      );
+
+      if (result.rows.length > 0) {
+        return token;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new WalletLockTimeoutError(address, this.waitMs);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.retryIntervalMs));
+    }
   }
-}
 
-// Singleton instance
-export const walletLockManager = new WalletLockManager();
+  private async renew(address: string, token: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE wallet_locks
+       SET expires_at = NOW() + $3 * INTERVAL '1 millisecond'
+       WHERE address = $1 AND lock_token = $2`,
+      [address, token, this.ttlMs]
+    );
+  }
+
+  private async release(address: string, token: string): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM wallet_locks WHERE address = $1 AND lock_token = $2',
+      [address, token]
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { xrpToDrops } from 'xrpl';
+import { xrplClient } from './client';
+
+export interface AccountXrpState {
+  balanceDrops: bigint;
+  ownerCount: number;
+}
+
+export interface ReserveSettings {
+  baseDrops: bigint;       // Account reserve
+  incrementDrops: bigint;  // Reserve per owned ledger object
+}
+
+/**
+ * Get the XRP balance and owned object count of an account
+ * @param account Account address
+ * @returns Balance and owner count (null if the account is not funded)
+ */
+export async function getAccountXrpState(account: string): Promise<AccountXrpState | null> {
+  const client = xrplClient.getClient();
+
+  try {
+    const response = await client.request({
+      command: 'account_info',
+      account,
+      ledger_index: 'validated'
+    });
+
+    return {
+      balanceDrops: BigInt(response.result.account_data.Balance),
+      ownerCount: response.result.account_data.OwnerCount
+    };
+  } catch (error: any) {
+    if (error?.data?.error === 'actNotFound') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get reserve settings of the validated ledger
+ */
+export async function getReserveSettings(): Promise<ReserveSettings> {
+  const client = xrplClient.getClient();
+  const response = await client.request({ command: 'server_info' });
+  const ledger = response.result.info.validated_ledger;
+
+  if (!ledger) {
+    throw new Error('No validated ledger available');
+  }
+
+  return {
+    baseDrops: BigInt(xrpToDrops(ledger.reserve_base_xrp)),
+    incrementDrops: BigInt(xrpToDrops(ledger.reserve_inc_xrp))
+  };
+}
+
+/**
+ * Get the transaction cost currently required by the open ledger (drops)
+ */
+export async function getOpenLedgerFee(): Promise<bigint> {
+  const client = xrplClient.getClient();
+  const response = await client.request({ command: 'fee' });
+
+  return BigInt(response.result.drops.open_ledger_fee);
+}
+
+/**
+ * Get the ticket sequences an account holds in the validated ledger
+ * @param account Account address
+ * @returns Ticket sequences, ascending
+ */
+export async function getTicketSequences(account: string): Promise<number[]> {
+  const client = xrplClient.getClient();
+  const tickets: number[] = [];
+  let marker: unknown = undefined;
+
+  do {
+    const response = await client.request({
+      command: 'account_objects',
+      account,
+      type: 'ticket',
+      ledger_index: 'validated',
+      limit: 400,
+      marker
+    });
+
+    for (const object of response.result.account_objects) {
+      if (object.LedgerEntryType === 'Ticket') {
+        tickets.push(object.TicketSequence);
+      }
+    }
+
+    marker = response.result.marker;
+  } while (marker);
+
+  return tickets.sort((a, b) => a - b);
+}
+
+/**
+ * Get the next sequence number of an account
+ * In the current (open) ledger, transactions already applied to it are counted; in the
+ * validated ledger, every lower sequence is consumed for good.
+ * @param account Account address
+ * @param ledgerIndex 'current' (default) or 'validated'
+ */
+export async function getNextSequence(
+  account: string,
+  ledgerIndex: 'current' | 'validated' = 'current'
+): Promise<number> {
+  const client = xrplClient.getClient();
+  const response = await client.request({
+    command: 'account_info',
+    account,
+    ledger_index: ledgerIndex
+  });
+
+  return response.result.account_data.Sequence;
+}
@@ -4,6 +4,11 @@ export {
   type MPTIssuanceCreateParams
 } from './mpt-issuance-create';
 
+export {
+  buildMPTokenIssuanceDestroy,
+  type MPTIssuanceDestroyParams
+} from './mpt-issuance-destroy';
+
 export {
   buildMPTokenAuthorize,
   type MPTAuthorizeParams
@@ -3,20 +3,30 @@ import type { SubmittableTransaction } from 'xrpl';
 export interface MPTAuthorizeParams {
   account: string;        // Receiver account
   mptIssuanceId: string;  // MPT Issuance ID
+  unauthorize?: boolean;  // Holder deletes its (empty) MPToken instead
 }
 
+const MPT_FLAG_UNAUTHORIZE = 1;  // tfMPTUnauthorize (0x01)
+
 /**
  * Build MPTokenAuthorize transaction
- * Executed by receiver to accept MPT
+ * Executed by receiver to accept MPT, or with unauthorize to release the
+ * MPToken object (balance must be zero)
  * @param params Transaction parameters
  * @returns MPTokenAuthorize transaction
  */
 export function buildMPTokenAuthorize(
   params: MPTAuthorizeParams
 ): SubmittableTransaction {
-  return {
+  const tx: any = {
     TransactionType: 'MPTokenAuthorize',
     Account: params.account,
     MPTokenIssuanceID: params.mptIssuanceId
-  } as SubmittableTransaction;
+  };
+
+  if (params.unauthorize) {
+    tx.Flags = MPT_FLAG_UNAUTHORIZE;
+  }
+
+  return tx as SubmittableTransaction;
 }
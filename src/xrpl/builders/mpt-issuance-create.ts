@@ -6,7 +6,7 @@ export interface MPTIssuanceCreateParams {
   assetScale?: number;
   maximumAmount?: string;
   transferFee?: number;
-  metadata?: string;
+  metadata?: string;  // Encoded metadata (e.g. GC metadata JSON)
 }
 
 // CLAUDE.md spec: tfMPTCanTransfer and tfMPTCanClawback are required
@@ -42,10 +42,8 @@ export function buildMPTokenIssuanceCreate(
     tx.TransferFee = params.transferFee;
   }
 
-  const jsonString = JSON.stringify(params.metadata);
-
   if (params.metadata) {
-    tx.MPTokenMetadata = convertStringToHex(jsonString);
+    tx.MPTokenMetadata = convertStringToHex(params.metadata);
   }
 
   return tx as SubmittableTransaction;
@@ -0,0 +1,22 @@
+import type { SubmittableTransaction } from 'xrpl';
+
+export interface MPTIssuanceDestroyParams {
+  account: string;        // Issuer account
+  mptIssuanceId: string;  // MPT Issuance ID
+}
+
+/**
+ * Build MPTokenIssuanceDestroy transaction
+ * Removes an issuance with no outstanding amount
+ * @param params Transaction parameters
+ * @returns MPTokenIssuanceDestroy transaction
+ */
+export function buildMPTokenIssuanceDestroy(
+  params: MPTIssuanceDestroyParams
+): SubmittableTransaction {
+  return {
+    TransactionType: 'MPTokenIssuanceDestroy',
+    Account: params.account,
+    MPTokenIssuanceID: params.mptIssuanceId
+  } as SubmittableTransaction;
+}
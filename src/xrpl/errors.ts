@@ -2,7 +2,12 @@ export enum XrplErrorCode {
   // Retriable errors
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
+  SERVER_BUSY = 'SERVER_BUSY',
   TEF_PAST_SEQ = 'tefPAST_SEQ',
+  TER_PRE_SEQ = 'terPRE_SEQ',  // Held by the server until the preceding sequence arrives (not retried)
+  TEF_NO_TICKET = 'tefNO_TICKET',
+  TEL_INSUF_FEE = 'telINSUF_FEE_P',
+  TEL_CAN_NOT_QUEUE = 'telCAN_NOT_QUEUE',
 
   // Permanent errors
   TEC_UNFUNDED = 'tecUNFUNDED_PAYMENT',
@@ -11,11 +16,45 @@ export enum XrplErrorCode {
   TEC_PATH_DRY = 'tecPATH_DRY',
   TEC_NO_AUTH = 'tecNO_AUTH',
   TEC_NO_LINE = 'tecNO_LINE',
+  TEC_INSUFFICIENT_FUNDS = 'tecINSUFFICIENT_FUNDS',
+  TEC_INSUFFICIENT_RESERVE = 'tecINSUFFICIENT_RESERVE',
+  TEC_NO_PERMISSION = 'tecNO_PERMISSION',
+  TEC_NO_DST = 'tecNO_DST',
+  TEC_OBJECT_NOT_FOUND = 'tecOBJECT_NOT_FOUND',
+  TEC_HAS_OBLIGATIONS = 'tecHAS_OBLIGATIONS',
+  TEC_DUPLICATE = 'tecDUPLICATE',
+  TEC_LOCKED = 'tecLOCKED',
 
   // Generic error
   UNKNOWN = 'UNKNOWN'
 }
 
+// Errors that may succeed when the same step is submitted again
+const RETRIABLE_CODES: XrplErrorCode[] = [
+  XrplErrorCode.NETWORK_ERROR,
+  XrplErrorCode.TIMEOUT,
+  XrplErrorCode.SERVER_BUSY,
+  XrplErrorCode.TEF_PAST_SEQ,
+  XrplErrorCode.TEF_NO_TICKET,
+  XrplErrorCode.TEL_INSUF_FEE,
+  XrplErrorCode.TEL_CAN_NOT_QUEUE
+];
+
+// Errors after which a submitted transaction may still have reached the network
+const AMBIGUOUS_CODES: XrplErrorCode[] = [
+  XrplErrorCode.NETWORK_ERROR,
+  XrplErrorCode.TIMEOUT
+];
+
+// Transaction engine result codes (tesSUCCESS, tecNO_AUTH, ...)
+const ENGINE_RESULT_PATTERN = /^(tes|tec|tef|tel|tem|ter)[A-Z_]+$/;
+
+// xrpl.js connection error classes
+const NETWORK_ERROR_NAMES = ['NotConnectedError', 'DisconnectedError', 'ConnectionError', 'TimeoutError'];
+
+// rippled API errors returned while the server cannot serve requests
+const SERVER_BUSY_ERRORS = ['tooBusy', 'slowDown', 'noNetwork', 'noCurrent', 'noClosed'];
+
 /**
  * XRPL-specific error class
  */
@@ -38,11 +77,15 @@ export class XrplError extends Error {
    * Determine if error is retriable
    */
   isRetriable(): boolean {
-    return [
-      XrplErrorCode.NETWORK_ERROR,
-      XrplErrorCode.TIMEOUT,
-      XrplErrorCode.TEF_PAST_SEQ
-    ].includes(this.code);
+    return RETRIABLE_CODES.includes(this.code);
+  }
+
+  /**
+   * Determine if a failed submission may still have been applied
+   * (the same signed transaction must be looked up or resubmitted, never signed again)
+   */
+  isAmbiguous(): boolean {
+    return AMBIGUOUS_CODES.includes(this.code);
   }
 
   /**
@@ -52,12 +95,19 @@ export class XrplError extends Error {
     switch (this.code) {
       case XrplErrorCode.NETWORK_ERROR:
       case XrplErrorCode.TIMEOUT:
+      case XrplErrorCode.SERVER_BUSY:
         return 'medium';
 
       case XrplErrorCode.TEF_PAST_SEQ:
+      case XrplErrorCode.TER_PRE_SEQ:
+      case XrplErrorCode.TEF_NO_TICKET:
+      case XrplErrorCode.TEL_INSUF_FEE:
+      case XrplErrorCode.TEL_CAN_NOT_QUEUE:
         return 'low';
 
       case XrplErrorCode.TEC_UNFUNDED:
+      case XrplErrorCode.TEC_INSUFFICIENT_FUNDS:
+      case XrplErrorCode.TEC_INSUFFICIENT_RESERVE:
       case XrplErrorCode.TEM_INVALID:
         return 'high';
 
@@ -91,8 +141,16 @@ export class XrplError extends Error {
  * @returns XrplError instance
  */
 export function parseXrplError(error: any): XrplError {
+  // Already classified
+  if (error instanceof XrplError) {
+    return error;
+  }
+
   // Network error
-  if (error.message && error.message.includes('WebSocket')) {
+  if (
+    NETWORK_ERROR_NAMES.includes(error.name) ||
+    (error.message && error.message.includes('WebSocket'))
+  ) {
     return new XrplError(
       XrplErrorCode.NETWORK_ERROR,
       'XRPL network connection error',
@@ -109,6 +167,15 @@ export function parseXrplError(error: any): XrplError {
     );
   }
 
+  // Server temporarily unable to serve requests
+  if (SERVER_BUSY_ERRORS.includes(error.data?.error)) {
+    return new XrplError(
+      XrplErrorCode.SERVER_BUSY,
+      error.data.error_message || `XRPL server unavailable: ${error.data.error}`,
+      error.data
+    );
+  }
+
   // XRPL transaction error code
   if (error.data?.error) {
     const errorCode = error.data.error;
@@ -116,12 +183,24 @@ export function parseXrplError(error: any): XrplError {
     // Map error code
     const codeMapping: Record<string, XrplErrorCode> = {
       'tefPAST_SEQ': XrplErrorCode.TEF_PAST_SEQ,
+      'terPRE_SEQ': XrplErrorCode.TER_PRE_SEQ,
+      'tefNO_TICKET': XrplErrorCode.TEF_NO_TICKET,
+      'telINSUF_FEE_P': XrplErrorCode.TEL_INSUF_FEE,
+      'telCAN_NOT_QUEUE': XrplErrorCode.TEL_CAN_NOT_QUEUE,
       'tecUNFUNDED_PAYMENT': XrplErrorCode.TEC_UNFUNDED,
       'temINVALID': XrplErrorCode.TEM_INVALID,
       'tefFAILURE': XrplErrorCode.TEF_FAILURE,
       'tecPATH_DRY': XrplErrorCode.TEC_PATH_DRY,
       'tecNO_AUTH': XrplErrorCode.TEC_NO_AUTH,
-      'tecNO_LINE': XrplErrorCode.TEC_NO_LINE
+      'tecNO_LINE': XrplErrorCode.TEC_NO_LINE,
+      'tecINSUFFICIENT_FUNDS': XrplErrorCode.TEC_INSUFFICIENT_FUNDS,
+      'tecINSUFFICIENT_RESERVE': XrplErrorCode.TEC_INSUFFICIENT_RESERVE,
+      'tecNO_PERMISSION': XrplErrorCode.TEC_NO_PERMISSION,
+      'tecNO_DST': XrplErrorCode.TEC_NO_DST,
+      'tecOBJECT_NOT_FOUND': XrplErrorCode.TEC_OBJECT_NOT_FOUND,
+      'tecHAS_OBLIGATIONS': XrplErrorCode.TEC_HAS_OBLIGATIONS,
+      'tecDUPLICATE': XrplErrorCode.TEC_DUPLICATE,
+      'tecLOCKED': XrplErrorCode.TEC_LOCKED
     };
 
     const mappedCode = codeMapping[errorCode] || XrplErrorCode.UNKNOWN;
@@ -170,6 +249,17 @@ export function parseXrplError(error: any): XrplError {
   );
 }
 
+/**
+ * Get the transaction engine result behind an error (e.g. tecNO_AUTH)
+ * @param error XrplError instance
+ * @returns Engine result (null for network, server and other non-engine errors)
+ */
+export function getEngineResult(error: XrplError): string | null {
+  const result = error.details?.error ?? error.details?.result;
+
+  return typeof result === 'string' && ENGINE_RESULT_PATTERN.test(result) ? result : null;
+}
+
 /**
  * Convert error message to user-friendly format
  * @param error XrplError instance
@@ -186,6 +276,19 @@ export function getErrorMessage(error: XrplError): string {
     case XrplErrorCode.TEF_PAST_SEQ:
       return 'Transaction sequence is too old. Please retry.';
 
+    case XrplErrorCode.TER_PRE_SEQ:
+      return 'Transaction sequence is ahead of the account. It is held until the preceding sequence is validated.';
+
+    case XrplErrorCode.TEF_NO_TICKET:
+      return 'The assigned ticket was already used. The transaction will be retried.';
+
+    case XrplErrorCode.TEL_INSUF_FEE:
+    case XrplErrorCode.TEL_CAN_NOT_QUEUE:
+      return 'Network load is high. The transaction will be retried.';
+
+    case XrplErrorCode.SERVER_BUSY:
+      return 'XRPL server is busy. Please try again later.';
+
     case XrplErrorCode.TEC_UNFUNDED:
       return 'Insufficient account balance. Please add XRP.';
 
@@ -201,6 +304,30 @@ export function getErrorMessage(error: XrplError): string {
     case XrplErrorCode.TEC_NO_LINE:
       return 'Trust line does not exist.';
 
+    case XrplErrorCode.TEC_INSUFFICIENT_FUNDS:
+      return 'Insufficient MPT balance for this transaction.';
+
+    case XrplErrorCode.TEC_INSUFFICIENT_RESERVE:
+      return 'Insufficient XRP to meet the account reserve. Please add XRP.';
+
+    case XrplErrorCode.TEC_NO_PERMISSION:
+      return 'The account is not permitted to perform this transaction.';
+
+    case XrplErrorCode.TEC_NO_DST:
+      return 'Destination account does not exist.';
+
+    case XrplErrorCode.TEC_OBJECT_NOT_FOUND:
+      return 'MPT issuance or MPToken not found on ledger.';
+
+    case XrplErrorCode.TEC_HAS_OBLIGATIONS:
+      return 'The object cannot be deleted while tokens are still outstanding.';
+
+    case XrplErrorCode.TEC_DUPLICATE:
+      return 'The object already exists on ledger.';
+
+    case XrplErrorCode.TEC_LOCKED:
+      return 'The MPT issuance or holder is locked.';
+
     default:
       return `XRPL error occurred: ${error.message}`;
   }
@@ -0,0 +1,134 @@
+import { decodeAccountID } from 'xrpl';
+import type { LedgerEntryRequest } from 'xrpl';
+import { xrplClient } from './client';
+
+/**
+ * Check whether an account holds an MPToken object for an issuance
+ * (i.e. it has already authorized the issuance)
+ * @param account Holder account address
+ * @param mptIssuanceId MPT Issuance ID
+ * @returns true if the MPToken object exists in the validated ledger
+ */
+export async function hasMPToken(account: string, mptIssuanceId: string): Promise<boolean> {
+  const client = xrplClient.getClient();
+  let marker: unknown = undefined;
+
+  do {
+    const response = await client.request({
+      command: 'account_objects',
+      account,
+      type: 'mptoken',
+      ledger_index: 'validated',
+      marker
+    });
+
+    const found = response.result.account_objects.some(
+      (object: any) => object.MPTokenIssuanceID === mptIssuanceId
+    );
+    if (found) {
+      return true;
+    }
+
+    marker = response.result.marker;
+  } while (marker);
+
+  return false;
+}
+
+/**
+ * Compute the MPT Issuance ID an MPTokenIssuanceCreate will get
+ * (32-bit sequence of the transaction followed by the 160-bit issuer account ID)
+ * @param issuer Issuer account address
+ * @param sequence Sequence of the MPTokenIssuanceCreate transaction
+ */
+export function computeMPTIssuanceId(issuer: string, sequence: number): string {
+  const sequenceHex = sequence.toString(16).padStart(8, '0');
+  const accountHex = Buffer.from(decodeAccountID(issuer)).toString('hex');
+
+  return (sequenceHex + accountHex).toUpperCase();
+}
+
+// Ledger flags (MPTokenIssuance)
+export const LSF_MPT_LOCKED = 0x01;
+export const LSF_MPT_CAN_TRANSFER = 0x20;
+export const LSF_MPT_CAN_CLAWBACK = 0x40;
+
+export interface MPTokenIssuanceEntry {
+  issuer: string;
+  flags: number;
+  outstandingAmount: bigint;
+}
+
+export interface MPTokenEntry {
+  flags: number;   // LSF_MPT_LOCKED when the holder is locked
+  amount: bigint;
+}
+
+/**
+ * Get the MPTokenIssuance ledger object
+ * @param mptIssuanceId MPT Issuance ID
+ * @returns Issuance (null if it does not exist)
+ */
+export async function getMPTokenIssuanceEntry(
+  mptIssuanceId: string
+): Promise<MPTokenIssuanceEntry | null> {
+  const node = await getLedgerEntry({ mpt_issuance: mptIssuanceId });
+
+  if (!node) {
+    return null;
+  }
+
+  return {
+    issuer: node.Issuer,
+    flags: node.Flags ?? 0,
+    outstandingAmount: BigInt(node.OutstandingAmount ?? '0')
+  };
+}
+
+/**
+ * Get the MPToken ledger object of a holder
+ * @param account Holder account address
+ * @param mptIssuanceId MPT Issuance ID
+ * @returns MPToken (null if the holder has not authorized the issuance)
+ */
+export async function getMPTokenEntry(
+  account: string,
+  mptIssuanceId: string
+): Promise<MPTokenEntry | null> {
+  const node = await getLedgerEntry({
+    mptoken: { mpt_issuance_id: mptIssuanceId, account }
+  });
+
+  if (!node) {
+    return null;
+  }
+
+  return {
+    flags: node.Flags ?? 0,
+    amount: BigInt(node.MPTAmount ?? '0')
+  };
+}
+
+/**
+ * Look up a ledger object in the validated ledger (null if not found)
+ */
+async function getLedgerEntry(
+  selector: Omit<LedgerEntryRequest, 'command'>
+): Promise<any | null> {
+  const client = xrplClient.getClient();
+
+  try {
+    const response = await client.request({
+      command: 'ledger_entry',
+      ledger_index: 'validated',
+      ...selector
+    });
+
+    return response.result.node ?? null;
+  } catch (error: any) {
+    if (error?.data?.error === 'entryNotFound') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -1,6 +1,10 @@
 import { Wallet } from 'xrpl';
 import type { SubmittableTransaction, SubmitResponse } from 'xrpl';
 import { xrplClient } from './client';
+import { parseXrplError } from './errors';
+
+// Engine result classes that are neither applied nor queued (tem: malformed, tef: failed, tel: local)
+const NOT_APPLIED_PREFIXES = ['tem', 'tef', 'tel'];
 
 export interface SubmitResult {
   txHash: string;
@@ -8,32 +12,75 @@ export interface SubmitResult {
   submitResult: SubmitResponse;
 }
 
+export interface SignedTransaction {
+  txBlob: string;
+  txHash: string;
+  lastLedgerSequence: number | null;
+}
+
 /**
  * Submit transaction to XRPL
+ * terPRE_SEQ is not an error: the server holds the transaction until the preceding
+ * sequence arrives, so it is submitted like terQUEUED.
  * @param transaction Transaction object
  * @param wallet Wallet for signing
+ * @param onSigned Called with the signed transaction before it is submitted (e.g. to persist it)
  * @returns Submit result (tx_hash, ledger_index)
+ * @throws XrplError when the engine result shows the transaction was not applied
  */
 export async function submitTransaction(
   transaction: SubmittableTransaction,
-  wallet: Wallet
+  wallet: Wallet,
+  onSigned?: (signed: SignedTransaction) => Promise<void>
 ): Promise<SubmitResult> {
   const client = xrplClient.getClient();
 
-  try {
-    // Prepare transaction with autofill (Fee, Sequence, etc.)
-    const prepared = await client.autofill(transaction);
+  // Prepare transaction with autofill (Fee, LastLedgerSequence; Sequence unless already set)
+  const prepared = await client.autofill(transaction);
 
-    // Sign
-    const signed = wallet.sign(prepared);
+  // Sign
+  const signed = wallet.sign(prepared);
+  const signedTransaction: SignedTransaction = {
+    txBlob: signed.tx_blob,
+    txHash: signed.hash,
+    lastLedgerSequence: prepared.LastLedgerSequence ?? null
+  };
+
+  if (onSigned) {
+    await onSigned(signedTransaction);
+  }
+
+  return submitSignedTransaction(signedTransaction);
+}
 
+/**
+ * Submit an already signed transaction (e.g. again after an ambiguous failure)
+ * @param signed Signed transaction
+ * @returns Submit result (tx_hash, ledger_index)
+ * @throws XrplError when the engine result shows the transaction was not applied
+ */
+export async function submitSignedTransaction(signed: SignedTransaction): Promise<SubmitResult> {
+  const client = xrplClient.getClient();
+
+  try {
     // Submit
-    const result = await client.submit(signed.tx_blob);
+    const result = await client.submit(signed.txBlob);
+
+    // Reject results that were not applied and will never reach a ledger
+    const engineResult = result.result.engine_result;
+    if (NOT_APPLIED_PREFIXES.some(prefix => engineResult.startsWith(prefix))) {
+      throw parseXrplError({
+        data: {
+          error: engineResult,
+          error_message: result.result.engine_result_message
+        }
+      });
+    }
 
     // Extract tx_hash
-    const txHash = result.result.tx_json.hash || signed.hash;
+    const txHash = result.result.tx_json.hash || signed.txHash;
 
-    console.log(`✓ Transaction submitted successfully: ${txHash}`);
+    console.log(`✓ Transaction submitted successfully: ${txHash} (${engineResult})`);
 
     return {
       txHash,
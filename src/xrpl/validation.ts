@@ -3,6 +3,8 @@ import { xrplClient } from './client';
 export enum ValidationStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
+  PENDING = 'pending',   // Not (yet) in a validated ledger
+  EXPIRED = 'expired',   // Not in a validated ledger and past its LastLedgerSequence
   TIMEOUT = 'timeout'
 }
 
@@ -13,63 +15,92 @@ export interface ValidationResult {
   details?: any;
 }
 
+/**
+ * Look up a transaction once
+ * @param txHash Transaction hash
+ * @param lastLedgerSequence LastLedgerSequence of the transaction (omitted: never EXPIRED)
+ * @returns SUCCESS / FAILED once validated; EXPIRED when it can no longer be validated; otherwise PENDING
+ */
+export async function checkValidation(
+  txHash: string,
+  lastLedgerSequence?: number | null
+): Promise<ValidationResult> {
+  const client = xrplClient.getClient();
+
+  // Read before the lookup, so a transaction validated in between is not taken as expired
+  const validatedLedgerIndex = lastLedgerSequence ? await client.getLedgerIndex() : null;
+
+  try {
+    // Get transaction
+    const txResult = await client.request({
+      command: 'tx',
+      transaction: txHash
+    });
+
+    // Check if validated
+    if (txResult.result.validated) {
+      const meta = txResult.result.meta;
+
+      // Check TransactionResult
+      if (typeof meta === 'object' && 'TransactionResult' in meta) {
+        const result = meta.TransactionResult as string;
+
+        if (result === 'tesSUCCESS') {
+          console.log(`✓ Transaction ${txHash} succeeded`);
+          return {
+            status: ValidationStatus.SUCCESS,
+            ledgerIndex: txResult.result.ledger_index,
+            transactionResult: result,
+            details: txResult.result
+          };
+        } else {
+          console.error(`✗ Transaction ${txHash} failed: ${result}`);
+          return {
+            status: ValidationStatus.FAILED,
+            ledgerIndex: txResult.result.ledger_index,
+            transactionResult: result,
+            details: txResult.result
+          };
+        }
+      }
+    }
+  } catch (error: any) {
+    // txNotFound is normal (not yet included in ledger)
+    if (error?.data?.error !== 'txnNotFound') {
+      console.error('Transaction retrieval error:', error);
+      return { status: ValidationStatus.PENDING };
+    }
+  }
+
+  if (validatedLedgerIndex !== null && validatedLedgerIndex > lastLedgerSequence!) {
+    console.warn(`⚠ Transaction ${txHash} expired (LastLedgerSequence ${lastLedgerSequence})`);
+    return { status: ValidationStatus.EXPIRED, ledgerIndex: validatedLedgerIndex };
+  }
+
+  return { status: ValidationStatus.PENDING };
+}
+
 /**
  * Wait for transaction validation to complete
  * @param txHash Transaction hash
- * @param timeoutMs Overall timeout (default 2 minutes)
- * @param pollIntervalMs Polling interval (default 5 seconds)
- * @returns Validation result
+ * @param timeoutMs Overall timeout (default 15 seconds)
+ * @param pollIntervalMs Polling interval (default 2 seconds)
+ * @returns Validation result (TIMEOUT if not validated in time)
  */
 export async function waitForValidation(
   txHash: string,
   timeoutMs: number = 15000,
   pollIntervalMs: number = 2000
 ): Promise<ValidationResult> {
-  const client = xrplClient.getClient();
   const startTime = Date.now();
 
   console.log(`Waiting for transaction ${txHash} validation...`);
 
   while (Date.now() - startTime < timeoutMs) {
-    try {
-      // Get transaction
-      const txResult = await client.request({
-        command: 'tx',
-        transaction: txHash
-      });
-
-      // Check if validated
-      if (txResult.result.validated) {
-        const meta = txResult.result.meta;
-
-        // Check TransactionResult
-        if (typeof meta === 'object' && 'TransactionResult' in meta) {
-          const result = meta.TransactionResult as string;
-
-          if (result === 'tesSUCCESS') {
-            console.log(`✓ Transaction ${txHash} succeeded`);
-            return {
-              status: ValidationStatus.SUCCESS,
-              ledgerIndex: txResult.result.ledger_index,
-              transactionResult: result,
-              details: txResult.result
-            };
-          } else {
-            console.error(`✗ Transaction ${txHash} failed: ${result}`);
-            return {
-              status: ValidationStatus.FAILED,
-              ledgerIndex: txResult.result.ledger_index,
-              transactionResult: result,
-              details: txResult.result
-            };
-          }
-        }
-      }
-    } catch (error: any) {
-      // txNotFound is normal (not yet included in ledger)
-      if (error?.data?.error !== 'txnNotFound') {
-        console.error('Transaction retrieval error:', error);
-      }
+    const result = await checkValidation(txHash);
+
+    if (result.status !== ValidationStatus.PENDING) {
+      return result;
     }
 
     // Wait until next poll
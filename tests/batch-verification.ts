@@ -0,0 +1,232 @@
+import { BatchService, BatchStatus, REJECTED_ITEM_STATUS } from '../src/services/batch-service';
+import { handleCreateBatch } from '../src/api/handlers/batches';
+import { OperationType, OperationStatus } from '../src/operations/base-operation';
+
+console.log('🧪 バッチ検証テスト開始\n');
+
+// =========================================
+// スタブ: operation_batches / batch_items / operations をメモリ上で扱うデータベース
+// =========================================
+
+const batches = new Map<string, { itemCount: number; createdAt: Date }>();
+const items: Record<string, any>[] = [];
+const operations = new Map<string, { status: OperationStatus; errorCode: string | null; errorMessage: string | null }>();
+
+async function query(sql: string, params: any[] = []): Promise<any> {
+  if (sql.includes('INSERT INTO operation_batches')) {
+    const id = `batch-${batches.size + 1}`;
+    batches.set(id, { itemCount: params[0], createdAt: new Date() });
+    return { rows: [{ id }] };
+  }
+  if (sql.includes('INSERT INTO batch_items')) {
+    const [batchId, itemNo, type, idempotencyKey, operationId, httpStatus, error] = params;
+    items.push({ batchId, itemNo, type, idempotencyKey, operationId, httpStatus, error: error && JSON.parse(error) });
+    return { rows: [] };
+  }
+  if (sql.includes('FROM operation_batches')) {
+    const batch = batches.get(params[0]);
+    return { rows: batch ? [{ id: params[0], item_count: batch.itemCount, created_at: batch.createdAt }] : [] };
+  }
+  if (sql.includes('FROM batch_items i')) {
+    // batch_items LEFT JOIN operations
+    const rows = items
+      .filter((item) => item.batchId === params[0])
+      .sort((a, b) => a.itemNo - b.itemNo)
+      .map((item) => {
+        const operation = item.operationId ? operations.get(item.operationId) : undefined;
+        return {
+          item_no: item.itemNo,
+          type: item.type,
+          idempotency_key: item.idempotencyKey,
+          operation_id: item.operationId,
+          http_status: item.httpStatus,
+          error: item.error,
+          status: operation?.status ?? null,
+          error_code: operation?.errorCode ?? null,
+          error_message: operation?.errorMessage ?? null
+        };
+      });
+    return { rows };
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const pool: any = { query, connect: async () => ({ query, release: () => {} }) };
+const batchService = new BatchService(pool);
+
+function record(itemNo: number, operationId: string | null) {
+  return {
+    itemNo,
+    type: OperationType.TRANSFER,
+    idempotencyKey: `key-${itemNo}`,
+    operationId,
+    httpStatus: operationId ? 201 : 400,
+    error: operationId ? null : { error: 'Invalid amount' }
+  };
+}
+
+// 1. 進捗の集計テスト
+console.log('1️⃣ 進捗の集計テスト');
+try {
+  const batchId = await batchService.createBatch(5);
+  await batchService.recordItem(batchId, record(1, 'op-1'));
+  await batchService.recordItem(batchId, record(2, 'op-2'));
+  await batchService.recordItem(batchId, record(3, 'op-3'));
+  await batchService.recordItem(batchId, record(4, 'op-4'));
+  await batchService.recordItem(batchId, record(5, null));
+
+  operations.set('op-1', { status: OperationStatus.SUCCESS, errorCode: null, errorMessage: null });
+  operations.set('op-2', { status: OperationStatus.IN_PROGRESS, errorCode: null, errorMessage: null });
+  operations.set('op-3', { status: OperationStatus.COMPENSATED, errorCode: 'tecNO_AUTH', errorMessage: 'Not authorized' });
+  operations.set('op-4', { status: OperationStatus.CANCELLED, errorCode: null, errorMessage: null });
+
+  const inProgress = await batchService.getBatch(batchId);
+  const progress = inProgress!.progress;
+
+  if (
+    inProgress!.status === BatchStatus.IN_PROGRESS &&
+    progress.total === 5 &&
+    progress.completed === 4 &&
+    progress.pending === 1 &&
+    progress.succeeded === 1 &&
+    progress.failed === 1 &&
+    progress.cancelled === 1 &&
+    progress.rejected === 1
+  ) {
+    console.log('✓ 成功・失敗（COMPENSATED を含む）・取消・拒否・未完了を集計');
+  } else {
+    throw new Error(`集計結果が不正です: ${JSON.stringify(inProgress)}`);
+  }
+
+  const rejectedItem = inProgress!.items[4]!;
+  const failedItem = inProgress!.items[2]!;
+  if (rejectedItem.status === REJECTED_ITEM_STATUS && rejectedItem.error.error === 'Invalid amount' && failedItem.errorCode === 'tecNO_AUTH') {
+    console.log('✓ 拒否された項目は REJECTED、失敗したオペレーションはエラーコードを表示');
+  } else {
+    throw new Error('項目のステータスが不正です');
+  }
+
+  operations.get('op-2')!.status = OperationStatus.FAILED;
+  const finished = await batchService.getBatch(batchId);
+  if (finished!.status === BatchStatus.COMPLETED_WITH_ERRORS && finished!.progress.pending === 0) {
+    console.log('✓ 全項目が終了し失敗を含む場合は COMPLETED_WITH_ERRORS');
+  } else {
+    throw new Error(`終了ステータスが不正です: ${finished!.status}`);
+  }
+
+  const succeededId = await batchService.createBatch(2);
+  await batchService.recordItem(succeededId, record(1, 'op-1'));
+  await batchService.recordItem(succeededId, record(2, 'op-5'));
+  operations.set('op-5', { status: OperationStatus.SUCCESS, errorCode: null, errorMessage: null });
+
+  if ((await batchService.getBatch(succeededId))!.status === BatchStatus.COMPLETED) {
+    console.log('✓ 全項目が成功した場合は COMPLETED');
+  } else {
+    throw new Error('全項目成功のバッチが COMPLETED になりません');
+  }
+
+  // 途中で中断され、一部の項目しか記録されていないバッチ
+  const truncatedId = await batchService.createBatch(3);
+  await batchService.recordItem(truncatedId, record(1, 'op-1'));
+  const truncated = await batchService.getBatch(truncatedId);
+
+  if (
+    truncated!.status === BatchStatus.IN_PROGRESS &&
+    truncated!.progress.total === 3 &&
+    truncated!.progress.pending === 2
+  ) {
+    console.log('✓ 合計は記録済みの項目数ではなくバッチの項目数（未記録の項目は未完了）');
+  } else {
+    throw new Error(`未記録の項目の集計が不正です: ${JSON.stringify(truncated!.progress)}`);
+  }
+
+  if ((await batchService.getBatch('missing')) === null) {
+    console.log('✓ 存在しないバッチは null');
+  } else {
+    throw new Error('存在しないバッチが返されました');
+  }
+} catch (error) {
+  console.error('✗ 進捗の集計テスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. バッチ作成 API テスト
+console.log('\n2️⃣ バッチ作成 API テスト');
+try {
+  const post = (body: unknown) => handleCreateBatch(
+    new Request('http://localhost/api/operations/batch', { method: 'POST', body: JSON.stringify(body) }),
+    pool
+  );
+
+  for (const body of [{}, { items: [] }, { items: Array.from({ length: 501 }, () => ({ type: 'mint' })) }]) {
+    const response = await post(body);
+    if (response.status !== 400) {
+      throw new Error(`不正な items が受け付けられました: ${response.status}`);
+    }
+  }
+  console.log('✓ items が空・配列でない・上限（500件）超過の場合は 400');
+
+  items.length = 0;
+  const response = await post({
+    items: [
+      { type: 'unknown', idempotencyKey: 'batch-key-1' },
+      {
+        type: OperationType.TRANSFER,
+        idempotencyKey: 'batch-key-2',
+        fromWalletId: 'wallet-1',
+        toWalletId: 'wallet-2',
+        issuanceId: 'ISSUANCE',
+        amount: '1.5'
+      }
+    ]
+  });
+  const result = await response.json() as any;
+
+  if (
+    response.status === 201 &&
+    result.accepted === 0 &&
+    result.rejected === 2 &&
+    items.length === 2 &&
+    items[0]!.httpStatus === 400 && items[0]!.idempotencyKey === 'batch-key-1' &&
+    items[1]!.httpStatus === 400 && items[1]!.error.fieldErrors[0].field === 'amount'
+  ) {
+    console.log('✓ 不正な項目は個別に拒否され、単体リクエストと同じエラーを記録');
+  } else {
+    throw new Error(`バッチ作成結果が不正です: ${JSON.stringify(result)}`);
+  }
+
+  // 処理中にエラーになった項目も記録し、後続の項目の処理を続ける
+  items.length = 0;
+  const failing = await post({
+    items: [
+      {
+        type: OperationType.TRANSFER,
+        idempotencyKey: 'batch-key-3',
+        fromWalletId: 'wallet-1',
+        toWalletId: 'wallet-2',
+        issuanceId: 'ISSUANCE',
+        amount: '1'
+      },
+      { type: 'unknown', idempotencyKey: 'batch-key-4' }
+    ]
+  });
+  const failingResult = await failing.json() as any;
+
+  if (
+    failing.status === 201 &&
+    failingResult.rejected === 2 &&
+    items.length === 2 &&
+    items[0]!.httpStatus === 500 && items[0]!.error.error === 'Internal server error' &&
+    items[1]!.idempotencyKey === 'batch-key-4'
+  ) {
+    console.log('✓ 処理中のエラーは項目の拒否（500）として記録し、残りの項目を処理');
+  } else {
+    throw new Error(`エラー項目の処理が不正です: ${JSON.stringify(failingResult)}`);
+  }
+} catch (error) {
+  console.error('✗ バッチ作成 API テスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 バッチの検証テストがすべて成功しました！\n');
+process.exit(0);
@@ -0,0 +1,122 @@
+import {
+  validateGcAttributes,
+  encodeGcMetadata,
+  decodeGcMetadata,
+  computeExpiry,
+  EnergySource
+} from '../src/certificates';
+
+console.log('🧪 GCメタデータ検証テスト開始\n');
+
+const validAttributes = {
+  deviceId: 'device-001',
+  productionStart: '2026-01-05T07:00:00Z',
+  productionEnd: '2026-01-05T08:00:00Z',
+  energySource: EnergySource.SOLAR,
+  technology: 'pv_ground_mounted',
+  country: 'JP',
+  gridZone: 'tokyo',
+  volumeKwh: '1000',
+  issuingBody: 'GRPL'
+};
+
+// 1. 正常なメタデータ
+console.log('1️⃣ 正常なメタデータのバリデーション');
+try {
+  const errors = validateGcAttributes(validAttributes, '1000');
+  if (errors.length === 0) {
+    console.log('✓ 正常なメタデータがエラーなしで受理されました');
+  } else {
+    throw new Error(`予期しないエラー: ${JSON.stringify(errors)}`);
+  }
+} catch (error) {
+  console.error('✗ 正常なメタデータのテスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 不正なメタデータ
+console.log('\n2️⃣ 不正なメタデータのバリデーション');
+try {
+  // 発電時間帯が1時間でない
+  const windowErrors = validateGcAttributes(
+    { ...validAttributes, productionEnd: '2026-01-05T09:00:00Z' },
+    '1000'
+  );
+  if (windowErrors.some(e => e.field === 'metadata.productionEnd')) {
+    console.log('✓ 1時間でない発電時間帯が拒否されました');
+  } else {
+    throw new Error('発電時間帯のエラーが検出されませんでした');
+  }
+
+  // 発行量とkWhの不一致
+  const amountErrors = validateGcAttributes(validAttributes, '999');
+  if (amountErrors.some(e => e.field === 'metadata.volumeKwh')) {
+    console.log('✓ 発行量とkWhの不一致が拒否されました');
+  } else {
+    throw new Error('発行量の不一致が検出されませんでした');
+  }
+
+  // 必須項目の欠落
+  const missingErrors = validateGcAttributes({ volumeKwh: '1000' }, '1000');
+  const missingFields = missingErrors.map(e => e.field);
+  if (missingFields.includes('metadata.deviceId') && missingFields.includes('metadata.country')) {
+    console.log('✓ 必須項目の欠落がフィールド単位で報告されました');
+  } else {
+    throw new Error('必須項目の欠落が検出されませんでした');
+  }
+} catch (error) {
+  console.error('✗ 不正なメタデータのテスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. エンコード/デコード
+console.log('\n3️⃣ エンコード/デコードテスト');
+try {
+  const encoded = encodeGcMetadata(validAttributes);
+  const reordered = encodeGcMetadata({ ...validAttributes, productionStart: '2026-01-05T07:00:00.000Z' });
+
+  if (encoded === reordered) {
+    console.log('✓ エンコード結果が安定しています');
+  } else {
+    throw new Error('エンコード結果が一致しません');
+  }
+
+  const hex = Buffer.from(encoded, 'utf-8').toString('hex').toUpperCase();
+  const decoded = decodeGcMetadata(hex);
+
+  if (decoded && decoded.deviceId === 'device-001' && decoded.volumeKwh === '1000') {
+    console.log('✓ 16進エンコードされたメタデータをデコードできました');
+  } else {
+    throw new Error('デコード結果が一致しません');
+  }
+
+  if (decodeGcMetadata('"My First MPT"') === null) {
+    console.log('✓ GC以外のメタデータはnullを返しています');
+  }
+} catch (error) {
+  console.error('✗ エンコード/デコードテスト失敗:', error);
+  process.exit(1);
+}
+
+// 4. 有効期限
+console.log('\n4️⃣ 有効期限の計算テスト');
+try {
+  if (computeExpiry(validAttributes.productionStart, 12) === '2027-01-05T07:00:00Z') {
+    console.log('✓ 生産時刻から12か月後が有効期限になっています');
+  } else {
+    throw new Error(`有効期限が一致しません: ${computeExpiry(validAttributes.productionStart, 12)}`);
+  }
+
+  if (computeExpiry('2026-01-31T07:00:00Z', 1) === '2026-02-28T07:00:00Z') {
+    console.log('✓ 月末日は翌月の末日に丸められています');
+  } else {
+    throw new Error('月末日の丸めが正しくありません');
+  }
+} catch (error) {
+  console.error('✗ 有効期限テスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 GCメタデータの検証テストがすべて成功しました！\n');
+
+process.exit(0);
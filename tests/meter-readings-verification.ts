@@ -0,0 +1,79 @@
+import { parseMeterReadings, aggregateHourly, toMintAmount } from '../src/metering';
+
+console.log('🧪 メーターデータ検証テスト開始\n');
+
+// 1. 解析
+console.log('1️⃣ メーターデータ解析テスト');
+try {
+  const csv = [
+    'device_id,interval_start,interval_minutes,kwh',
+    'device-001,2026-01-05T07:00:00Z,15,10.5',
+    'device-001,2026-01-05T07:15:00Z,15,11',
+    'device-001,2026-01-05T07:30:00Z,30,20',
+    'device-001,2026-01-05T08:10:00Z,15,5',
+    'device-001,2026-01-05T07:00:00Z,15,10.5'
+  ].join('\n');
+  const parsed = parseMeterReadings(csv, 'text/csv');
+
+  if (parsed.readings.length === 3 && parsed.errors.map(e => e.row).join(',') === '4,5') {
+    console.log('✓ 境界にない区間と重複区間が行番号付きで拒否されています');
+  } else {
+    throw new Error(`CSV解析結果が不正です: ${JSON.stringify(parsed)}`);
+  }
+
+  const json = JSON.stringify({
+    deviceId: 'device-002',
+    readings: [{ intervalStart: '2026-01-05T07:00:00Z', intervalMinutes: 60, kwh: 80 }]
+  });
+  const parsedJson = parseMeterReadings(json, 'application/json');
+
+  if (parsedJson.readings[0]?.deviceId === 'device-002') {
+    console.log('✓ JSONのデバイスIDが各区間に適用されています');
+  } else {
+    throw new Error('JSON解析結果が不正です');
+  }
+} catch (error) {
+  console.error('✗ メーターデータ解析テスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 時間単位の集計
+console.log('\n2️⃣ 時間単位の集計テスト');
+try {
+  const csv = [
+    'device_id,interval_start,interval_minutes,kwh',
+    'device-001,2026-01-05T07:00:00Z,15,10.5',
+    'device-001,2026-01-05T07:15:00Z,15,11',
+    'device-001,2026-01-05T07:30:00Z,30,20.7',
+    'device-001,2026-01-05T08:00:00Z,30,5',
+    'device-002,2026-01-05T07:00:00Z,60,3',
+    'device-002,2026-01-05T07:30:00Z,30,3'
+  ].join('\n');
+  const hours = aggregateHourly(parseMeterReadings(csv, 'text/csv').readings);
+  const [complete, incomplete, overlapping] = hours;
+
+  if (complete?.coverage === 'complete' && complete.kwh === 42.2 && toMintAmount(complete.kwh) === '42') {
+    console.log('✓ 15分/30分の区間が1時間に集計され、kWh未満は切り捨てられています');
+  } else {
+    throw new Error(`完全な時間の集計が不正です: ${JSON.stringify(complete)}`);
+  }
+
+  if (incomplete?.coverage === 'incomplete' && incomplete.coveredMinutes === 30) {
+    console.log('✓ 不完全な時間が検出されています');
+  } else {
+    throw new Error(`不完全な時間の集計が不正です: ${JSON.stringify(incomplete)}`);
+  }
+
+  if (overlapping?.coverage === 'overlapping' && overlapping.hourStart === '2026-01-05T07:00:00Z') {
+    console.log('✓ 重なる区間が検出されています');
+  } else {
+    throw new Error(`重なる区間の集計が不正です: ${JSON.stringify(overlapping)}`);
+  }
+} catch (error) {
+  console.error('✗ 時間単位の集計テスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 メーターデータの検証テストがすべて成功しました！\n');
+
+process.exit(0);
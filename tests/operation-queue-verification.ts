@@ -0,0 +1,214 @@
+import { OperationQueue, OperationJobStatus } from '../src/services/operation-queue';
+
+console.log('🧪 オペレーションキュー検証テスト開始\n');
+
+// =========================================
+// スタブ: operation_jobs をメモリ上で扱うデータベース
+// =========================================
+
+interface Job {
+  status: OperationJobStatus;
+  availableAt: number;
+  leasedBy: string | null;
+  leaseExpiresAt: number | null;
+  attempts: number;
+  lastError: string | null;
+}
+
+const jobs = new Map<string, Job>();
+let now = 1_000_000;  // 疑似時刻（ms）
+
+async function query(sql: string, params: any[] = []): Promise<any> {
+  if (sql.startsWith('INSERT INTO operation_jobs')) {
+    // enqueue: 新規作成、または DONE のジョブのみ再キュー
+    const [operationId, status, delaySecs, doneStatus] = params;
+    const job = jobs.get(operationId);
+    if (job && job.status !== doneStatus) {
+      return { rows: [], rowCount: 0 };
+    }
+    jobs.set(operationId, {
+      status,
+      availableAt: now + delaySecs * 1000,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      attempts: job?.attempts ?? 0,
+      lastError: job?.lastError ?? null
+    });
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.includes('SET status = $1') && sql.includes('attempts = attempts + 1')) {
+    // claim: 期限到来の QUEUED、またはリース切れの LEASED
+    const [leased, workerId, leaseSecs, queued, limit] = params;
+    const due = [...jobs.entries()]
+      .filter(([, job]) =>
+        (job.status === queued && job.availableAt <= now) ||
+        (job.status === leased && job.leaseExpiresAt! < now))
+      .sort(([, a], [, b]) => a.availableAt - b.availableAt)
+      .slice(0, limit);
+    for (const [, job] of due) {
+      Object.assign(job, {
+        status: leased, leasedBy: workerId, leaseExpiresAt: now + leaseSecs * 1000, attempts: job.attempts + 1
+      });
+    }
+    return { rows: due.map(([operationId]) => ({ operation_id: operationId })) };
+  }
+  if (sql.includes('SET lease_expires_at')) {
+    // renew
+    const [operationId, workerId, leaseSecs, leased] = params;
+    const job = jobs.get(operationId);
+    if (!job || job.leasedBy !== workerId || job.status !== leased) {
+      return { rows: [], rowCount: 0 };
+    }
+    job.leaseExpiresAt = now + leaseSecs * 1000;
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.startsWith('UPDATE operation_jobs')) {
+    // complete / release / reschedule: リースを保持するワーカーのみ
+    const [operationId, workerId, status, delaySecs, error] = params;
+    const job = jobs.get(operationId);
+    if (!job || job.leasedBy !== workerId) {
+      return { rows: [], rowCount: 0 };
+    }
+    Object.assign(job, { status, leasedBy: null, leaseExpiresAt: null });
+    if (delaySecs !== undefined) {
+      job.availableAt = now + delaySecs * 1000;
+    }
+    if (sql.includes('last_error')) {
+      job.lastError = error;
+    }
+    if (sql.includes('attempts = 0')) {
+      job.attempts = 0;
+    }
+    return { rows: [], rowCount: 1 };
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const queue = new OperationQueue({ query } as any);
+
+try {
+  // =========================================
+  // 1. キュー登録と取得
+  // =========================================
+  console.log('1️⃣ キュー登録と取得テスト');
+
+  await queue.enqueue('op-1');
+  await queue.enqueue('op-2', 5000);
+
+  const first = await queue.claim('worker-a', 10, 30000);
+  if (first.length === 1 && first[0] === 'op-1') {
+    console.log('✓ 遅延なしのジョブのみ取得（遅延中のジョブは対象外）');
+  } else {
+    throw new Error(`取得結果が不正です: ${first}`);
+  }
+
+  now += 5000;
+  const second = await queue.claim('worker-b', 10, 30000);
+  if (second.length === 1 && second[0] === 'op-2') {
+    console.log('✓ 遅延経過後に取得可能');
+  } else {
+    throw new Error(`遅延後の取得結果が不正です: ${second}`);
+  }
+
+  await queue.enqueue('op-1');
+  if (jobs.get('op-1')!.status === OperationJobStatus.LEASED && jobs.get('op-1')!.leasedBy === 'worker-a') {
+    console.log('✓ リース中のジョブは再登録しても変更されない');
+  } else {
+    throw new Error('リース中のジョブが再登録で上書きされました');
+  }
+} catch (error) {
+  console.error('✗ キュー登録と取得テスト失敗:', error);
+  process.exit(1);
+}
+
+try {
+  // =========================================
+  // 2. リースの延長と失効
+  // =========================================
+  console.log('\n2️⃣ リースの延長と失効テスト');
+
+  now += 20000;
+  if (await queue.renew('op-1', 'worker-a', 30000)) {
+    console.log('✓ 保持しているワーカーはリースを延長できる');
+  } else {
+    throw new Error('リースを延長できません');
+  }
+
+  if (!(await queue.renew('op-1', 'worker-b', 30000))) {
+    console.log('✓ 他のワーカーは延長できない（false）');
+  } else {
+    throw new Error('他のワーカーがリースを延長しました');
+  }
+
+  now += 31000;
+  const reclaimed = await queue.claim('worker-b', 10, 30000);
+  if (reclaimed.includes('op-1') && jobs.get('op-1')!.leasedBy === 'worker-b' && jobs.get('op-1')!.attempts === 2) {
+    console.log('✓ リース切れのジョブは別のワーカーが取得（試行回数を加算）');
+  } else {
+    throw new Error(`リース切れのジョブが再取得されません: ${reclaimed}`);
+  }
+
+  if (!(await queue.renew('op-1', 'worker-a', 30000))) {
+    console.log('✓ リースを失ったワーカーの延長は false');
+  } else {
+    throw new Error('リースを失ったワーカーが延長できました');
+  }
+
+  await queue.complete('op-1', 'worker-a');
+  if (jobs.get('op-1')!.status === OperationJobStatus.LEASED) {
+    console.log('✓ リースを失ったワーカーは完了にできない');
+  } else {
+    throw new Error('リースを失ったワーカーが完了にしました');
+  }
+} catch (error) {
+  console.error('✗ リースの延長と失効テスト失敗:', error);
+  process.exit(1);
+}
+
+try {
+  // =========================================
+  // 3. 完了・差し戻し・再スケジュール
+  // =========================================
+  console.log('\n3️⃣ 完了・差し戻し・再スケジュールテスト');
+
+  await queue.complete('op-1', 'worker-b');
+  await queue.enqueue('op-1');
+  if (jobs.get('op-1')!.status === OperationJobStatus.QUEUED) {
+    console.log('✓ 完了したジョブは再登録でキューに戻る');
+  } else {
+    throw new Error('完了したジョブが再登録されません');
+  }
+
+  await queue.release('op-2', 'worker-b', 'connection reset', 4000);
+  const released = jobs.get('op-2')!;
+  if (
+    released.status === OperationJobStatus.QUEUED &&
+    released.availableAt === now + 4000 &&
+    released.lastError === 'connection reset' &&
+    released.attempts === 2
+  ) {
+    console.log('✓ 失敗したジョブはエラーを記録して遅延付きでキューに戻る');
+  } else {
+    throw new Error(`差し戻しが不正です: ${JSON.stringify(released)}`);
+  }
+
+  now += 4000;
+  await queue.claim('worker-a', 10, 30000);
+  await queue.reschedule('op-2', 'worker-a', -1000);
+  const rescheduled = jobs.get('op-2')!;
+  if (
+    rescheduled.status === OperationJobStatus.QUEUED &&
+    rescheduled.availableAt === now &&
+    rescheduled.attempts === 0
+  ) {
+    console.log('✓ 再スケジュールは試行回数をリセット（過去の時刻は即時）');
+  } else {
+    throw new Error(`再スケジュールが不正です: ${JSON.stringify(rescheduled)}`);
+  }
+} catch (error) {
+  console.error('✗ 完了・差し戻し・再スケジュールテスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 オペレーションキューの検証テストがすべて成功しました！\n');
+process.exit(0);
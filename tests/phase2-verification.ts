@@ -6,7 +6,7 @@ import {
   buildMPTPayment,
   buildMPTClawback
 } from '../src/xrpl/builders';
-import { parseXrplError, XrplErrorCode } from '../src/xrpl/errors';
+import { parseXrplError, XrplErrorCode, getEngineResult } from '../src/xrpl/errors';
 
 console.log('🧪 フェーズ2検証テスト開始\n');
 
@@ -119,6 +119,20 @@ try {
     console.log('✓ 残高不足エラーが正しく解析されました（リトライ不可）');
   }
 
+  // MPT 残高不足（エンジン結果の記録）
+  const insufficientFundsError = {
+    data: { error: 'tecINSUFFICIENT_FUNDS' }
+  };
+  const parsedInsufficientFunds = parseXrplError(insufficientFundsError);
+
+  if (
+    parsedInsufficientFunds.code === XrplErrorCode.TEC_INSUFFICIENT_FUNDS &&
+    getEngineResult(parsedInsufficientFunds) === 'tecINSUFFICIENT_FUNDS' &&
+    getEngineResult(parsedNetworkError) === null
+  ) {
+    console.log('✓ エンジン結果が正しく抽出されました');
+  }
+
 } catch (error) {
   console.error('✗ エラーハンドリングテスト失敗:', error);
   await cleanupXrplClient();
@@ -229,6 +229,44 @@ try {
     throw new Error('バリデーションエラーテスト失敗');
   }
 
+  // 数量が正の整数文字列でない場合は 400（pre-flight より前に検証）
+  for (const amount of ['abc', '1.5', '-3', '0']) {
+    const invalidTransferResponse = await fetch(`${BASE_URL}/api/operations/transfer`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        idempotencyKey: `api-test-transfer-amount-${uuidv4()}`,
+        fromWalletId: userWallet.id,
+        toWalletId: issuerWallet.id,
+        issuanceId: '00000000000000000000000000000000000000000000000000',
+        amount
+      })
+    });
+    const invalidBurnResponse = await fetch(`${BASE_URL}/api/operations/burn`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        idempotencyKey: `api-test-burn-amount-${uuidv4()}`,
+        holderWalletId: userWallet.id,
+        issuanceId: '00000000000000000000000000000000000000000000000000',
+        amount
+      })
+    });
+    const transferData = await invalidTransferResponse.json();
+    const burnData = await invalidBurnResponse.json();
+
+    if (
+      invalidTransferResponse.status === 400 &&
+      invalidBurnResponse.status === 400 &&
+      transferData.fieldErrors?.[0]?.field === 'amount' &&
+      burnData.fieldErrors?.[0]?.field === 'amount'
+    ) {
+      console.log(`✓ 不正な数量 "${amount}" が 400 で拒否される`);
+    } else {
+      throw new Error(`不正な数量テスト失敗: ${amount}`);
+    }
+  }
+
   // =========================================
   // 8. 404 エラーテスト
   // =========================================
@@ -0,0 +1,97 @@
+import { computeBackoff, getRetryPolicy, RetryPolicy } from '../src/operations/retry-policy';
+
+console.log('🧪 リトライポリシー検証テスト開始\n');
+
+const policy: RetryPolicy = { maxAttempts: 5, baseDelayMs: 2000, maxDelayMs: 60000 };
+
+// 1. 環境変数からの読み込みテスト
+console.log('1️⃣ 環境変数からの読み込みテスト');
+try {
+  delete process.env.STEP_MAX_ATTEMPTS;
+  delete process.env.STEP_RETRY_BASE_MS;
+  delete process.env.STEP_RETRY_MAX_MS;
+
+  const defaults = getRetryPolicy();
+  if (defaults.maxAttempts === 5 && defaults.baseDelayMs === 2000 && defaults.maxDelayMs === 60000) {
+    console.log('✓ 未設定の場合はデフォルト値（5回 / 2000ms / 60000ms）');
+  } else {
+    throw new Error(`デフォルト値が不正です: ${JSON.stringify(defaults)}`);
+  }
+
+  process.env.STEP_MAX_ATTEMPTS = '3';
+  process.env.STEP_RETRY_BASE_MS = '500';
+  process.env.STEP_RETRY_MAX_MS = '8000';
+
+  const configured = getRetryPolicy();
+  if (configured.maxAttempts === 3 && configured.baseDelayMs === 500 && configured.maxDelayMs === 8000) {
+    console.log('✓ 環境変数の値を使用');
+  } else {
+    throw new Error(`設定値が反映されていません: ${JSON.stringify(configured)}`);
+  }
+
+  for (const invalid of ['0', '-1', '1.5', 'abc']) {
+    process.env.STEP_MAX_ATTEMPTS = invalid;
+    if (getRetryPolicy().maxAttempts !== 5) {
+      throw new Error(`不正な値 "${invalid}" が採用されました`);
+    }
+  }
+  console.log('✓ 正の整数でない値はデフォルト値にフォールバック');
+
+  delete process.env.STEP_MAX_ATTEMPTS;
+  delete process.env.STEP_RETRY_BASE_MS;
+  delete process.env.STEP_RETRY_MAX_MS;
+} catch (error) {
+  console.error('✗ 環境変数からの読み込みテスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 指数バックオフテスト
+console.log('\n2️⃣ 指数バックオフテスト');
+try {
+  // random = 1 で上限（指数値そのもの）
+  const upper = [1, 2, 3, 4, 5].map((attempt) => computeBackoff(attempt, policy, () => 1));
+  const expected = [2000, 4000, 8000, 16000, 32000];
+
+  if (upper.every((delay, i) => delay === expected[i])) {
+    console.log(`✓ 試行ごとに倍増: ${upper.join(', ')}ms`);
+  } else {
+    throw new Error(`バックオフが倍増していません: ${upper.join(', ')}`);
+  }
+
+  if (computeBackoff(10, policy, () => 1) === 60000 && computeBackoff(30, policy, () => 1) === 60000) {
+    console.log('✓ 上限（maxDelayMs）で頭打ち');
+  } else {
+    throw new Error('上限で頭打ちになっていません');
+  }
+} catch (error) {
+  console.error('✗ 指数バックオフテスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. ジッターテスト
+console.log('\n3️⃣ ジッターテスト');
+try {
+  // equal jitter: 指数値の半分は固定、残り半分がランダム
+  const lowest = computeBackoff(3, policy, () => 0);
+  const middle = computeBackoff(3, policy, () => 0.5);
+
+  if (lowest === 4000 && middle === 6000) {
+    console.log('✓ 遅延は指数値の半分から指数値までの範囲（8000ms → 4000〜8000ms）');
+  } else {
+    throw new Error(`ジッターの範囲が不正です: ${lowest}, ${middle}`);
+  }
+
+  for (let i = 0; i < 100; i++) {
+    const delay = computeBackoff(4, policy);
+    if (delay < 8000 || delay > 16000) {
+      throw new Error(`Math.random による遅延が範囲外です: ${delay}`);
+    }
+  }
+  console.log('✓ デフォルトの乱数源でも範囲内');
+} catch (error) {
+  console.error('✗ ジッターテスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 リトライポリシーの検証テストがすべて成功しました！\n');
+process.exit(0);
@@ -0,0 +1,422 @@
+import { Wallet, decode } from 'xrpl';
+import type { AccountSet } from 'xrpl';
+import { xrplClient } from '../src/xrpl/client';
+import { SequenceAllocator } from '../src/services/sequence-allocator';
+
+console.log('🧪 シーケンスアロケーター検証テスト開始\n');
+
+// =========================================
+// スタブ: XRPL クライアント
+// =========================================
+
+const wallet = Wallet.generate();
+process.env.ISSUER_SEED = wallet.seed!;
+const address = wallet.classicAddress;
+
+let currentSequence = 50;       // account_info (current)
+let validatedSequence = 50;     // account_info (validated)
+let validatedLedgerIndex = 100;
+let submitOutcome: () => string = () => 'tesSUCCESS';  // エンジン結果（throw でネットワークエラー）
+const submitted: number[] = [];  // 送信されたトランザクションのシーケンス
+
+(xrplClient as any).getClient = () => ({
+  autofill: async (tx: any) => ({ ...tx, Fee: '12', LastLedgerSequence: validatedLedgerIndex + 20 }),
+  submit: async (txBlob: string) => {
+    submitted.push((decode(txBlob) as any).Sequence);
+    const engineResult = submitOutcome();
+    return { result: { engine_result: engineResult, engine_result_message: engineResult, tx_json: {} } };
+  },
+  request: async (request: any) => {
+    if (request.command === 'account_info') {
+      const sequence = request.ledger_index === 'validated' ? validatedSequence : currentSequence;
+      return { result: { account_data: { Sequence: sequence } } };
+    }
+    throw new Error(`Unexpected request: ${request.command}`);
+  },
+  getLedgerIndex: async () => validatedLedgerIndex
+});
+
+// =========================================
+// スタブ: account_sequences / account_sequence_reservations / account_sequence_gaps
+// =========================================
+
+interface Reservation {
+  walletId: string | null;
+  txHash: string | null;
+  lastLedgerSequence: number | null;
+  reservedAt: number;
+}
+
+const counters = new Map<string, number>();
+const reservations = new Map<number, Reservation>();
+const gaps = new Map<number, { walletId: string | null; releasedAt: number }>();
+let locks = 0;
+
+function reserve(sequence: number, walletId: string | null): void {
+  reservations.set(sequence, { walletId, txHash: null, lastLedgerSequence: null, reservedAt: Date.now() });
+}
+
+function releaseTo(sequence: number, walletId: string | null): void {
+  reservations.delete(sequence);
+  if (!gaps.has(sequence)) {
+    gaps.set(sequence, { walletId, releasedAt: Date.now() });
+  }
+}
+
+async function query(sql: string, params: any[] = []): Promise<any> {
+  if (sql.startsWith('WITH gap AS')) {
+    const sequence = Math.min(...gaps.keys());
+    if (!Number.isFinite(sequence)) {
+      return { rows: [] };
+    }
+    gaps.delete(sequence);
+    reserve(sequence, params[1]);
+    return { rows: [{ sequence: String(sequence) }] };
+  }
+  if (sql.startsWith('WITH next AS')) {
+    const next = counters.get(params[0]);
+    if (next === undefined) {
+      return { rows: [] };
+    }
+    counters.set(params[0], next + 1);
+    reserve(next, params[1]);
+    return { rows: [{ sequence: String(next) }] };
+  }
+  if (sql.startsWith('WITH account AS')) {
+    if (counters.has(params[0])) {
+      return { rows: [] };
+    }
+    counters.set(params[0], params[2] + 1);
+    reserve(params[2], params[1]);
+    return { rows: [{ sequence: String(params[2]) }] };
+  }
+  if (sql.startsWith('UPDATE account_sequence_reservations')) {
+    // attach
+    const reservation = reservations.get(params[1]);
+    if (reservation) {
+      Object.assign(reservation, { txHash: params[2], lastLedgerSequence: params[3] });
+    }
+    return { rows: [], rowCount: reservation ? 1 : 0 };
+  }
+  if (sql.startsWith('WITH released AS') && sql.includes('tx_hash IS NOT DISTINCT FROM $4')) {
+    // release: 指定されたトランザクションの予約のみ
+    const reservation = reservations.get(params[1]);
+    if (reservation && reservation.txHash === params[3]) {
+      releaseTo(params[1], params[2]);
+    }
+    return { rows: [] };
+  }
+  if (sql.startsWith('WITH released AS')) {
+    // settle: LastLedgerSequence 超過、または長時間未署名の予約を解放
+    let rowCount = 0;
+    for (const [sequence, reservation] of [...reservations]) {
+      if (
+        (reservation.lastLedgerSequence !== null && reservation.lastLedgerSequence < params[1]) ||
+        (reservation.txHash === null && reservation.reservedAt < Date.now() - params[2] * 1000)
+      ) {
+        releaseTo(sequence, reservation.walletId);
+        rowCount++;
+      }
+    }
+    return { rows: [], rowCount };
+  }
+  if (sql.startsWith('DELETE FROM account_sequence_reservations') && sql.includes('tx_hash')) {
+    // drop
+    const reservation = reservations.get(params[1]);
+    if (reservation && reservation.txHash === params[2]) {
+      reservations.delete(params[1]);
+    }
+    return { rows: [] };
+  }
+  if (sql.startsWith('DELETE FROM account_sequence_reservations') || sql.startsWith('DELETE FROM account_sequence_gaps')) {
+    const table: Map<number, unknown> = sql.includes('gaps') ? gaps : reservations;
+    for (const sequence of [...table.keys()]) {
+      if (sequence < params[1]) {
+        table.delete(sequence);
+      }
+    }
+    return { rows: [] };
+  }
+  if (sql.startsWith('INSERT INTO account_sequence_gaps')) {
+    // resync: レジャーとカウンターの間で予約も解放もされていないシーケンスを解放
+    let rowCount = 0;
+    for (let sequence = params[1]; sequence < counters.get(params[0])!; sequence++) {
+      if (!reservations.has(sequence) && !gaps.has(sequence)) {
+        // 次の文の NOW() は必ず後になるため 1ms 前に
+        gaps.set(sequence, { walletId: params[2], releasedAt: Date.now() - params[3] * 1000 - 1 });
+        rowCount++;
+      }
+    }
+    return { rows: [], rowCount };
+  }
+  if (sql.includes('INSERT INTO wallet_locks')) {
+    locks++;
+    return { rows: [{ lock_token: params[1] }] };
+  }
+  if (sql.includes('wallet_locks')) {
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.startsWith('INSERT INTO account_sequences')) {
+    // resync: カウンターは下げない
+    counters.set(params[0], Math.max(counters.get(params[0]) ?? 0, params[1]));
+    return { rows: [] };
+  }
+  if (sql.startsWith('SELECT address FROM account_sequence_reservations')) {
+    return { rows: reservations.size + gaps.size > 0 ? [{ address }] : [] };
+  }
+  if (sql.startsWith('WITH taken AS')) {
+    const stale = [...gaps].filter(([, gap]) => gap.releasedAt < Date.now() - params[0] * 1000);
+    for (const [sequence, gap] of stale) {
+      gaps.delete(sequence);
+      reserve(sequence, gap.walletId);
+    }
+    return { rows: stale.map(([sequence, gap]) => ({ address, sequence: String(sequence), wallet_id: gap.walletId })) };
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const allocator = new SequenceAllocator({ query } as any);
+
+function accountSet(): AccountSet {
+  return { TransactionType: 'AccountSet', Account: address };
+}
+
+async function expectFailure(promise: Promise<unknown>): Promise<void> {
+  try {
+    await promise;
+  } catch {
+    return;
+  }
+  throw new Error('送信が失敗していません');
+}
+
+// 1. シーケンスの割り当てテスト
+console.log('1️⃣ シーケンスの割り当てテスト');
+try {
+  const allocated = await Promise.all([1, 2, 3].map(() => allocator.allocate(address, null)));
+
+  if (allocated.join(',') === '50,51,52' && counters.get(address) === 53 && reservations.size === 3) {
+    console.log('✓ 初回はレジャーのシーケンスから開始し、並行割り当ても重複しない');
+  } else {
+    throw new Error(`割り当て結果が不正です: ${allocated.join(',')}`);
+  }
+
+  reservations.clear();
+} catch (error) {
+  console.error('✗ シーケンスの割り当てテスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 送信と予約の保持テスト
+console.log('\n2️⃣ 送信と予約の保持テスト');
+try {
+  const order: string[] = [];
+  submitOutcome = () => {
+    order.push('submit');
+    return 'tesSUCCESS';
+  };
+
+  const result = await allocator.submit(accountSet(), wallet, null, async (signed) => {
+    order.push(`signed:${signed.lastLedgerSequence}`);
+  });
+  const reservation = reservations.get(53);
+
+  if (
+    submitted.at(-1) === 53 &&
+    reservation?.txHash === result.txHash &&
+    reservation?.lastLedgerSequence === 120 &&
+    order.join(',') === 'signed:120,submit'
+  ) {
+    console.log('✓ 送信前に署名済みトランザクションを予約に記録し、onSigned を呼ぶ');
+    console.log('✓ 送信後も台帳で消費されるまで予約を保持');
+  } else {
+    throw new Error(`予約の記録が不正です: ${JSON.stringify({ reservation, order })}`);
+  }
+
+  currentSequence = 53;
+  submitOutcome = () => 'terPRE_SEQ';
+  await allocator.submit(accountSet(), wallet, null);
+  if (reservations.get(54)?.txHash && gaps.size === 0) {
+    console.log('✓ terPRE_SEQ（先行シーケンス待ち）はエラーにせず予約を保持');
+  } else {
+    throw new Error('terPRE_SEQ で予約が解放されました');
+  }
+} catch (error) {
+  console.error('✗ 送信と予約の保持テスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. 拒否されたトランザクションテスト
+console.log('\n3️⃣ 拒否されたトランザクションテスト');
+try {
+  submitOutcome = () => 'temBAD_FEE';
+  await expectFailure(allocator.submit(accountSet(), wallet, null));
+
+  if (!reservations.has(55) && gaps.has(55)) {
+    console.log('✓ 拒否されたシーケンスは解放');
+  } else {
+    throw new Error('拒否されたシーケンスが解放されていません');
+  }
+
+  submitOutcome = () => 'tesSUCCESS';
+  await allocator.submit(accountSet(), wallet, null);
+  if (submitted.at(-1) === 55 && !gaps.has(55) && counters.get(address) === 56) {
+    console.log('✓ 解放されたシーケンスを次の送信で再利用');
+  } else {
+    throw new Error(`解放されたシーケンスが再利用されていません: ${submitted.at(-1)}`);
+  }
+} catch (error) {
+  console.error('✗ 拒否されたトランザクションテスト失敗:', error);
+  process.exit(1);
+}
+
+// 4. 結果不明の送信テスト
+console.log('\n4️⃣ 結果不明の送信テスト');
+try {
+  submitOutcome = () => {
+    throw Object.assign(new Error('Connection closed'), { name: 'DisconnectedError' });
+  };
+  await expectFailure(allocator.submit(accountSet(), wallet, null));
+
+  if (reservations.get(56)?.txHash && !gaps.has(56)) {
+    console.log('✓ ネットワークエラー後は署名済みトランザクションが消費し得るため予約を保持');
+  } else {
+    throw new Error('結果不明のシーケンスが解放されました');
+  }
+} catch (error) {
+  console.error('✗ 結果不明の送信テスト失敗:', error);
+  process.exit(1);
+}
+
+// 5. tefPAST_SEQ と再同期テスト
+console.log('\n5️⃣ tefPAST_SEQ と再同期テスト');
+try {
+  currentSequence = 80;
+  submitOutcome = () => 'tefPAST_SEQ';
+  await expectFailure(allocator.submit(accountSet(), wallet, null));
+
+  if (!reservations.has(57) && !gaps.has(57) && counters.get(address) === 80) {
+    console.log('✓ 消費済みシーケンスの予約を破棄し、カウンターをレジャーまで進める');
+  } else {
+    throw new Error(`再同期が不正です: counter=${counters.get(address)}`);
+  }
+
+  currentSequence = 60;
+  await allocator.resync(address);
+  if (counters.get(address) === 80) {
+    console.log('✓ レジャーのシーケンスが小さくてもカウンターを戻さない');
+  } else {
+    throw new Error('カウンターが巻き戻されました');
+  }
+} catch (error) {
+  console.error('✗ tefPAST_SEQ と再同期テスト失敗:', error);
+  process.exit(1);
+}
+
+// 6. terPRE_SEQ と未追跡シーケンステスト
+console.log('\n6️⃣ terPRE_SEQ と未追跡シーケンステスト');
+try {
+  reservations.clear();
+  gaps.clear();
+  counters.set(address, 90);
+  currentSequence = 85;
+  reservations.set(86, { walletId: null, txHash: 'A', lastLedgerSequence: 150, reservedAt: Date.now() });
+  gaps.set(88, { walletId: null, releasedAt: Date.now() });
+  submitOutcome = () => 'terPRE_SEQ';
+
+  await allocator.submit(accountSet(), wallet, 'wallet-1');
+
+  if (
+    submitted.at(-1) === 88 &&
+    reservations.get(88)?.txHash &&
+    [...gaps.keys()].sort().join(',') === '85,87,89' &&
+    gaps.get(85)!.walletId === 'wallet-1' &&
+    counters.get(address) === 90
+  ) {
+    console.log('✓ terPRE_SEQ で再同期し、予約も解放もされていないシーケンスを解放（カウンターは戻さない）');
+  } else {
+    throw new Error(`再同期結果が不正です: ${JSON.stringify({ gaps: [...gaps.keys()], counter: counters.get(address) })}`);
+  }
+
+  submitOutcome = () => 'tesSUCCESS';
+  const before = locks;
+  const secretManager: any = { retrieveSecret: async () => wallet.seed };
+  const filled = await allocator.fillStaleGaps(secretManager);
+
+  if (filled === 3 && submitted.slice(-3).join(',') === '85,87,89' && locks - before === 3 && gaps.size === 0) {
+    console.log('✓ 解放されたシーケンスは次の穴埋めで順に埋められる（アカウントのロック内で送信）');
+  } else {
+    throw new Error(`穴埋め結果が不正です: ${JSON.stringify({ filled, locks: locks - before })}`);
+  }
+} catch (error) {
+  console.error('✗ terPRE_SEQ と未追跡シーケンステスト失敗:', error);
+  process.exit(1);
+}
+
+// 7. 台帳との照合テスト
+console.log('\n7️⃣ 台帳との照合テスト');
+try {
+  reservations.clear();
+  gaps.clear();
+  reservations.set(60, { walletId: null, txHash: 'A', lastLedgerSequence: 110, reservedAt: Date.now() });
+  reservations.set(61, { walletId: null, txHash: 'B', lastLedgerSequence: 120, reservedAt: Date.now() });
+  reservations.set(62, { walletId: null, txHash: 'C', lastLedgerSequence: 140, reservedAt: Date.now() });
+  reservations.set(63, { walletId: 'wallet-1', txHash: null, lastLedgerSequence: null, reservedAt: Date.now() - 301000 });
+  reservations.set(64, { walletId: null, txHash: null, lastLedgerSequence: null, reservedAt: Date.now() });
+  gaps.set(59, { walletId: null, releasedAt: Date.now() });
+
+  validatedSequence = 61;       // 60 以下は消費済み
+  validatedLedgerIndex = 130;   // 61 の LastLedgerSequence（120）は超過
+
+  const released = await allocator.settle();
+
+  if (
+    released === 2 &&
+    !reservations.has(60) && !gaps.has(59) &&
+    gaps.has(61) && gaps.has(63) &&
+    reservations.has(62) && reservations.has(64)
+  ) {
+    console.log('✓ 消費済みシーケンスを削除');
+    console.log('✓ LastLedgerSequence を超過した予約と長時間未署名の予約を解放');
+    console.log('✓ 有効期限内の予約は保持');
+  } else {
+    throw new Error(`照合結果が不正です: ${JSON.stringify({ released, reservations: [...reservations.keys()], gaps: [...gaps.keys()] })}`);
+  }
+} catch (error) {
+  console.error('✗ 台帳との照合テスト失敗:', error);
+  process.exit(1);
+}
+
+// 8. 未使用シーケンスの穴埋めテスト
+console.log('\n8️⃣ 未使用シーケンスの穴埋めテスト');
+try {
+  gaps.clear();
+  reservations.clear();
+  gaps.set(70, { walletId: null, releasedAt: Date.now() - 31000 });
+  gaps.set(71, { walletId: null, releasedAt: Date.now() });
+  submitOutcome = () => 'tesSUCCESS';
+
+  const filled = await allocator.fillStaleGaps({} as any);
+
+  if (filled === 1 && submitted.at(-1) === 70 && reservations.get(70)?.txHash && gaps.has(71)) {
+    console.log('✓ 一定時間使われなかったシーケンスを AccountSet で埋め、消費まで予約');
+  } else {
+    throw new Error(`穴埋め結果が不正です: ${JSON.stringify({ filled, gaps: [...gaps.keys()] })}`);
+  }
+
+  gaps.set(72, { walletId: null, releasedAt: Date.now() - 31000 });
+  submitOutcome = () => 'tefPAST_SEQ';
+  await allocator.fillStaleGaps({} as any);
+
+  if (!reservations.has(72) && !gaps.has(72)) {
+    console.log('✓ 既に消費されたシーケンスは破棄');
+  } else {
+    throw new Error('消費済みシーケンスが残っています');
+  }
+} catch (error) {
+  console.error('✗ 未使用シーケンスの穴埋めテスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 シーケンスアロケーターの検証テストがすべて成功しました！\n');
+process.exit(0);
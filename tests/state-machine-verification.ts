@@ -0,0 +1,264 @@
+import { OperationStatus, StepStatus } from '../src/operations/base-operation';
+import {
+  transitionOperation,
+  transitionStep,
+  withTransaction,
+  InvalidTransitionError
+} from '../src/operations/state-machine';
+
+console.log('🧪 状態遷移検証テスト開始\n');
+
+// =========================================
+// スタブ: operations / operation_steps / operation_events をメモリ上で扱うデータベース
+// =========================================
+
+const operations = new Map<string, Record<string, any>>();
+const steps = new Map<string, Record<string, any>>();
+const events: { entity: string; from: string | null; to: string; actor: string; reason: string | null }[] = [];
+const statements: string[] = [];
+let released = 0;
+
+async function query(sql: string, params: any[] = []): Promise<any> {
+  statements.push(sql);
+
+  if (/^(BEGIN|COMMIT|ROLLBACK)$/.test(sql)) {
+    return { rows: [] };
+  }
+  if (sql.startsWith('SELECT status FROM operations')) {
+    const operation = operations.get(params[0]);
+    return { rows: operation ? [{ status: operation.status }] : [] };
+  }
+  if (sql.startsWith('SELECT operation_id, step_no, status FROM operation_steps')) {
+    const step = steps.get(params[0]);
+    return { rows: step ? [{ operation_id: step.operation_id, step_no: step.step_no, status: step.status }] : [] };
+  }
+  if (sql.startsWith('UPDATE operations SET') || sql.startsWith('UPDATE operation_steps SET')) {
+    // "column = $n" の割り当てを反映
+    const table = sql.startsWith('UPDATE operations') ? operations : steps;
+    const row = table.get(params[params.length - 1])!;
+    for (const [, column, index] of sql.matchAll(/(\w+) = \$(\d+)/g)) {
+      if (column !== 'id') {
+        row[column!] = params[Number(index) - 1];
+      }
+    }
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.includes('INSERT INTO operation_events')) {
+    const [, , , entity, from, to, actor, reason] = params;
+    events.push({ entity, from, to, actor, reason });
+    return { rows: [] };
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const client = { query, release: () => { released++; } };
+const pool: any = { query, connect: async () => client };
+
+function reset() {
+  operations.clear();
+  steps.clear();
+  events.length = 0;
+  statements.length = 0;
+  released = 0;
+}
+
+// 1. オペレーションの遷移テスト
+console.log('1️⃣ オペレーションの遷移テスト');
+try {
+  reset();
+  operations.set('op-1', { status: OperationStatus.PENDING });
+
+  await transitionOperation(pool, 'op-1', OperationStatus.IN_PROGRESS, { actor: 'worker' });
+  if (
+    operations.get('op-1')!.status === OperationStatus.IN_PROGRESS &&
+    events.length === 1 &&
+    events[0]!.from === OperationStatus.PENDING &&
+    events[0]!.actor === 'worker' &&
+    statements.includes('COMMIT') &&
+    released === 1
+  ) {
+    console.log('✓ PENDING → IN_PROGRESS をトランザクション内で更新し、イベントを記録');
+  } else {
+    throw new Error(`遷移が不正です: ${JSON.stringify({ operations: [...operations], events, statements })}`);
+  }
+
+  await transitionOperation(pool, 'op-1', OperationStatus.IN_PROGRESS, { actor: 'worker' }, { errorMessage: 'retrying' });
+  if (operations.get('op-1')!.error_message === 'retrying' && events.length === 1) {
+    console.log('✓ 同じステータスへの遷移はフィールドのみ更新（イベントなし）');
+  } else {
+    throw new Error('同一ステータスでイベントが記録されました');
+  }
+
+  await transitionOperation(pool, 'op-1', OperationStatus.FAILED, { actor: 'worker', reason: 'tecNO_AUTH' }, {
+    errorMessage: 'Not authorized',
+    errorCode: 'tecNO_AUTH'
+  });
+  if (
+    operations.get('op-1')!.status === OperationStatus.FAILED &&
+    operations.get('op-1')!.error_code === 'tecNO_AUTH' &&
+    events[1]!.reason === 'tecNO_AUTH'
+  ) {
+    console.log('✓ エラーメッセージ・エラーコード・理由を記録');
+  } else {
+    throw new Error('エラー情報が記録されていません');
+  }
+} catch (error) {
+  console.error('✗ オペレーションの遷移テスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 不正な遷移テスト
+console.log('\n2️⃣ 不正な遷移テスト');
+try {
+  reset();
+  operations.set('op-1', { status: OperationStatus.SUCCESS });
+
+  try {
+    await transitionOperation(pool, 'op-1', OperationStatus.IN_PROGRESS, { actor: 'worker' });
+    throw new Error('終了状態からの遷移が許可されました');
+  } catch (error) {
+    if (!(error instanceof InvalidTransitionError)) {
+      throw error;
+    }
+  }
+
+  if (
+    operations.get('op-1')!.status === OperationStatus.SUCCESS &&
+    events.length === 0 &&
+    statements.includes('ROLLBACK') &&
+    released === 1
+  ) {
+    console.log('✓ SUCCESS → IN_PROGRESS は InvalidTransitionError（ロールバック）');
+  } else {
+    throw new Error('不正な遷移で状態が変更されました');
+  }
+
+  reset();
+  operations.set('op-1', { status: OperationStatus.CANCELLED });
+
+  const transitioned = await transitionOperation(
+    pool, 'op-1', OperationStatus.PENDING, { actor: 'scheduler' }, { expected: OperationStatus.SCHEDULED }
+  );
+  if (!transitioned && operations.get('op-1')!.status === OperationStatus.CANCELLED) {
+    console.log('✓ 期待するステータスでない場合は false（変更なし）');
+  } else {
+    throw new Error('期待ステータスの条件が無視されました');
+  }
+
+  try {
+    await transitionOperation(pool, 'missing', OperationStatus.IN_PROGRESS, { actor: 'worker' });
+    throw new Error('存在しないオペレーションが遷移しました');
+  } catch (error: any) {
+    if (!error.message.startsWith('Operation not found')) {
+      throw error;
+    }
+  }
+  console.log('✓ 存在しないオペレーションはエラー');
+} catch (error) {
+  console.error('✗ 不正な遷移テスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. 呼び出し元のトランザクションへの参加テスト
+console.log('\n3️⃣ 呼び出し元のトランザクションへの参加テスト');
+try {
+  reset();
+  operations.set('op-1', { status: OperationStatus.SCHEDULED });
+
+  await withTransaction(pool, async (tx) => {
+    await transitionOperation(tx, 'op-1', OperationStatus.PENDING, { actor: 'scheduler' });
+  });
+
+  if (
+    statements.filter((sql) => sql === 'BEGIN').length === 1 &&
+    statements.filter((sql) => sql === 'COMMIT').length === 1 &&
+    released === 1
+  ) {
+    console.log('✓ クライアントを渡すと新しいトランザクションを開始しない');
+  } else {
+    throw new Error(`トランザクションが入れ子になっています: ${statements.join(' / ')}`);
+  }
+
+  reset();
+  try {
+    await withTransaction(pool, async () => {
+      throw new Error('aborted');
+    });
+  } catch (error: any) {
+    if (error.message !== 'aborted') {
+      throw error;
+    }
+  }
+
+  if (statements.includes('ROLLBACK') && !statements.includes('COMMIT') && released === 1) {
+    console.log('✓ 例外時はロールバックしてクライアントを解放');
+  } else {
+    throw new Error('例外時のロールバックが不正です');
+  }
+} catch (error) {
+  console.error('✗ 呼び出し元のトランザクションへの参加テスト失敗:', error);
+  process.exit(1);
+}
+
+// 4. ステップの遷移テスト
+console.log('\n4️⃣ ステップの遷移テスト');
+try {
+  reset();
+  steps.set('step-1', { operation_id: 'op-1', step_no: 1, status: StepStatus.PENDING });
+
+  await transitionStep(pool, 'step-1', StepStatus.PENDING, { actor: 'worker' }, {
+    tx_hash: 'ABCDEF',
+    signed_tx_blob: '1200',
+    last_ledger_sequence: 120
+  });
+  if (steps.get('step-1')!.tx_hash === 'ABCDEF' && steps.get('step-1')!.signed_tx_blob === '1200' && events.length === 0) {
+    console.log('✓ PENDING → PENDING は署名済みトランザクションのみ記録（イベントなし）');
+  } else {
+    throw new Error('PENDING のフィールド更新が不正です');
+  }
+
+  await transitionStep(pool, 'step-1', StepStatus.SUBMITTED, { actor: 'worker' }, { submitted_at: 'now' });
+  await transitionStep(pool, 'step-1', StepStatus.PENDING_VALIDATION, { actor: 'worker' });
+  await transitionStep(pool, 'step-1', StepStatus.VALIDATED_SUCCESS, { actor: 'validation-poller' }, {
+    engine_result: 'tesSUCCESS'
+  });
+
+  if (
+    steps.get('step-1')!.status === StepStatus.VALIDATED_SUCCESS &&
+    steps.get('step-1')!.engine_result === 'tesSUCCESS' &&
+    events.map((event) => event.to).join(',') ===
+      [StepStatus.SUBMITTED, StepStatus.PENDING_VALIDATION, StepStatus.VALIDATED_SUCCESS].join(',') &&
+    events.every((event) => event.entity === 'step')
+  ) {
+    console.log('✓ PENDING → SUBMITTED → PENDING_VALIDATION → VALIDATED_SUCCESS をイベント付きで記録');
+  } else {
+    throw new Error(`ステップの遷移が不正です: ${JSON.stringify(events)}`);
+  }
+
+  const invalid: [StepStatus, StepStatus][] = [
+    [StepStatus.PENDING, StepStatus.PENDING_VALIDATION],
+    [StepStatus.PENDING, StepStatus.VALIDATED_SUCCESS],
+    [StepStatus.PENDING_VALIDATION, StepStatus.SUBMITTED],
+    [StepStatus.VALIDATED_SUCCESS, StepStatus.VALIDATED_FAILED],
+    [StepStatus.VALIDATED_FAILED, StepStatus.PENDING]
+  ];
+
+  for (const [from, to] of invalid) {
+    steps.set('step-2', { operation_id: 'op-1', step_no: 2, status: from });
+    try {
+      await transitionStep(pool, 'step-2', to, { actor: 'worker' });
+      throw new Error(`${from} → ${to} が許可されました`);
+    } catch (error) {
+      if (!(error instanceof InvalidTransitionError) || steps.get('step-2')!.status !== from) {
+        throw error;
+      }
+    }
+  }
+  console.log(`✓ 許可されていない遷移（${invalid.length}件）は InvalidTransitionError`);
+} catch (error) {
+  console.error('✗ ステップの遷移テスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 状態遷移の検証テストがすべて成功しました！\n');
+process.exit(0);
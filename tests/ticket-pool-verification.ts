@@ -0,0 +1,318 @@
+import { Wallet, decode } from 'xrpl';
+import { xrplClient } from '../src/xrpl/client';
+import { TicketPool, TicketStatus } from '../src/services/ticket-pool';
+
+console.log('🧪 チケットプール検証テスト開始\n');
+
+// =========================================
+// スタブ: XRPL クライアント（レジャー上のチケットと TicketCreate）
+// =========================================
+
+const issuer = Wallet.generate();
+process.env.ISSUER_SEED = issuer.seed!;
+const account = issuer.classicAddress;
+
+let ledgerTickets: number[] = [];
+let ticketCreates: number[] = [];   // 送信された TicketCount
+let createResult = 'tesSUCCESS';
+let nextLedgerSequence = 1000;      // アカウントの次のシーケンス
+let lockedAtValidation: boolean | null = null;  // TicketCreate の検証時にロックを保持していたか
+
+(xrplClient as any).getClient = () => ({
+  autofill: async (tx: any) => ({ ...tx, Fee: '12', LastLedgerSequence: 200 }),
+  submit: async (txBlob: string) => {
+    const tx = decode(txBlob) as any;
+    ticketCreates.push(tx.TicketCount);
+    if (createResult === 'tesSUCCESS') {
+      // TicketCreate はシーケンス+1 から TicketCount 個のチケットを作成
+      for (let i = 1; i <= tx.TicketCount; i++) {
+        ledgerTickets.push(tx.Sequence + i);
+      }
+    }
+    return { result: { engine_result: 'tesSUCCESS', tx_json: {}, validated_ledger_index: 100 } };
+  },
+  request: async (request: any) => {
+    if (request.command === 'account_objects') {
+      return {
+        result: {
+          account_objects: ledgerTickets.map((sequence) => ({ LedgerEntryType: 'Ticket', TicketSequence: sequence }))
+        }
+      };
+    }
+    if (request.command === 'tx') {
+      lockedAtValidation = locked > unlocked;
+      return { result: { validated: true, ledger_index: 101, meta: { TransactionResult: createResult } } };
+    }
+    throw new Error(`Unexpected request: ${request.command}`);
+  }
+});
+
+// =========================================
+// スタブ: xrpl_tickets / wallet_locks / シーケンス予約をメモリ上で扱うデータベース
+// =========================================
+
+interface Ticket {
+  sequence: number;
+  status: TicketStatus;
+  reservedBy: string | null;
+  reservedAt: number | null;
+}
+
+const tickets = new Map<number, Ticket>();
+let locked = 0;
+let unlocked = 0;
+
+async function query(sql: string, params: any[] = []): Promise<any> {
+  if (sql.includes('SET reserved_at = NOW()')) {
+    // reserve: このステップが予約済みのチケットを更新
+    const [, stepId, reserved] = params;
+    const held = [...tickets.values()].filter((t) => t.status === reserved && t.reservedBy === stepId);
+    held.forEach((ticket) => { ticket.reservedAt = Date.now(); });
+    return { rows: held.map((ticket) => ({ ticket_sequence: String(ticket.sequence) })) };
+  }
+  if (sql.includes('SET status = $4, reserved_by = NULL')) {
+    // release: ステップの予約を解放
+    const [, sequence, stepId, available] = params;
+    const ticket = tickets.get(sequence);
+    if (ticket && ticket.reservedBy === stepId) {
+      Object.assign(ticket, { status: available, reservedBy: null, reservedAt: null });
+    }
+    return { rows: [] };
+  }
+  if (sql.includes('AND ticket_sequence = $2') && sql.startsWith('DELETE FROM xrpl_tickets')) {
+    tickets.delete(params[1]);
+    return { rows: [] };
+  }
+  if (sql.includes('SET status = $3, reserved_by = $2')) {
+    // reserve: 最小の AVAILABLE チケット
+    const [, stepId, reserved, available] = params;
+    const ticket = [...tickets.values()]
+      .filter((t) => t.status === available)
+      .sort((a, b) => a.sequence - b.sequence)[0];
+    if (!ticket) {
+      return { rows: [] };
+    }
+    Object.assign(ticket, { status: reserved, reservedBy: stepId, reservedAt: Date.now() });
+    return { rows: [{ ticket_sequence: String(ticket.sequence) }] };
+  }
+  if (sql.startsWith('DELETE FROM xrpl_tickets')) {
+    for (const sequence of tickets.keys()) {
+      if (!params[1].includes(sequence)) {
+        tickets.delete(sequence);
+      }
+    }
+    return { rows: [] };
+  }
+  if (sql.startsWith('INSERT INTO xrpl_tickets')) {
+    for (const sequence of params[1]) {
+      if (!tickets.has(sequence)) {
+        tickets.set(sequence, { sequence, status: params[2], reservedBy: null, reservedAt: null });
+      }
+    }
+    return { rows: [] };
+  }
+  if (sql.includes('SET status = $2, reserved_by = NULL')) {
+    // 古い予約の解放
+    const [, available, reserved, minutes] = params;
+    for (const ticket of tickets.values()) {
+      if (ticket.status === reserved && ticket.reservedAt! < Date.now() - minutes * 60000) {
+        Object.assign(ticket, { status: available, reservedBy: null, reservedAt: null });
+      }
+    }
+    return { rows: [] };
+  }
+  if (sql.startsWith('SELECT COUNT(*) AS available FROM xrpl_tickets')) {
+    const available = [...tickets.values()].filter((t) => t.status === params[1]).length;
+    return { rows: [{ available: String(available) }] };
+  }
+  if (sql.includes('INSERT INTO wallet_locks')) {
+    locked++;
+    return { rows: [{ lock_token: params[1] }] };
+  }
+  if (sql.startsWith('DELETE FROM wallet_locks')) {
+    unlocked++;
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.includes('UPDATE wallet_locks')) {
+    return { rows: [], rowCount: 1 };
+  }
+  if (sql.startsWith('WITH gap AS')) {
+    return { rows: [] };
+  }
+  if (sql.startsWith('WITH next AS')) {
+    return { rows: [{ sequence: String(nextLedgerSequence++) }] };
+  }
+  if (sql.startsWith('UPDATE account_sequence_reservations') || sql.startsWith('WITH released AS')) {
+    return { rows: [], rowCount: 1 };
+  }
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+const pool: any = { query, connect: async () => ({ query, release: () => {} }) };
+
+function reset() {
+  tickets.clear();
+  ledgerTickets = [];
+  ticketCreates = [];
+  createResult = 'tesSUCCESS';
+  locked = 0;
+  unlocked = 0;
+  lockedAtValidation = null;
+}
+
+// 1. チケットの予約テスト
+console.log('1️⃣ チケットの予約テスト');
+try {
+  reset();
+  for (const sequence of [12, 10, 11]) {
+    tickets.set(sequence, { sequence, status: TicketStatus.AVAILABLE, reservedBy: null, reservedAt: null });
+  }
+
+  const ticketPool = new TicketPool(pool, { size: 5, lowWater: 2 });
+  const reserved = [
+    await ticketPool.reserve(account, 'step-1'),
+    await ticketPool.reserve(account, 'step-2'),
+    await ticketPool.reserve(account, 'step-3'),
+    await ticketPool.reserve(account, 'step-4')
+  ];
+
+  if (reserved.join(',') === '10,11,12,' && tickets.get(10)!.reservedBy === 'step-1') {
+    console.log('✓ 最小のチケットから予約し、使い切ると null');
+  } else {
+    throw new Error(`予約結果が不正です: ${reserved.join(',')}`);
+  }
+
+  // 適用されなかったトランザクションの再試行は同じチケットを使う
+  if ((await ticketPool.reserve(account, 'step-2')) === 11 && tickets.get(11)!.reservedBy === 'step-2') {
+    console.log('✓ 予約済みのステップには同じチケットを返す（プールを消費しない）');
+  } else {
+    throw new Error('予約済みのチケットが再利用されません');
+  }
+
+  await ticketPool.release(account, 10, 'step-2');
+  await ticketPool.release(account, 10, 'step-1');
+  if (tickets.get(10)!.status === TicketStatus.AVAILABLE && (await ticketPool.reserve(account, 'step-5')) === 10) {
+    console.log('✓ 予約したステップだけがチケットを解放でき、解放したチケットは再び予約できる');
+  } else {
+    throw new Error('チケットの解放が不正です');
+  }
+
+  await ticketPool.discard(account, 11);
+  if (!tickets.has(11) && (await ticketPool.reserve(account, 'step-2')) === null) {
+    console.log('✓ レジャーにないチケット（tefNO_TICKET）は破棄');
+  } else {
+    throw new Error('チケットの破棄が不正です');
+  }
+} catch (error) {
+  console.error('✗ チケットの予約テスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. レジャーとの同期テスト
+console.log('\n2️⃣ レジャーとの同期テスト');
+try {
+  reset();
+  ledgerTickets = [21, 22, 23];
+  tickets.set(20, { sequence: 20, status: TicketStatus.RESERVED, reservedBy: 'step-1', reservedAt: Date.now() });
+  tickets.set(21, { sequence: 21, status: TicketStatus.RESERVED, reservedBy: 'step-2', reservedAt: Date.now() - 11 * 60000 });
+  tickets.set(22, { sequence: 22, status: TicketStatus.RESERVED, reservedBy: 'step-3', reservedAt: Date.now() });
+
+  const created = await new TicketPool(pool, { size: 5, lowWater: 2 }).refill();
+
+  if (
+    created === 0 &&
+    !tickets.has(20) &&
+    tickets.get(21)!.status === TicketStatus.AVAILABLE &&
+    tickets.get(22)!.status === TicketStatus.RESERVED &&
+    tickets.get(23)!.status === TicketStatus.AVAILABLE &&
+    ticketCreates.length === 0
+  ) {
+    console.log('✓ 使用済みチケットを削除、新しいチケットを追加、古い予約を解放');
+    console.log('✓ 利用可能数が下限以上なら TicketCreate を送信しない');
+  } else {
+    throw new Error(`同期結果が不正です: ${JSON.stringify([...tickets.values()])}`);
+  }
+
+  if (locked === 1 && unlocked === 1) {
+    console.log('✓ 発行者ウォレットのロック内で実行');
+  } else {
+    throw new Error('ウォレットロックが使われていません');
+  }
+} catch (error) {
+  console.error('✗ レジャーとの同期テスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. チケットの補充テスト
+console.log('\n3️⃣ チケットの補充テスト');
+try {
+  reset();
+  ledgerTickets = [30];
+
+  const created = await new TicketPool(pool, { size: 5, lowWater: 2 }).refill();
+  const available = [...tickets.values()].filter((t) => t.status === TicketStatus.AVAILABLE).length;
+
+  if (created === 4 && ticketCreates[0] === 4 && available === 5) {
+    console.log('✓ 下限を下回るとプールサイズまで TicketCreate で補充');
+  } else {
+    throw new Error(`補充結果が不正です: created=${created}, available=${available}`);
+  }
+
+  if (lockedAtValidation === false && locked === 1 && unlocked === 1) {
+    console.log('✓ TicketCreate の送信後にロックを解放してから検証を待つ');
+  } else {
+    throw new Error('検証中も発行者ウォレットのロックを保持しています');
+  }
+
+  reset();
+  ledgerTickets = Array.from({ length: 248 }, (_, i) => 1000 + i);
+  for (const sequence of ledgerTickets) {
+    tickets.set(sequence, { sequence, status: TicketStatus.RESERVED, reservedBy: 'step', reservedAt: Date.now() });
+  }
+
+  const capped = await new TicketPool(pool, { size: 20, lowWater: 5 }).refill();
+  if (capped === 2 && ticketCreates[0] === 2) {
+    console.log('✓ アカウントあたりのチケット上限（250）を超えて作成しない');
+  } else {
+    throw new Error(`上限の扱いが不正です: ${capped}`);
+  }
+
+  reset();
+  const disabled = await new TicketPool(pool, { size: 0 }).refill();
+  if (disabled === 0 && locked === 0) {
+    console.log('✓ プールサイズ 0 の場合は何もしない');
+  } else {
+    throw new Error('無効化されたプールが補充されました');
+  }
+} catch (error) {
+  console.error('✗ チケットの補充テスト失敗:', error);
+  process.exit(1);
+}
+
+// 4. TicketCreate の失敗テスト
+console.log('\n4️⃣ TicketCreate の失敗テスト');
+try {
+  reset();
+  createResult = 'tecINSUFFICIENT_RESERVE';
+
+  try {
+    await new TicketPool(pool, { size: 5, lowWater: 2 }).refill();
+    throw new Error('失敗した TicketCreate が成功扱いになりました');
+  } catch (error: any) {
+    if (!error.message.includes('tecINSUFFICIENT_RESERVE')) {
+      throw error;
+    }
+  }
+
+  if (unlocked === 1 && tickets.size === 0) {
+    console.log('✓ 検証で失敗した TicketCreate はエラー（ロックは解放）');
+  } else {
+    throw new Error('失敗時のロック解放が不正です');
+  }
+} catch (error) {
+  console.error('✗ TicketCreate の失敗テスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 チケットプールの検証テストがすべて成功しました！\n');
+process.exit(0);
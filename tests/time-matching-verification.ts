@@ -0,0 +1,132 @@
+import { runTimeMatching, parseLoadProfile, getGridZoneTaxonomy } from '../src/matching';
+
+console.log('🧪 時間マッチング検証テスト開始\n');
+
+// 1. 時間単位のマッチング
+console.log('1️⃣ 時間単位のマッチングテスト');
+try {
+  const supply = [
+    { issuanceId: 'B', source: 'held' as const, productionStart: '2026-01-05T07:00:00Z', availableKwh: 60 },
+    { issuanceId: 'A', source: 'retired' as const, productionStart: '2026-01-05T07:00:00Z', availableKwh: 30 },
+    { issuanceId: 'C', source: 'held' as const, productionStart: '2026-01-05T09:00:00Z', availableKwh: 100 }
+  ];
+  const load = [
+    { hourStart: '2026-01-05T07:00:00Z', kwh: 100 },
+    { hourStart: '2026-01-05T08:00:00Z', kwh: 50 }
+  ];
+
+  const result = runTimeMatching(supply, load);
+  const hour7 = result.hourly[0]!;
+  const hour8 = result.hourly[1]!;
+
+  if (hour7.matchedKwh === 90 && hour7.unmatchedKwh === 10 && hour7.cfePercent === 90) {
+    console.log('✓ 同一時間帯の証書のみが割り当てられています');
+  } else {
+    throw new Error(`07時の結果が不正です: ${JSON.stringify(hour7)}`);
+  }
+
+  if (hour7.allocations[0]?.issuanceId === 'A') {
+    console.log('✓ 償却済み証書が優先して割り当てられています');
+  } else {
+    throw new Error('割り当て順序が不正です');
+  }
+
+  if (hour8.matchedKwh === 0 && result.total.cfePercent === 60) {
+    console.log('✓ 別時間帯の証書は割り当てられず、合計CFE率が正しく計算されています');
+  } else {
+    throw new Error(`合計の結果が不正です: ${JSON.stringify(result.total)}`);
+  }
+
+  if (JSON.stringify(runTimeMatching([...supply].reverse(), load)) === JSON.stringify(result)) {
+    console.log('✓ 入力順序に依存しない再現可能な結果です');
+  } else {
+    throw new Error('結果が再現できません');
+  }
+} catch (error) {
+  console.error('✗ 時間単位のマッチングテスト失敗:', error);
+  process.exit(1);
+}
+
+// 2. 負荷プロファイルの解析
+console.log('\n2️⃣ 負荷プロファイル解析テスト');
+try {
+  const csv = 'hour_start,kwh\n2026-01-05T07:00:00Z,120.5\n2026-01-05T07:30:00Z,10\n';
+  const parsed = parseLoadProfile(csv, 'text/csv');
+
+  if (parsed.loads.length === 1 && parsed.errors.length === 1 && parsed.errors[0]!.row === 2) {
+    console.log('✓ CSVの正常行と不正行が区別されています');
+  } else {
+    throw new Error(`CSV解析結果が不正です: ${JSON.stringify(parsed)}`);
+  }
+
+  const json = JSON.stringify({ readings: [{ hourStart: '2026-01-05T08:00:00Z', kwh: 80 }] });
+  const parsedJson = parseLoadProfile(json, 'application/json');
+
+  if (parsedJson.loads.length === 1 && parsedJson.loads[0]!.kwh === 80) {
+    console.log('✓ JSONの負荷プロファイルが解析されています');
+  } else {
+    throw new Error('JSON解析結果が不正です');
+  }
+} catch (error) {
+  console.error('✗ 負荷プロファイル解析テスト失敗:', error);
+  process.exit(1);
+}
+
+// 3. 地理的マッチング
+console.log('\n3️⃣ 地理的マッチングテスト');
+try {
+  const zones = getGridZoneTaxonomy().listZones();
+  const supply = [
+    { issuanceId: 'T', source: 'held' as const, productionStart: '2026-01-05T07:00:00Z', availableKwh: 40, gridZone: 'tokyo' },
+    { issuanceId: 'C', source: 'held' as const, productionStart: '2026-01-05T07:00:00Z', availableKwh: 40, gridZone: 'chubu' },
+    { issuanceId: 'K', source: 'held' as const, productionStart: '2026-01-05T07:00:00Z', availableKwh: 40, gridZone: 'kyushu' }
+  ];
+  const load = [{ hourStart: '2026-01-05T07:00:00Z', kwh: 100 }];
+
+  const sameZone = runTimeMatching(supply, load, { geo: { mode: 'same_zone', siteZone: 'tokyo', zones } });
+  if (sameZone.total.matchedKwh === 40 && sameZone.hourly[0]!.allocations.every(a => a.gridZone === 'tokyo')) {
+    console.log('✓ same_zone では同一エリアの証書のみが割り当てられています');
+  } else {
+    throw new Error(`same_zone の結果が不正です: ${JSON.stringify(sameZone.hourly[0])}`);
+  }
+
+  const interconnected = runTimeMatching(supply, load, { geo: { mode: 'interconnected', siteZone: 'tokyo', zones } });
+  const chubu = interconnected.hourly[0]!.allocations.find(a => a.issuanceId === 'C');
+  if (interconnected.total.matchedKwh === 80 && chubu?.proximityScore === 0.5) {
+    console.log('✓ interconnected では連系エリアの証書も割り当てられ、近接スコアが付与されています');
+  } else {
+    throw new Error(`interconnected の結果が不正です: ${JSON.stringify(interconnected.hourly[0])}`);
+  }
+
+  const areas = interconnected.byZone?.map(z => z.area);
+  if (JSON.stringify(areas) === JSON.stringify(['Chubu EPCO area', 'TEPCO area'])) {
+    console.log('✓ エリア別のレポートが出力されています');
+  } else {
+    throw new Error(`エリア別レポートが不正です: ${JSON.stringify(interconnected.byZone)}`);
+  }
+
+  const located = runTimeMatching(
+    [{ ...supply[0]!, location: { latitude: 35.68, longitude: 139.77 } }],
+    load,
+    { geo: { mode: 'any', siteZone: 'tokyo', siteLocation: { latitude: 35.68, longitude: 139.77 }, zones } }
+  );
+  const allocation = located.hourly[0]!.allocations[0]!;
+  if (allocation.distanceKm === 0 && allocation.proximityScore === 1) {
+    console.log('✓ 座標がある場合は送電距離からスコアが計算されています');
+  } else {
+    throw new Error(`距離スコアが不正です: ${JSON.stringify(allocation)}`);
+  }
+
+  if (runTimeMatching(supply, load).byZone === undefined) {
+    console.log('✓ 地理オプションなしの結果は従来どおりです');
+  } else {
+    throw new Error('地理オプションなしの結果が変わっています');
+  }
+} catch (error) {
+  console.error('✗ 地理的マッチングテスト失敗:', error);
+  process.exit(1);
+}
+
+console.log('\n🎉 時間マッチングの検証テストがすべて成功しました！\n');
+
+process.exit(0);